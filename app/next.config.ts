@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // pdfjs loads its worker at runtime, so it must not be bundled
+  serverExternalPackages: ["pdfjs-dist"],
   async headers() {
     return [
       {
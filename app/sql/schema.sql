@@ -11,25 +11,123 @@ CREATE TABLE IF NOT EXISTS pdf_versions (
   file_path TEXT NOT NULL,
   semester INTEGER NOT NULL CHECK (semester IN (1, 2)),
   is_active BOOLEAN DEFAULT false,
-  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  is_pinned BOOLEAN DEFAULT false, -- a pinned version stays active when newer files are uploaded
+  parser TEXT,                     -- id of the parser that recognised the file
+  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  effective_from DATE,             -- first date the version applies; NULL for no start
+  effective_to DATE,               -- last date the version applies; NULL for no end
+  CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_from <= effective_to)
 );
 
 -- Index for quick active PDF lookup
 CREATE INDEX IF NOT EXISTS idx_pdf_active ON pdf_versions(is_active) WHERE is_active = true;
 CREATE INDEX IF NOT EXISTS idx_pdf_semester ON pdf_versions(semester);
 
--- Optional: Room schedules table for caching parsed data (Phase 2)
+-- Live schedule: one row per occupied slot
 CREATE TABLE IF NOT EXISTS room_schedules (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room TEXT NOT NULL,
   day TEXT NOT NULL,
-  occupied JSONB NOT NULL DEFAULT '[]',
-  pdf_version_id UUID REFERENCES pdf_versions(id) ON DELETE CASCADE,
+  start_time TEXT NOT NULL,      -- HH:mm
+  end_time TEXT NOT NULL,        -- HH:mm
+  batch TEXT,
+  sub_batch TEXT,
+  subject TEXT,
+  session_type TEXT CHECK (session_type IN ('Lec', 'Lab', 'Tut')),
+  semester INTEGER CHECK (semester IN (1, 2)),
+  pdf_version_id UUID REFERENCES pdf_versions(id) ON DELETE CASCADE, -- version the slot was parsed from
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Index for room queries
 CREATE INDEX IF NOT EXISTS idx_room_day ON room_schedules(room, day);
+-- Index for the free-room search, which reads one day for every room
+CREATE INDEX IF NOT EXISTS idx_room_schedules_day ON room_schedules(day);
+-- Index for replacing one semester's slots
+CREATE INDEX IF NOT EXISTS idx_room_schedules_semester ON room_schedules(semester);
+
+-- Live Lunch/BREAK windows: one row per batch break
+CREATE TABLE IF NOT EXISTS schedule_breaks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  day TEXT NOT NULL,
+  batch TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('Lunch', 'Break')),
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  semester INTEGER CHECK (semester IN (1, 2)),
+  pdf_version_id UUID REFERENCES pdf_versions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_breaks_day ON schedule_breaks(day);
+
+-- Rooms registry: the rooms the finder searches and what they offer
+CREATE TABLE IF NOT EXISTS rooms (
+  id TEXT PRIMARY KEY,           -- room number as printed in timetables, e.g. '501'
+  name TEXT NOT NULL,
+  building TEXT,
+  floor INTEGER,
+  capacity INTEGER CHECK (capacity >= 0),
+  type TEXT NOT NULL DEFAULT 'lecture' CHECK (type IN ('lecture', 'lab', 'seminar')),
+  amenities TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (amenities <@ ARRAY['projector', 'whiteboard', 'ac', 'power_outlets'])
+);
+
+-- The rooms the finder started with
+INSERT INTO rooms (id, name, floor) VALUES
+  ('401', 'Room 401', 4), ('402', 'Room 402', 4), ('403', 'Room 403', 4), ('404', 'Room 404', 4), ('405', 'Room 405', 4),
+  ('501', 'Room 501', 5), ('502', 'Room 502', 5), ('503', 'Room 503', 5), ('504', 'Room 504', 5), ('505', 'Room 505', 5)
+ON CONFLICT (id) DO NOTHING;
+
+-- Batch registry: batches and their sub-batches, with the color grids use
+CREATE TABLE IF NOT EXISTS batches (
+  name TEXT PRIMARY KEY,         -- as written in timetables, e.g. 'Turing' or 'Enigma'
+  color TEXT NOT NULL CHECK (color ~ '^#[0-9a-f]{6}$'),
+  semester INTEGER CHECK (semester > 0),
+  year INTEGER CHECK (year > 0),
+  program TEXT,
+  parent TEXT REFERENCES batches(name) ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+-- The batches and sub-batches the timetables used so far
+INSERT INTO batches (name, color) VALUES
+  ('Hopper', '#a855f7'), ('Turing', '#3b82f6'), ('Neumann', '#10b981'),
+  ('Ramanujan', '#f97316'), ('CP', '#ec4899'), ('TIP', '#06b6d4')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO batches (name, color, parent) VALUES
+  ('Compiler', '#a855f7', 'Hopper'), ('Debugger', '#a855f7', 'Hopper'),
+  ('Enigma', '#3b82f6', 'Turing'), ('Lambda', '#3b82f6', 'Turing'),
+  ('Memory', '#10b981', 'Neumann'), ('Architecture', '#10b981', 'Neumann'),
+  ('Infinity', '#f97316', 'Ramanujan'), ('Mock Theta', '#f97316', 'Ramanujan')
+ON CONFLICT (name) DO NOTHING;
+
+-- Immutable copy of the live schedule after each write
+CREATE TABLE IF NOT EXISTS schedule_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  author TEXT,                   -- email of the admin who made the write
+  source TEXT NOT NULL CHECK (source IN ('parse', 'import', 'editor', 'activation', 'restore', 'baseline')),
+  note TEXT,
+  entry_count INTEGER NOT NULL,  -- room/day entries
+  slot_count INTEGER NOT NULL,
+  schedules JSONB NOT NULL,
+  breaks JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_snapshots_created ON schedule_snapshots(created_at DESC);
+
+-- App settings (active week, operating hours, timezone, teaching days). Every
+-- save adds a row; the newest row is the current settings.
+CREATE TABLE IF NOT EXISTS settings_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  changed_by TEXT,               -- email of the admin who saved
+  changed_keys TEXT[] NOT NULL,
+  settings JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_settings_history_changed ON settings_history(changed_at DESC);
 
 -- Create storage bucket (run in Supabase Dashboard > Storage)
 -- Bucket name: timetables
@@ -42,6 +140,11 @@ CREATE INDEX IF NOT EXISTS idx_room_day ON room_schedules(room, day);
 -- Enable RLS
 ALTER TABLE pdf_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE room_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settings_history ENABLE ROW LEVEL SECURITY;
 
 -- Policy: Allow authenticated users to read pdf_versions
 CREATE POLICY "Allow authenticated read pdf_versions" ON pdf_versions
@@ -55,6 +158,10 @@ CREATE POLICY "Allow authenticated insert pdf_versions" ON pdf_versions
 CREATE POLICY "Allow authenticated update pdf_versions" ON pdf_versions
   FOR UPDATE TO authenticated USING (true);
 
+-- Policy: Allow authenticated users to delete pdf_versions
+CREATE POLICY "Allow authenticated delete pdf_versions" ON pdf_versions
+  FOR DELETE TO authenticated USING (true);
+
 -- Policy: Allow anonymous users to read active pdf_versions (for student frontend)
 CREATE POLICY "Allow anon read active pdf_versions" ON pdf_versions
   FOR SELECT TO anon USING (is_active = true);
@@ -63,6 +170,50 @@ CREATE POLICY "Allow anon read active pdf_versions" ON pdf_versions
 CREATE POLICY "Allow all read room_schedules" ON room_schedules
   FOR SELECT USING (true);
 
+-- Policy: Allow authenticated users (admins) to write room_schedules
+CREATE POLICY "Allow authenticated write room_schedules" ON room_schedules
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Policy: Allow anyone to read schedule_breaks
+CREATE POLICY "Allow all read schedule_breaks" ON schedule_breaks
+  FOR SELECT USING (true);
+
+-- Policy: Allow authenticated users (admins) to write schedule_breaks
+CREATE POLICY "Allow authenticated write schedule_breaks" ON schedule_breaks
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Policy: Allow anyone to read rooms
+CREATE POLICY "Allow all read rooms" ON rooms
+  FOR SELECT USING (true);
+
+-- Policy: Allow authenticated users (admins) to manage rooms
+CREATE POLICY "Allow authenticated write rooms" ON rooms
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Policy: Allow anyone to read batches
+CREATE POLICY "Allow all read batches" ON batches
+  FOR SELECT USING (true);
+
+-- Policy: Allow authenticated users (admins) to manage batches
+CREATE POLICY "Allow authenticated write batches" ON batches
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Policy: Allow authenticated users (admins) to read and add schedule_snapshots.
+-- There is no update or delete policy: snapshots are never changed.
+CREATE POLICY "Allow authenticated read schedule_snapshots" ON schedule_snapshots
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated insert schedule_snapshots" ON schedule_snapshots
+  FOR INSERT TO authenticated WITH CHECK (true);
+
+-- Policy: Anyone can read settings (the room search uses them); admins add rows.
+-- Like snapshots, history rows are never changed.
+CREATE POLICY "Allow all read settings_history" ON settings_history
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated insert settings_history" ON settings_history
+  FOR INSERT TO authenticated WITH CHECK (true);
+
 -- Storage policies (run in Supabase Dashboard > Storage > Policies)
 -- Or use SQL:
 
@@ -80,3 +231,51 @@ CREATE POLICY "Allow all read room_schedules" ON room_schedules
 -- ALTER TABLE pdf_versions ADD COLUMN semester INTEGER NOT NULL DEFAULT 1;
 -- ALTER TABLE pdf_versions ADD CONSTRAINT semester_check CHECK (semester IN (1, 2));
 -- CREATE INDEX IF NOT EXISTS idx_pdf_semester ON pdf_versions(semester);
+
+-- =====================================================
+-- MIGRATION: If you created room_schedules with the old JSONB 'occupied'
+-- column, the live schedule used to be data/schedules.json in the timetables
+-- bucket. Recreate the table, then re-run "Parse PDFs" in the admin panel:
+-- =====================================================
+-- DROP TABLE IF EXISTS room_schedules;
+-- (then run the room_schedules and schedule_breaks statements above)
+
+-- =====================================================
+-- MIGRATION: Versions are chosen explicitly instead of "latest file wins".
+-- Files already in storage are recorded in pdf_versions the first time the
+-- admin PDF list loads.
+-- =====================================================
+-- ALTER TABLE pdf_versions ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN DEFAULT false;
+-- ALTER TABLE pdf_versions ADD COLUMN IF NOT EXISTS parser TEXT;
+-- CREATE UNIQUE INDEX IF NOT EXISTS idx_pdf_one_active ON pdf_versions(semester) WHERE is_active = true;
+
+-- =====================================================
+-- MIGRATION: Rooms come from the rooms table instead of a list in the code.
+-- Run the rooms CREATE TABLE, INSERT and policy statements above; the INSERT
+-- registers the ten rooms the finder used to search.
+-- =====================================================
+
+-- =====================================================
+-- MIGRATION: Batches come from the batches table instead of a list in the
+-- code. Run the batches CREATE TABLE, INSERT and policy statements above; the
+-- INSERTs register the six batches and their sub-batches.
+-- =====================================================
+
+-- =====================================================
+-- MIGRATION: Versions apply over effective date ranges, so a semester can
+-- have several active versions (this week's and next week's). Existing
+-- versions get no dates and keep applying to every date.
+-- =====================================================
+-- ALTER TABLE pdf_versions ADD COLUMN IF NOT EXISTS effective_from DATE;
+-- ALTER TABLE pdf_versions ADD COLUMN IF NOT EXISTS effective_to DATE;
+-- DROP INDEX IF EXISTS idx_pdf_one_active;
+
+-- =====================================================
+-- MIGRATION: Settings come from settings_history instead of
+-- src/data/config.json. Run the settings_history statements above, then carry
+-- over the old active week (other settings keep their defaults):
+-- =====================================================
+-- INSERT INTO settings_history (changed_keys, settings) VALUES (
+--   ARRAY['weekStartDate', 'weekEndDate'],
+--   '{"weekStartDate": "2026-02-02", "weekEndDate": "2026-02-06"}'
+-- );
@@ -0,0 +1,353 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Users, ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import type { Batch } from '@/types';
+
+// The editor keeps numbers as typed; the server validates them
+interface BatchForm {
+    name: string;
+    color: string;
+    semester: string;
+    year: string;
+    program: string;
+    parent: string;
+}
+
+const EMPTY_FORM: BatchForm = { name: '', color: '#6366f1', semester: '', year: '', program: '', parent: '' };
+
+function toForm(batch: Batch): BatchForm {
+    return {
+        name: batch.name,
+        color: batch.color,
+        semester: batch.semester?.toString() ?? '',
+        year: batch.year?.toString() ?? '',
+        program: batch.program ?? '',
+        parent: batch.parent ?? ''
+    };
+}
+
+export default function BatchesPage() {
+    const [batches, setBatches] = useState<Batch[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [form, setForm] = useState<BatchForm | null>(null);
+    const [editing, setEditing] = useState<string | null>(null);   // name of the batch in the form, null when adding
+    const [saving, setSaving] = useState(false);
+    const [deleting, setDeleting] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchBatches = useCallback(() => {
+        return fetch('/api/batches')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setBatches(data.batches);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load batches' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch batches:', error);
+                setMessage({ type: 'error', text: 'Failed to load batches' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    useEffect(() => {
+        fetchBatches();
+    }, [fetchBatches]);
+
+    // Top-level batches, each followed by its sub-batches
+    const topLevel = batches.filter(batch => !batch.parent);
+    const ordered = topLevel.flatMap(batch => [batch, ...batches.filter(sub => sub.parent === batch.name)]);
+
+    const startAdd = (parent = '') => {
+        setEditing(null);
+        setForm({ ...EMPTY_FORM, parent, color: batches.find(batch => batch.name === parent)?.color ?? EMPTY_FORM.color });
+    };
+
+    const startEdit = (batch: Batch) => {
+        setEditing(batch.name);
+        setForm(toForm(batch));
+    };
+
+    const updateForm = (changes: Partial<BatchForm>) => {
+        setForm(current => current && { ...current, ...changes });
+    };
+
+    const saveBatch = async () => {
+        if (!form) return;
+
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(editing ? `/api/batches/${encodeURIComponent(editing)}` : '/api/batches', {
+                method: editing ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(form),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setForm(null);
+                setEditing(null);
+                await fetchBatches();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save batch' });
+            }
+        } catch (error) {
+            console.error('Failed to save batch:', error);
+            setMessage({ type: 'error', text: 'Failed to save batch' });
+        }
+        setSaving(false);
+    };
+
+    const deleteBatch = async (batch: Batch) => {
+        const subBatches = batches.filter(sub => sub.parent === batch.name);
+        const warning = subBatches.length > 0
+            ? ` Its sub-batches (${subBatches.map(sub => sub.name).join(', ')}) become batches of their own.`
+            : '';
+        if (!confirm(`Remove ${batch.name} from the registry?${warning}`)) {
+            return;
+        }
+
+        setDeleting(batch.name);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/batches/${encodeURIComponent(batch.name)}`, { method: 'DELETE' });
+            const data = await res.json();
+
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                await fetchBatches();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to remove batch' });
+            }
+        } catch (error) {
+            console.error('Failed to remove batch:', error);
+            setMessage({ type: 'error', text: 'Failed to remove batch' });
+        }
+        setDeleting(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link href="/admin">
+                        <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            Back to Dashboard
+                        </Button>
+                    </Link>
+                    <div>
+                        <h1 className="text-2xl font-bold text-white mb-1">Batches</h1>
+                        <p className="text-slate-400">The batches timetables are written for, and the colors grids show them in</p>
+                    </div>
+                </div>
+                <Button onClick={() => startAdd()} className="bg-indigo-600 hover:bg-indigo-700">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Batch
+                </Button>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {form && (
+                <Card className="bg-slate-900/50 border-indigo-500/30">
+                    <CardHeader>
+                        <CardTitle className="text-white">
+                            {editing ? `Edit ${editing}` : form.parent ? `New Sub-batch of ${form.parent}` : 'New Batch'}
+                        </CardTitle>
+                        <CardDescription className="text-slate-400">
+                            The name must match the timetables exactly, e.g. Turing or Enigma.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label className="text-white">Name</Label>
+                                <Input
+                                    value={form.name}
+                                    onChange={e => updateForm({ name: e.target.value })}
+                                    disabled={editing !== null}
+                                    placeholder="Turing"
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Color</Label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="color"
+                                        value={form.color}
+                                        onChange={e => updateForm({ color: e.target.value })}
+                                        className="h-9 w-12 rounded border border-white/10 bg-transparent"
+                                    />
+                                    <Input
+                                        value={form.color}
+                                        onChange={e => updateForm({ color: e.target.value })}
+                                        className="bg-white/5 border-white/10 text-white font-mono"
+                                    />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Parent batch</Label>
+                                <select
+                                    value={form.parent}
+                                    onChange={e => updateForm({ parent: e.target.value })}
+                                    className="w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white"
+                                >
+                                    <option value="">None (top-level batch)</option>
+                                    {topLevel.filter(batch => batch.name !== editing).map(batch => (
+                                        <option key={batch.name} value={batch.name}>{batch.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Semester</Label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={form.semester}
+                                    onChange={e => updateForm({ semester: e.target.value })}
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Year</Label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={form.year}
+                                    onChange={e => updateForm({ year: e.target.value })}
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Program</Label>
+                                <Input
+                                    value={form.program}
+                                    onChange={e => updateForm({ program: e.target.value })}
+                                    placeholder="B.Tech CSE"
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => setForm(null)}
+                                disabled={saving}
+                                className="border-white/20 text-slate-300 hover:bg-white/10"
+                            >
+                                Cancel
+                            </Button>
+                            <Button
+                                onClick={saveBatch}
+                                disabled={saving || !form.name.trim()}
+                                className="bg-green-600 hover:bg-green-700"
+                            >
+                                {saving ? 'Saving...' : 'Save Batch'}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card className="bg-slate-900/50 border-white/10">
+                <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                        <Users className="h-5 w-5 text-indigo-400" />
+                        Registry
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                        Batch names a timetable uses that are missing here are flagged when it is parsed or imported.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="text-center py-8 text-slate-400">Loading...</div>
+                    ) : batches.length === 0 ? (
+                        <p className="text-slate-400">No batches registered. Until one is, no batch names are flagged.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                                        <th className="p-2 text-left">Batch</th>
+                                        <th className="p-2 text-left">Semester</th>
+                                        <th className="p-2 text-left">Year</th>
+                                        <th className="p-2 text-left">Program</th>
+                                        <th className="p-2" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ordered.map(batch => (
+                                        <tr key={batch.name} className="border-t border-white/5">
+                                            <td className={`p-2 text-white whitespace-nowrap ${batch.parent ? 'pl-8' : ''}`}>
+                                                <span className="inline-block w-3 h-3 rounded mr-2 align-middle" style={{ backgroundColor: batch.color }} />
+                                                {batch.parent && <span className="text-slate-500">↳ </span>}
+                                                {batch.name}
+                                            </td>
+                                            <td className="p-2 text-slate-300">{batch.semester ?? '—'}</td>
+                                            <td className="p-2 text-slate-300">{batch.year ?? '—'}</td>
+                                            <td className="p-2 text-slate-300">{batch.program ?? '—'}</td>
+                                            <td className="p-2">
+                                                <div className="flex justify-end gap-1">
+                                                    {!batch.parent && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            onClick={() => startAdd(batch.name)}
+                                                            className="text-slate-300 hover:text-white hover:bg-white/10"
+                                                        >
+                                                            <Plus className="h-4 w-4 mr-1" />
+                                                            Sub-batch
+                                                        </Button>
+                                                    )}
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => startEdit(batch)}
+                                                        className="text-slate-300 hover:text-white hover:bg-white/10"
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => deleteBatch(batch)}
+                                                        disabled={deleting === batch.name}
+                                                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarRange, ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import type { CalendarDay, CalendarEventKind } from '@/lib/academic-calendar';
+
+// The editor keeps numbers as typed; the server validates them
+interface TermRow {
+    name: string;
+    semester: string;
+    start: string;
+    end: string;
+    teachingWeeks: string;
+}
+
+interface EventRow {
+    kind: CalendarEventKind;
+    name: string;
+    start: string;
+    end: string;
+    semester: string;
+}
+
+const EVENT_KINDS: { value: CalendarEventKind; label: string }[] = [
+    { value: 'holiday', label: 'Holiday' },
+    { value: 'exam', label: 'Exams' },
+    { value: 'closure', label: 'Closure' },
+];
+
+const TODAY_LABELS: Record<CalendarDay['status'], string> = {
+    teaching: 'classes run',
+    holiday: 'holiday',
+    exam: 'exams',
+    closure: 'campus closed',
+    break: 'no classes',
+};
+
+function describeToday(today: CalendarDay): string {
+    const week = today.week !== undefined ? `, week ${today.week}` : '';
+    return `Today: ${TODAY_LABELS[today.status]}${today.label ? ` (${today.label}${week})` : ''}.`;
+}
+
+export default function CalendarPage() {
+    const [terms, setTerms] = useState<TermRow[]>([]);
+    const [events, setEvents] = useState<EventRow[]>([]);
+    const [today, setToday] = useState<CalendarDay | null>(null);
+    const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetch('/api/calendar')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setTerms(data.terms.map((term: { name: string; semester: number; start: string; end: string; teachingWeeks: number | null }) => ({
+                        ...term,
+                        semester: term.semester.toString(),
+                        teachingWeeks: term.teachingWeeks?.toString() ?? ''
+                    })));
+                    setEvents(data.events.map((event: { kind: CalendarEventKind; name: string; start: string; end: string; semester: number | null }) => ({
+                        ...event,
+                        semester: event.semester?.toString() ?? ''
+                    })));
+                    setToday(data.today);
+                    setUpdatedAt(data.updatedAt || null);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load the calendar' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch calendar:', error);
+                setMessage({ type: 'error', text: 'Failed to load the calendar' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const updateTerm = (index: number, field: keyof TermRow, value: string) => {
+        setTerms(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+    };
+
+    // Closures are for everyone, so switching to one clears the semester
+    const updateEvent = (index: number, field: keyof EventRow, value: string) => {
+        setEvents(rows => rows.map((row, i) => i !== index ? row : {
+            ...row,
+            [field]: value,
+            ...(field === 'kind' && value === 'closure' ? { semester: '' } : {})
+        }));
+    };
+
+    const saveCalendar = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/calendar', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ terms, events }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setToday(data.today);
+                setUpdatedAt(data.updatedAt || null);
+                setMessage({ type: 'success', text: data.message });
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save the calendar' });
+            }
+        } catch (error) {
+            console.error('Failed to save calendar:', error);
+            setMessage({ type: 'error', text: 'Failed to save the calendar' });
+        }
+        setSaving(false);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex items-center gap-4">
+                <Link href="/admin">
+                    <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-white mb-1">Academic Calendar</h1>
+                    <p className="text-slate-400">Terms, holidays, exam periods and closures</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {loading ? (
+                <div className="text-center py-8 text-slate-400">Loading...</div>
+            ) : (
+                <>
+                    <Card className="bg-slate-900/50 border-white/10">
+                        <CardHeader>
+                            <CardTitle className="text-white flex items-center gap-2">
+                                <CalendarRange className="h-5 w-5 text-indigo-400" />
+                                Terms
+                            </CardTitle>
+                            <CardDescription className="text-slate-400">
+                                A semester&apos;s timetable only blocks rooms during its term&apos;s teaching weeks.
+                                With no terms, the timetable runs every week.
+                                {today && ` ${describeToday(today)}`}
+                                {updatedAt && ` Last saved ${new Date(updatedAt).toLocaleString()}.`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-[2fr_1fr_1fr_1fr_1fr_auto] gap-2 text-xs text-slate-400 uppercase tracking-wider">
+                                <span>Term</span>
+                                <span>Semester</span>
+                                <span>Starts</span>
+                                <span>Ends</span>
+                                <span>Teaching weeks</span>
+                                <span className="w-9" />
+                            </div>
+                            {terms.map((term, index) => (
+                                <div key={index} className="grid grid-cols-[2fr_1fr_1fr_1fr_1fr_auto] gap-2">
+                                    <Input
+                                        value={term.name}
+                                        onChange={e => updateTerm(index, 'name', e.target.value)}
+                                        placeholder="Spring 2026"
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={term.semester}
+                                        onChange={e => updateTerm(index, 'semester', e.target.value)}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="date"
+                                        value={term.start}
+                                        onChange={e => updateTerm(index, 'start', e.target.value)}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="date"
+                                        value={term.end}
+                                        onChange={e => updateTerm(index, 'end', e.target.value)}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={term.teachingWeeks}
+                                        onChange={e => updateTerm(index, 'teachingWeeks', e.target.value)}
+                                        placeholder="Whole term"
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setTerms(rows => rows.filter((_, i) => i !== index))}
+                                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <Button
+                                variant="outline"
+                                onClick={() => setTerms(rows => [...rows, { name: '', semester: '1', start: '', end: '', teachingWeeks: '' }])}
+                                className="border-white/20 text-slate-300 hover:bg-white/10"
+                            >
+                                <Plus className="h-4 w-4 mr-2" />
+                                Add Term
+                            </Button>
+                        </CardContent>
+                    </Card>
+
+                    <Card className="bg-slate-900/50 border-white/10">
+                        <CardHeader>
+                            <CardTitle className="text-white">Holidays, Exams and Closures</CardTitle>
+                            <CardDescription className="text-slate-400">
+                                Holidays and exams stop classes, for one semester or for everyone. A closure shuts every room.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-[1fr_2fr_1fr_1fr_1fr_auto] gap-2 text-xs text-slate-400 uppercase tracking-wider">
+                                <span>Kind</span>
+                                <span>Name</span>
+                                <span>From</span>
+                                <span>To</span>
+                                <span>Semester</span>
+                                <span className="w-9" />
+                            </div>
+                            {events.map((event, index) => (
+                                <div key={index} className="grid grid-cols-[1fr_2fr_1fr_1fr_1fr_auto] gap-2">
+                                    <select
+                                        value={event.kind}
+                                        onChange={e => updateEvent(index, 'kind', e.target.value)}
+                                        className="w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white"
+                                    >
+                                        {EVENT_KINDS.map(kind => (
+                                            <option key={kind.value} value={kind.value}>{kind.label}</option>
+                                        ))}
+                                    </select>
+                                    <Input
+                                        value={event.name}
+                                        onChange={e => updateEvent(index, 'name', e.target.value)}
+                                        placeholder="Independence Day"
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="date"
+                                        value={event.start}
+                                        onChange={e => updateEvent(index, 'start', e.target.value)}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="date"
+                                        value={event.end}
+                                        onChange={e => updateEvent(index, 'end', e.target.value)}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={event.semester}
+                                        onChange={e => updateEvent(index, 'semester', e.target.value)}
+                                        disabled={event.kind === 'closure'}
+                                        placeholder="All"
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setEvents(rows => rows.filter((_, i) => i !== index))}
+                                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <div className="flex justify-between">
+                                <Button
+                                    variant="outline"
+                                    onClick={() => setEvents(rows => [...rows, { kind: 'holiday', name: '', start: '', end: '', semester: '' }])}
+                                    className="border-white/20 text-slate-300 hover:bg-white/10"
+                                >
+                                    <Plus className="h-4 w-4 mr-2" />
+                                    Add Date
+                                </Button>
+                                <Button
+                                    onClick={saveCalendar}
+                                    disabled={saving}
+                                    className="bg-green-600 hover:bg-green-700"
+                                >
+                                    {saving ? 'Saving...' : 'Save Calendar'}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
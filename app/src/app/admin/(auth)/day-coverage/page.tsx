@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarDays, ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { ALL_DAYS, DAY_NAMES } from '@/lib/days';
+import type { DayStatus, TermDayCoverage } from '@/lib/day-coverage';
+import type { DayOfWeek } from '@/types';
+
+const STATUS_OPTIONS: { value: DayStatus; label: string }[] = [
+    { value: 'teaching', label: 'Teaching' },
+    { value: 'contest', label: 'Contest' },
+    { value: 'closed', label: 'Closed' },
+];
+
+const STATUS_STYLES: Record<DayStatus, string> = {
+    teaching: 'border-green-500/40 text-green-300',
+    contest: 'border-amber-500/40 text-amber-300',
+    closed: 'border-white/20 text-slate-500',
+};
+
+export default function DayCoveragePage() {
+    const [terms, setTerms] = useState<TermDayCoverage[]>([]);
+    const [openDays, setOpenDays] = useState<DayOfWeek[]>([]);
+    const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetch('/api/day-coverage')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setTerms(data.terms);
+                    setOpenDays(data.openDays);
+                    setUpdatedAt(data.updatedAt || null);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load day coverage' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch day coverage:', error);
+                setMessage({ type: 'error', text: 'Failed to load day coverage' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const updateDay = (semester: number, day: DayOfWeek, status: DayStatus) => {
+        setTerms(current => current.map(term =>
+            term.semester === semester ? { ...term, days: { ...term.days, [day]: status } } : term
+        ));
+    };
+
+    const saveCoverage = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/day-coverage', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ terms }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setOpenDays(data.openDays);
+                setUpdatedAt(data.updatedAt || null);
+                setMessage({ type: 'success', text: `${data.message}. Re-parse the PDFs to pick up newly opened days.` });
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save day coverage' });
+            }
+        } catch (error) {
+            console.error('Failed to save day coverage:', error);
+            setMessage({ type: 'error', text: 'Failed to save day coverage' });
+        }
+        setSaving(false);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex items-center gap-4">
+                <Link href="/admin">
+                    <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-white mb-1">Day Coverage</h1>
+                    <p className="text-slate-400">Teaching, contest and closed days for each term</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            <Card className="bg-slate-900/50 border-white/10">
+                <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                        <CalendarDays className="h-5 w-5 text-indigo-400" />
+                        Days per Term
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                        Classes on a closed day are dropped when parsing. Contest days are searchable but flagged to students.
+                        {openDays.length > 0 && ` Students can pick ${openDays.join(', ')}.`}
+                        {updatedAt && ` Last saved ${new Date(updatedAt).toLocaleString()}.`}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {loading ? (
+                        <div className="text-center py-8 text-slate-400">Loading...</div>
+                    ) : (
+                        <>
+                            <div className="overflow-x-auto">
+                                <table className="w-full">
+                                    <thead>
+                                        <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                                            <th className="p-2 text-left">Term</th>
+                                            {ALL_DAYS.map(day => (
+                                                <th key={day} className="p-2 text-left" title={DAY_NAMES[day]}>{day}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {terms.map(term => (
+                                            <tr key={term.semester} className="border-t border-white/5">
+                                                <td className="p-2 text-white whitespace-nowrap">Semester {term.semester}</td>
+                                                {ALL_DAYS.map(day => (
+                                                    <td key={day} className="p-2">
+                                                        <select
+                                                            value={term.days[day]}
+                                                            onChange={e => updateDay(term.semester, day, e.target.value as DayStatus)}
+                                                            className={`w-full bg-slate-800 border rounded-lg p-2 text-sm ${STATUS_STYLES[term.days[day]]}`}
+                                                        >
+                                                            {STATUS_OPTIONS.map(option => (
+                                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                                            ))}
+                                                        </select>
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="flex justify-end">
+                                <Button
+                                    onClick={saveCoverage}
+                                    disabled={saving}
+                                    className="bg-green-600 hover:bg-green-700"
+                                >
+                                    {saving ? 'Saving...' : 'Save Day Coverage'}
+                                </Button>
+                            </div>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
+import { isAdminOpen } from '@/lib/storage/config';
 import type { Metadata } from 'next';
 import AdminNav from '@/components/admin/AdminNav';
 
@@ -13,16 +14,21 @@ export default async function AdminLayout({
 }: {
     children: React.ReactNode;
 }) {
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
+    let email: string | null = null;
 
-    if (!user) {
-        redirect('/admin/login');
+    if (!isAdminOpen()) {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            redirect('/admin/login');
+        }
+        email = user.email ?? null;
     }
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
-            <AdminNav user={user} />
+            <AdminNav email={email} />
             <main className="container mx-auto px-4 py-8">
                 {children}
             </main>
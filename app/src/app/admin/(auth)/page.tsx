@@ -10,10 +10,18 @@ import { Label } from '@/components/ui/label';
 import { FileText } from 'lucide-react';
 import PDFUploader from '@/components/admin/PDFUploader';
 import ScheduleGrid from '@/components/admin/ScheduleGrid';
+import ParseDiagnosticsPanel from '@/components/admin/ParseDiagnosticsPanel';
+import ScheduleDiffPreview from '@/components/admin/ScheduleDiffPreview';
+import ParseJobProgress from '@/components/admin/ParseJobProgress';
+import VersionParseBadge from '@/components/admin/VersionParseBadge';
 import type { PDFVersion } from '@/types';
+import type { ScheduleDiff } from '@/lib/schedule-diff';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+import type { ParseJob } from '@/lib/parse-jobs';
 
 
 const SEMESTERS = [1, 2] as const;
+const JOB_POLL_INTERVAL_MS = 1500;
 
 export default function AdminDashboard() {
     const [pdfs, setPdfs] = useState<PDFVersion[]>([]);
@@ -23,8 +31,13 @@ export default function AdminDashboard() {
     const [activeWeekEndDate, setActiveWeekEndDate] = useState('');
     const [activeWeekDisplay, setActiveWeekDisplay] = useState('');
     const [weekLoading, setWeekLoading] = useState(false);
-    const [parsing, setParsing] = useState(false);
+    const [starting, setStarting] = useState(false);
+    const [parseJob, setParseJob] = useState<ParseJob | null>(null);
     const [parseMessage, setParseMessage] = useState('');
+    const [preview, setPreview] = useState<{ diff: ScheduleDiff; schedules: ParsedScheduleEntry[]; breaks: ParsedBreak[] } | null>(null);
+    const [committing, setCommitting] = useState(false);
+    // Bumped after a save, so the schedule panels below load the new schedule
+    const [scheduleRevision, setScheduleRevision] = useState(0);
 
     const fetchPdfs = useCallback(async () => {
         setLoading(true);
@@ -58,23 +71,77 @@ export default function AdminDashboard() {
     // We no longer update week from this simple input, redirect to management page instead
     // But keeping the display for info
 
-    const parsePdfs = async () => {
-        setParsing(true);
+    const jobActive = parseJob?.status === 'queued' || parseJob?.status === 'running';
+    const parsing = starting || jobActive;
+
+    // A job finished while this page was watching it
+    const finishJob = useCallback((job: ParseJob) => {
+        if (job.status === 'failed') {
+            setParseMessage(`✗ ${job.error || 'Failed to parse PDFs'}`);
+        } else if (job.dryRun && job.result?.diff) {
+            setPreview({ diff: job.result.diff, schedules: job.result.schedules || [], breaks: job.result.breaks || [] });
+        } else if (job.result) {
+            setParseMessage(`✓ ${job.result.message}`);
+            setScheduleRevision(revision => revision + 1);
+            fetchPdfs();
+        }
+    }, [fetchPdfs]);
+
+    // Start a parse job (or re-run one) and watch it
+    const startJob = async (url: string) => {
+        setStarting(true);
         setParseMessage('');
+        setPreview(null);
         try {
-            const res = await fetch('/api/parse', { method: 'POST' });
+            const res = await fetch(url, { method: 'POST' });
             const data = await res.json();
             if (data.success) {
-                setParseMessage(`✓ ${data.message}`);
-                // Trigger ScheduleGrid refresh by forcing re-render
-                window.location.reload();
+                setParseJob(data.job);
             } else {
                 setParseMessage(`✗ ${data.error || 'Failed to parse PDFs'}`);
             }
-        } catch (error) {
+        } catch {
             setParseMessage('✗ Failed to parse PDFs');
         }
-        setParsing(false);
+        setStarting(false);
+    };
+
+    const parsePdfs = () => startJob('/api/parse');
+
+    // Parse without saving and show what would change
+    const previewParse = () => startJob('/api/parse?dryRun=true');
+
+    const rerunJob = () => parseJob && startJob(`/api/parse/jobs/${parseJob.id}/rerun`);
+
+    // Save the previewed schedules as the live schedule
+    const commitPreview = async () => {
+        if (!preview) return;
+        setCommitting(true);
+        try {
+            const res = await fetch('/api/schedules', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    schedules: preview.schedules,
+                    breaks: preview.breaks,
+                    merge: false,
+                    source: 'parse',
+                    note: 'Committed parse preview'
+                }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setPreview(null);
+                setParseMessage(`✓ ${data.message || 'Schedule saved'}`);
+                setScheduleRevision(revision => revision + 1);
+                fetchPdfs();
+            } else {
+                setParseMessage(`✗ ${data.error || 'Failed to save schedule'}`);
+            }
+        } catch {
+            setParseMessage('✗ Failed to save schedule');
+        }
+        setCommitting(false);
     };
 
     useEffect(() => {
@@ -82,6 +149,44 @@ export default function AdminDashboard() {
         fetchConfig();
     }, [fetchPdfs, fetchConfig]);
 
+    // Pick up the latest job, so a parse started before the page was closed is still followed
+    useEffect(() => {
+        fetch('/api/parse/jobs')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success && data.job) setParseJob(data.job);
+            })
+            .catch(error => console.error('Failed to fetch parse job:', error));
+    }, []);
+
+    // Poll the running job until it finishes
+    useEffect(() => {
+        if (!parseJob || !jobActive) return;
+
+        const timer = setTimeout(() => {
+            fetch(`/api/parse/jobs/${parseJob.id}`)
+                .then(res => res.json())
+                .then(data => {
+                    if (!data.success) {
+                        setParseMessage(`✗ ${data.error || 'Lost track of the parse job'}`);
+                        setParseJob(null);
+                        return;
+                    }
+                    setParseJob(data.job);
+                    if (data.job.status === 'succeeded' || data.job.status === 'failed') {
+                        finishJob(data.job);
+                    }
+                })
+                .catch(error => {
+                    console.error('Failed to poll parse job:', error);
+                    // Network hiccup: try again on the next tick
+                    setParseJob(job => job && { ...job });
+                });
+        }, JOB_POLL_INTERVAL_MS);
+
+        return () => clearTimeout(timer);
+    }, [parseJob, jobActive, finishJob]);
+
     const activePdfs = pdfs.filter(p => p.is_active);
     const sem1Pdf = activePdfs.find(p => p.semester === 1);
     const sem2Pdf = activePdfs.find(p => p.semester === 2);
@@ -252,6 +357,14 @@ export default function AdminDashboard() {
                         </>
                     )}
                 </Button>
+                <Button
+                    variant="outline"
+                    onClick={previewParse}
+                    disabled={parsing || !activePdfs.length}
+                    className="border-indigo-500/50 text-indigo-300 hover:bg-indigo-500/20"
+                >
+                    Preview Changes First
+                </Button>
                 {parseMessage && (
                     <p className={`text-sm ${parseMessage.startsWith('✓') ? 'text-green-400' : 'text-red-400'}`}>
                         {parseMessage}
@@ -260,12 +373,28 @@ export default function AdminDashboard() {
                 {!activePdfs.length && (
                     <p className="text-sm text-slate-500">Upload PDFs first to enable parsing</p>
                 )}
+                {parseJob && (
+                    <ParseJobProgress job={parseJob} rerunning={starting} onRerun={rerunJob} />
+                )}
             </div>
 
+            {/* Dry-run Preview */}
+            {preview && (
+                <ScheduleDiffPreview
+                    diff={preview.diff}
+                    committing={committing}
+                    onCommit={commitPreview}
+                    onDiscard={() => setPreview(null)}
+                />
+            )}
+
+            {/* Parse Diagnostics */}
+            <ParseDiagnosticsPanel key={scheduleRevision} />
+
             {/* Parsed Schedule Grid */}
             <div className="mt-8">
                 <h2 className="text-xl font-bold text-white mb-4">Parsed Schedule Data</h2>
-                <ScheduleGrid />
+                <ScheduleGrid key={scheduleRevision} />
             </div>
 
             {/* Recent Uploads */}
@@ -295,6 +424,7 @@ export default function AdminDashboard() {
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-2">
+                                        <VersionParseBadge parse={pdf.parse} />
                                         <Badge variant="outline" className="border-white/20 text-slate-300">
                                             Sem {pdf.semester}
                                         </Badge>
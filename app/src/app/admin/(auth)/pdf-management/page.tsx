@@ -10,7 +10,12 @@ import { Calendar, WeekPicker } from '@/components/ui/calendar';
 import { format, addDays } from 'date-fns';
 import { Trash2, Upload, FileText, Calendar as CalendarIcon, Plus, X, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import { isTimetableFile, TIMETABLE_EXTENSIONS } from '@/lib/timetable-files';
+import VersionParseBadge from '@/components/admin/VersionParseBadge';
+import VersionActions from '@/components/admin/VersionActions';
+import VersionDates from '@/components/admin/VersionDates';
 import type { PDFVersion } from '@/types';
+import type { VersionAction } from '@/lib/pdf-versions';
 
 interface WeekConfig {
     id: string;
@@ -25,6 +30,7 @@ export default function PDFManagementPage() {
     const [pdfs, setPdfs] = useState<PDFVersion[]>([]);
     const [loading, setLoading] = useState(true);
     const [deleting, setDeleting] = useState<string | null>(null);
+    const [updating, setUpdating] = useState<string | null>(null);
     const [activeWeekStartDate, setActiveWeekStartDate] = useState('');
     const [activeWeekEndDate, setActiveWeekEndDate] = useState('');
     const [activeWeekDisplay, setActiveWeekDisplay] = useState('');
@@ -38,6 +44,8 @@ export default function PDFManagementPage() {
     // Upload state
     const [uploading, setUploading] = useState(false);
     const [uploadSemester, setUploadSemester] = useState<number>(1);
+    const [uploadFrom, setUploadFrom] = useState('');
+    const [uploadTo, setUploadTo] = useState('');
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [showUploadModal, setShowUploadModal] = useState(false);
 
@@ -139,6 +147,55 @@ export default function PDFManagementPage() {
         setWeekEndDate(friday);
     };
 
+    // Activate, deactivate, pin or unpin a version; the live schedule follows on the server
+    const updateVersion = async (pdf: PDFVersion, action: VersionAction) => {
+        setUpdating(pdf.id);
+        try {
+            const response = await fetch('/api/pdfs', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: pdf.id, action }),
+            });
+
+            const data = await response.json();
+            if (data.success) {
+                await fetchPdfs();
+            } else {
+                alert(data.error || `Failed to ${action} PDF`);
+            }
+        } catch (error) {
+            console.error('Version update error:', error);
+            alert(`Failed to ${action} PDF`);
+        }
+        setUpdating(null);
+    };
+
+    // Change the dates a version applies over; resolves whether the save worked
+    const updateVersionDates = async (pdf: PDFVersion, effectiveFrom: string, effectiveTo: string) => {
+        setUpdating(pdf.id);
+        let saved = false;
+        try {
+            const response = await fetch('/api/pdfs', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: pdf.id, effectiveFrom, effectiveTo }),
+            });
+
+            const data = await response.json();
+            if (data.success) {
+                await fetchPdfs();
+                saved = true;
+            } else {
+                alert(data.error || 'Failed to save the effective dates');
+            }
+        } catch (error) {
+            console.error('Version dates error:', error);
+            alert('Failed to save the effective dates');
+        }
+        setUpdating(null);
+        return saved;
+    };
+
     const deletePdf = async (pdf: PDFVersion) => {
         if (!confirm(`Are you sure you want to delete "${pdf.name}"?`)) {
             return;
@@ -165,10 +222,10 @@ export default function PDFManagementPage() {
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file && file.type === 'application/pdf') {
+        if (file && isTimetableFile(file.name)) {
             setSelectedFile(file);
         } else if (file) {
-            alert('Please select a PDF file');
+            alert('Please select a PDF, CSV, XLSX or JSON file');
         }
     };
 
@@ -180,18 +237,24 @@ export default function PDFManagementPage() {
             const formData = new FormData();
             formData.append('file', selectedFile);
             formData.append('semester', uploadSemester.toString());
+            formData.append('effectiveFrom', uploadFrom);
+            formData.append('effectiveTo', uploadTo);
 
             const response = await fetch('/api/upload', {
                 method: 'POST',
                 body: formData,
             });
 
+            const data = await response.json();
             if (response.ok) {
                 setSelectedFile(null);
+                setUploadFrom('');
+                setUploadTo('');
                 setShowUploadModal(false);
                 await fetchPdfs();
+                // The upload is parsed straight away; say so when nothing usable came out
+                if (!data.live) alert(data.message);
             } else {
-                const data = await response.json();
                 alert(data.error || 'Upload failed');
             }
         } catch (error) {
@@ -407,12 +470,15 @@ export default function PDFManagementPage() {
                                                 Uploaded: {new Date(pdf.uploaded_at).toLocaleDateString()} at{' '}
                                                 {new Date(pdf.uploaded_at).toLocaleTimeString()}
                                             </p>
+                                            <VersionDates pdf={pdf} busy={updating === pdf.id} onSave={updateVersionDates} />
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-3">
+                                        <VersionParseBadge parse={pdf.parse} />
                                         {pdf.is_active && (
-                                            <Badge className="bg-green-500">Active</Badge>
+                                            <Badge className="bg-green-500">{pdf.is_pinned ? 'Active · Pinned' : 'Active'}</Badge>
                                         )}
+                                        <VersionActions pdf={pdf} busy={updating === pdf.id} onAction={updateVersion} />
                                         <a
                                             href={pdf.file_path}
                                             target="_blank"
@@ -483,12 +549,15 @@ export default function PDFManagementPage() {
                                                 Uploaded: {new Date(pdf.uploaded_at).toLocaleDateString()} at{' '}
                                                 {new Date(pdf.uploaded_at).toLocaleTimeString()}
                                             </p>
+                                            <VersionDates pdf={pdf} busy={updating === pdf.id} onSave={updateVersionDates} />
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-3">
+                                        <VersionParseBadge parse={pdf.parse} />
                                         {pdf.is_active && (
-                                            <Badge className="bg-green-500">Active</Badge>
+                                            <Badge className="bg-green-500">{pdf.is_pinned ? 'Active · Pinned' : 'Active'}</Badge>
                                         )}
+                                        <VersionActions pdf={pdf} busy={updating === pdf.id} onAction={updateVersion} />
                                         <a
                                             href={pdf.file_path}
                                             target="_blank"
@@ -573,13 +642,36 @@ export default function PDFManagementPage() {
                                     </div>
                                 </div>
 
+                                {/* Effective Dates */}
+                                <div className="space-y-2">
+                                    <Label className="text-white">Effective Dates</Label>
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            type="date"
+                                            value={uploadFrom}
+                                            onChange={e => setUploadFrom(e.target.value)}
+                                            className="bg-white/5 border-white/10 text-white"
+                                        />
+                                        <span className="text-slate-500 text-sm">to</span>
+                                        <Input
+                                            type="date"
+                                            value={uploadTo}
+                                            onChange={e => setUploadTo(e.target.value)}
+                                            className="bg-white/5 border-white/10 text-white"
+                                        />
+                                    </div>
+                                    <p className="text-xs text-slate-500">
+                                        Leave empty to replace the current timetable. Set a start date to upload next week&apos;s ahead of time.
+                                    </p>
+                                </div>
+
                                 {/* File Upload */}
                                 <div className="space-y-2">
-                                    <Label className="text-white">Select PDF File</Label>
+                                    <Label className="text-white">Select Timetable File</Label>
                                     <div className="border-2 border-dashed border-white/20 rounded-xl p-6 text-center hover:border-indigo-500/50 transition-colors">
                                         <input
                                             type="file"
-                                            accept=".pdf"
+                                            accept={TIMETABLE_EXTENSIONS.join(',')}
                                             onChange={handleFileSelect}
                                             className="hidden"
                                             id="pdf-upload"
@@ -601,7 +693,7 @@ export default function PDFManagementPage() {
                                             ) : (
                                                 <>
                                                     <Upload className="h-10 w-10 text-slate-400 mx-auto mb-2" />
-                                                    <p className="text-slate-300">Click to select PDF</p>
+                                                    <p className="text-slate-300">Click to select a PDF, CSV, XLSX or JSON file</p>
                                                     <p className="text-sm text-slate-500">or drag and drop</p>
                                                 </>
                                             )}
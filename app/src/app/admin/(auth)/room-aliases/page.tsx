@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2, Tags, ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+
+interface AliasRow {
+    alias: string;
+    subBatch: string;
+    parentBatch: string;
+}
+
+export default function RoomAliasesPage() {
+    const [aliases, setAliases] = useState<AliasRow[]>([]);
+    const [roomPattern, setRoomPattern] = useState('');
+    const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetch('/api/aliases')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setAliases(data.aliases.map((a: { alias: string; subBatch: string; parentBatch?: string }) => ({
+                        alias: a.alias,
+                        subBatch: a.subBatch,
+                        parentBatch: a.parentBatch || ''
+                    })));
+                    setRoomPattern(data.roomPattern);
+                    setUpdatedAt(data.updatedAt || null);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load aliases' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch aliases:', error);
+                setMessage({ type: 'error', text: 'Failed to load aliases' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const updateRow = (index: number, field: keyof AliasRow, value: string) => {
+        setAliases(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+    };
+
+    const addRow = () => {
+        setAliases(rows => [...rows, { alias: '', subBatch: '', parentBatch: '' }]);
+    };
+
+    const removeRow = (index: number) => {
+        setAliases(rows => rows.filter((_, i) => i !== index));
+    };
+
+    const saveAliases = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/aliases', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    roomPattern,
+                    aliases: aliases
+                        .filter(row => row.alias.trim())
+                        .map(row => ({
+                            alias: row.alias,
+                            subBatch: row.subBatch || row.alias,
+                            parentBatch: row.parentBatch || undefined
+                        }))
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setUpdatedAt(data.updatedAt || null);
+                setMessage({ type: 'success', text: `${data.message}. Re-parse the PDFs to apply them.` });
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save aliases' });
+            }
+        } catch (error) {
+            console.error('Failed to save aliases:', error);
+            setMessage({ type: 'error', text: 'Failed to save aliases' });
+        }
+        setSaving(false);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex items-center gap-4">
+                <Link href="/admin">
+                    <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-white mb-1">Room Aliases</h1>
+                    <p className="text-slate-400">Sub-batch names the PDF extractor reads as room labels</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            <Card className="bg-slate-900/50 border-white/10">
+                <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                        <Tags className="h-5 w-5 text-indigo-400" />
+                        Alias Dictionary
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                        A cell like &quot;Enigma- 504 &amp; Lambda- 503&quot; books room 504 for Enigma and 503 for Lambda.
+                        {updatedAt && ` Last saved ${new Date(updatedAt).toLocaleString()}.`}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {loading ? (
+                        <div className="text-center py-8 text-slate-400">Loading...</div>
+                    ) : (
+                        <>
+                            <div className="space-y-2 max-w-sm">
+                                <Label className="text-white">Room number pattern</Label>
+                                <Input
+                                    value={roomPattern}
+                                    onChange={e => setRoomPattern(e.target.value)}
+                                    placeholder="[45]\d{2}"
+                                    className="bg-white/5 border-white/10 text-white font-mono"
+                                />
+                                <p className="text-xs text-slate-500">Regular expression a room number must match to be counted.</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-slate-400 uppercase tracking-wider">
+                                    <span>Alias in PDF</span>
+                                    <span>Sub-batch</span>
+                                    <span>Parent batch</span>
+                                    <span className="w-9" />
+                                </div>
+                                {aliases.map((row, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                                        <Input
+                                            value={row.alias}
+                                            onChange={e => updateRow(index, 'alias', e.target.value)}
+                                            placeholder="Mock Theta"
+                                            className="bg-white/5 border-white/10 text-white"
+                                        />
+                                        <Input
+                                            value={row.subBatch}
+                                            onChange={e => updateRow(index, 'subBatch', e.target.value)}
+                                            placeholder={row.alias || 'Sub-batch'}
+                                            className="bg-white/5 border-white/10 text-white"
+                                        />
+                                        <Input
+                                            value={row.parentBatch}
+                                            onChange={e => updateRow(index, 'parentBatch', e.target.value)}
+                                            placeholder="Ramanujan"
+                                            className="bg-white/5 border-white/10 text-white"
+                                        />
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => removeRow(index)}
+                                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="flex justify-between">
+                                <Button
+                                    variant="outline"
+                                    onClick={addRow}
+                                    className="border-white/20 text-slate-300 hover:bg-white/10"
+                                >
+                                    <Plus className="h-4 w-4 mr-2" />
+                                    Add Alias
+                                </Button>
+                                <Button
+                                    onClick={saveAliases}
+                                    disabled={saving}
+                                    className="bg-green-600 hover:bg-green-700"
+                                >
+                                    {saving ? 'Saving...' : 'Save Aliases'}
+                                </Button>
+                            </div>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
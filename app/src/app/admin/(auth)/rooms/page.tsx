@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DoorOpen, ArrowLeft, Plus, Pencil, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { AMENITY_LABELS, ROOM_AMENITIES, ROOM_TYPES, type Room, type RoomAmenity, type RoomType } from '@/types';
+
+// The editor keeps numbers as typed; the server validates them
+interface RoomForm {
+    id: string;
+    name: string;
+    building: string;
+    floor: string;
+    capacity: string;
+    type: RoomType;
+    amenities: RoomAmenity[];
+}
+
+const EMPTY_FORM: RoomForm = { id: '', name: '', building: '', floor: '', capacity: '', type: 'lecture', amenities: [] };
+
+function toForm(room: Room): RoomForm {
+    return {
+        id: room.id,
+        name: room.name,
+        building: room.building ?? '',
+        floor: room.floor?.toString() ?? '',
+        capacity: room.capacity?.toString() ?? '',
+        type: room.type,
+        amenities: room.amenities
+    };
+}
+
+export default function RoomsPage() {
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [form, setForm] = useState<RoomForm | null>(null);
+    const [editing, setEditing] = useState<string | null>(null);   // id of the room in the form, null when adding
+    const [saving, setSaving] = useState(false);
+    const [deleting, setDeleting] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchRooms = useCallback(() => {
+        return fetch('/api/room-registry')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setRooms(data.rooms);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load rooms' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch rooms:', error);
+                setMessage({ type: 'error', text: 'Failed to load rooms' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    useEffect(() => {
+        fetchRooms();
+    }, [fetchRooms]);
+
+    const startAdd = () => {
+        setEditing(null);
+        setForm(EMPTY_FORM);
+    };
+
+    const startEdit = (room: Room) => {
+        setEditing(room.id);
+        setForm(toForm(room));
+    };
+
+    const updateForm = (changes: Partial<RoomForm>) => {
+        setForm(current => current && { ...current, ...changes });
+    };
+
+    const toggleAmenity = (amenity: RoomAmenity) => {
+        setForm(current => current && {
+            ...current,
+            amenities: current.amenities.includes(amenity)
+                ? current.amenities.filter(a => a !== amenity)
+                : [...current.amenities, amenity]
+        });
+    };
+
+    const saveRoom = async () => {
+        if (!form) return;
+
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(editing ? `/api/room-registry/${encodeURIComponent(editing)}` : '/api/room-registry', {
+                method: editing ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(form),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setForm(null);
+                setEditing(null);
+                await fetchRooms();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save room' });
+            }
+        } catch (error) {
+            console.error('Failed to save room:', error);
+            setMessage({ type: 'error', text: 'Failed to save room' });
+        }
+        setSaving(false);
+    };
+
+    const deleteRoom = async (room: Room) => {
+        if (!confirm(`Remove ${room.name} from the registry? It will no longer show up in searches.`)) {
+            return;
+        }
+
+        setDeleting(room.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/room-registry/${encodeURIComponent(room.id)}`, { method: 'DELETE' });
+            const data = await res.json();
+
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                await fetchRooms();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to remove room' });
+            }
+        } catch (error) {
+            console.error('Failed to remove room:', error);
+            setMessage({ type: 'error', text: 'Failed to remove room' });
+        }
+        setDeleting(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link href="/admin">
+                        <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            Back to Dashboard
+                        </Button>
+                    </Link>
+                    <div>
+                        <h1 className="text-2xl font-bold text-white mb-1">Rooms</h1>
+                        <p className="text-slate-400">The rooms students can search, and what each one offers</p>
+                    </div>
+                </div>
+                <Button onClick={startAdd} className="bg-indigo-600 hover:bg-indigo-700">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Room
+                </Button>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {form && (
+                <Card className="bg-slate-900/50 border-indigo-500/30">
+                    <CardHeader>
+                        <CardTitle className="text-white">{editing ? `Edit ${editing}` : 'New Room'}</CardTitle>
+                        <CardDescription className="text-slate-400">
+                            The room id is the number printed in the timetables, e.g. 501.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label className="text-white">Room id</Label>
+                                <Input
+                                    value={form.id}
+                                    onChange={e => updateForm({ id: e.target.value })}
+                                    disabled={editing !== null}
+                                    placeholder="501"
+                                    className="bg-white/5 border-white/10 text-white font-mono"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Display name</Label>
+                                <Input
+                                    value={form.name}
+                                    onChange={e => updateForm({ name: e.target.value })}
+                                    placeholder={form.id ? `Room ${form.id}` : 'Room 501'}
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Building</Label>
+                                <Input
+                                    value={form.building}
+                                    onChange={e => updateForm({ building: e.target.value })}
+                                    placeholder="Main block"
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Floor</Label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    value={form.floor}
+                                    onChange={e => updateForm({ floor: e.target.value })}
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Capacity</Label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    value={form.capacity}
+                                    onChange={e => updateForm({ capacity: e.target.value })}
+                                    placeholder="Seats"
+                                    className="bg-white/5 border-white/10 text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-white">Type</Label>
+                                <select
+                                    value={form.type}
+                                    onChange={e => updateForm({ type: e.target.value as RoomType })}
+                                    className="w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white capitalize"
+                                >
+                                    {ROOM_TYPES.map(type => (
+                                        <option key={type} value={type}>{type}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-white">Amenities</Label>
+                            <div className="flex flex-wrap gap-2">
+                                {ROOM_AMENITIES.map(amenity => {
+                                    const selected = form.amenities.includes(amenity);
+                                    return (
+                                        <Button
+                                            key={amenity}
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => toggleAmenity(amenity)}
+                                            className={selected
+                                                ? 'border-indigo-500 bg-indigo-500/20 text-indigo-200'
+                                                : 'border-white/20 text-slate-400 hover:bg-white/10'}
+                                        >
+                                            {AMENITY_LABELS[amenity]}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => setForm(null)}
+                                disabled={saving}
+                                className="border-white/20 text-slate-300 hover:bg-white/10"
+                            >
+                                Cancel
+                            </Button>
+                            <Button
+                                onClick={saveRoom}
+                                disabled={saving || !form.id.trim()}
+                                className="bg-green-600 hover:bg-green-700"
+                            >
+                                {saving ? 'Saving...' : 'Save Room'}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card className="bg-slate-900/50 border-white/10">
+                <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                        <DoorOpen className="h-5 w-5 text-indigo-400" />
+                        Registry
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                        Only these rooms are searched. Rooms outside the room number pattern are still read from timetables once they are registered.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="text-center py-8 text-slate-400">Loading...</div>
+                    ) : rooms.length === 0 ? (
+                        <p className="text-slate-400">No rooms registered. Until one is, every room found in the timetables is searched.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                                        <th className="p-2 text-left">Room</th>
+                                        <th className="p-2 text-left">Building</th>
+                                        <th className="p-2 text-left">Floor</th>
+                                        <th className="p-2 text-left">Seats</th>
+                                        <th className="p-2 text-left">Type</th>
+                                        <th className="p-2 text-left">Amenities</th>
+                                        <th className="p-2" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rooms.map(room => (
+                                        <tr key={room.id} className="border-t border-white/5">
+                                            <td className="p-2 text-white whitespace-nowrap">
+                                                <span className="font-mono">{room.id}</span>
+                                                {room.name !== `Room ${room.id}` && <span className="text-slate-400"> · {room.name}</span>}
+                                            </td>
+                                            <td className="p-2 text-slate-300">{room.building ?? '—'}</td>
+                                            <td className="p-2 text-slate-300">{room.floor ?? '—'}</td>
+                                            <td className="p-2 text-slate-300">{room.capacity ?? '—'}</td>
+                                            <td className="p-2 text-slate-300 capitalize">{room.type}</td>
+                                            <td className="p-2">
+                                                <div className="flex flex-wrap gap-1">
+                                                    {room.amenities.map(amenity => (
+                                                        <Badge key={amenity} variant="outline" className="border-white/20 text-slate-300">
+                                                            {AMENITY_LABELS[amenity]}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            </td>
+                                            <td className="p-2">
+                                                <div className="flex justify-end gap-1">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => startEdit(room)}
+                                                        className="text-slate-300 hover:text-white hover:bg-white/10"
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => deleteRoom(room)}
+                                                        disabled={deleting === room.id}
+                                                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
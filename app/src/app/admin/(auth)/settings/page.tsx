@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Settings, ArrowLeft, History } from 'lucide-react';
+import Link from 'next/link';
+import { ALL_DAYS } from '@/lib/days';
+import type { AppSettings, SettingKey, SettingsChange } from '@/lib/settings';
+import type { DayOfWeek } from '@/types';
+
+const SETTING_LABELS: Record<SettingKey, string> = {
+    weekStartDate: 'week start',
+    weekEndDate: 'week end',
+    operatingHours: 'operating hours',
+    timezone: 'timezone',
+    teachingDays: 'teaching days',
+};
+
+export default function SettingsPage() {
+    const [settings, setSettings] = useState<AppSettings | null>(null);
+    const [history, setHistory] = useState<SettingsChange[]>([]);
+    const [store, setStore] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetch('/api/settings')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setSettings(data.settings);
+                    setHistory(data.history);
+                    setStore(data.store);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load settings' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch settings:', error);
+                setMessage({ type: 'error', text: 'Failed to load settings' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const update = (changes: Partial<AppSettings>) => {
+        setSettings(current => current && { ...current, ...changes });
+    };
+
+    const toggleDay = (day: DayOfWeek) => {
+        if (!settings) return;
+        const days = settings.teachingDays.includes(day)
+            ? settings.teachingDays.filter(d => d !== day)
+            : [...settings.teachingDays, day];
+        update({ teachingDays: ALL_DAYS.filter(d => days.includes(d)) });
+    };
+
+    const saveSettings = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/settings', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(settings),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setSettings(data.settings);
+                setHistory(data.history);
+                setMessage({ type: 'success', text: data.message });
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to save settings' });
+            }
+        } catch (error) {
+            console.error('Failed to save settings:', error);
+            setMessage({ type: 'error', text: 'Failed to save settings' });
+        }
+        setSaving(false);
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex items-center gap-4">
+                <Link href="/admin">
+                    <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-white mb-1">Settings</h1>
+                    <p className="text-slate-400">Active week, operating hours, timezone and teaching days</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg border ${message.type === 'success'
+                    ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                    : 'bg-red-500/10 border-red-500/30 text-red-300'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {loading || !settings ? (
+                <div className="text-center py-8 text-slate-400">{loading ? 'Loading...' : 'Settings are unavailable'}</div>
+            ) : (
+                <>
+                    <Card className="bg-slate-900/50 border-white/10">
+                        <CardHeader>
+                            <CardTitle className="text-white flex items-center gap-2">
+                                <Settings className="h-5 w-5 text-indigo-400" />
+                                App Settings
+                            </CardTitle>
+                            <CardDescription className="text-slate-400">
+                                Stored in the {store === 'file' ? 'local settings file' : 'database'}; every save is kept below.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label className="text-white">Active week starts</Label>
+                                    <Input
+                                        type="date"
+                                        value={settings.weekStartDate ?? ''}
+                                        onChange={e => update({ weekStartDate: e.target.value || null })}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-white">Active week ends</Label>
+                                    <Input
+                                        type="date"
+                                        value={settings.weekEndDate ?? ''}
+                                        onChange={e => update({ weekEndDate: e.target.value || null })}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-white">Opens at</Label>
+                                    <Input
+                                        type="time"
+                                        value={settings.operatingHours.start}
+                                        onChange={e => update({ operatingHours: { ...settings.operatingHours, start: e.target.value } })}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-white">Closes at</Label>
+                                    <Input
+                                        type="time"
+                                        value={settings.operatingHours.end}
+                                        onChange={e => update({ operatingHours: { ...settings.operatingHours, end: e.target.value } })}
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-white">Timezone</Label>
+                                    <Input
+                                        value={settings.timezone}
+                                        onChange={e => update({ timezone: e.target.value })}
+                                        placeholder="Asia/Kolkata"
+                                        className="bg-white/5 border-white/10 text-white"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-white">Teaching days</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {ALL_DAYS.map(day => (
+                                        <Button
+                                            key={day}
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => toggleDay(day)}
+                                            className={settings.teachingDays.includes(day)
+                                                ? 'border-green-500/40 text-green-300 bg-green-500/10 hover:bg-green-500/20'
+                                                : 'border-white/20 text-slate-500 hover:bg-white/10'
+                                            }
+                                        >
+                                            {day}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="flex justify-end">
+                                <Button
+                                    onClick={saveSettings}
+                                    disabled={saving}
+                                    className="bg-green-600 hover:bg-green-700"
+                                >
+                                    {saving ? 'Saving...' : 'Save Settings'}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card className="bg-slate-900/50 border-white/10">
+                        <CardHeader>
+                            <CardTitle className="text-white flex items-center gap-2">
+                                <History className="h-5 w-5 text-indigo-400" />
+                                Change History
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {history.length === 0 ? (
+                                <p className="text-slate-400 text-sm">No changes yet: the defaults are in use.</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {history.map(change => (
+                                        <div key={change.id} className="flex justify-between gap-4 p-3 rounded-lg bg-slate-800/50 text-sm">
+                                            <span className="text-slate-300">
+                                                Changed {change.changedKeys.map(key => SETTING_LABELS[key]).join(', ')}
+                                            </span>
+                                            <span className="text-slate-500 whitespace-nowrap">
+                                                {change.changedBy ? `${change.changedBy} · ` : ''}
+                                                {new Date(change.changedAt).toLocaleString()}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, ArrowLeft, RotateCcw } from 'lucide-react';
+import Link from 'next/link';
+import { ScheduleDiffList } from '@/components/admin/ScheduleDiffPreview';
+import type { ScheduleDiff } from '@/lib/schedule-diff';
+import type { SnapshotSource, SnapshotSummary } from '@/lib/schedule-snapshots';
+
+const SOURCE_BADGES: Record<SnapshotSource, { label: string; className: string }> = {
+    parse: { label: 'Parse', className: 'bg-indigo-600' },
+    import: { label: 'Import', className: 'bg-blue-600' },
+    editor: { label: 'Editor', className: 'bg-amber-600' },
+    activation: { label: 'Version', className: 'bg-purple-600' },
+    restore: { label: 'Restore', className: 'bg-green-600' },
+    baseline: { label: 'Baseline', className: 'bg-slate-500' },
+};
+
+// Compare against the current live schedule rather than a snapshot
+const LIVE = 'live';
+
+export default function SnapshotsPage() {
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [from, setFrom] = useState<string | null>(null);
+    const [to, setTo] = useState<string>(LIVE);
+    const [diff, setDiff] = useState<ScheduleDiff | null>(null);
+    const [comparing, setComparing] = useState(false);
+    const [restoring, setRestoring] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchSnapshots = useCallback(() => {
+        return fetch('/api/snapshots')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setSnapshots(data.snapshots);
+                } else {
+                    setMessage({ type: 'error', text: data.error || 'Failed to load snapshots' });
+                }
+            })
+            .catch(error => {
+                console.error('Failed to fetch snapshots:', error);
+                setMessage({ type: 'error', text: 'Failed to load snapshots' });
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    useEffect(() => {
+        fetchSnapshots();
+    }, [fetchSnapshots]);
+
+    const compare = async () => {
+        if (!from) return;
+
+        setComparing(true);
+        setDiff(null);
+        try {
+            const res = await fetch(`/api/snapshots/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+            const data = await res.json();
+            if (data.success) {
+                setDiff(data.diff);
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to compare snapshots' });
+            }
+        } catch (error) {
+            console.error('Failed to compare snapshots:', error);
+            setMessage({ type: 'error', text: 'Failed to compare snapshots' });
+        }
+        setComparing(false);
+    };
+
+    const restore = async (snapshot: SnapshotSummary) => {
+        const when = new Date(snapshot.created_at).toLocaleString();
+        if (!confirm(`Replace the live schedule with the snapshot from ${when}?`)) {
+            return;
+        }
+
+        setRestoring(snapshot.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/snapshots/${snapshot.id}/restore`, { method: 'POST' });
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setDiff(null);
+                await fetchSnapshots();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to restore snapshot' });
+            }
+        } catch (error) {
+            console.error('Failed to restore snapshot:', error);
+            setMessage({ type: 'error', text: 'Failed to restore snapshot' });
+        }
+        setRestoring(null);
+    };
+
+    const describe = (id: string) => id === LIVE
+        ? 'the live schedule'
+        : new Date(snapshots.find(snapshot => snapshot.id === id)?.created_at ?? '').toLocaleString();
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex items-center gap-4">
+                <Link href="/admin">
+                    <Button variant="outline" size="sm" className="border-white/20 text-slate-300 hover:bg-white/10">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-white mb-1">Schedule History</h1>
+                    <p className="text-slate-400">Every write to the live schedule, with who made it and why</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg ${message.type === 'success' ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            <Card className="bg-slate-900/50 border-white/10">
+                <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                        <History className="h-5 w-5 text-indigo-400" />
+                        Snapshots
+                    </CardTitle>
+                    <CardDescription className="text-slate-400">
+                        Pick a snapshot to compare from and one to compare to, or restore a snapshot as the live schedule.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {loading ? (
+                        <p className="text-slate-400">Loading snapshots...</p>
+                    ) : snapshots.length === 0 ? (
+                        <p className="text-slate-400">No snapshots yet. One is kept every time the live schedule changes.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            <li className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+                                <div className="flex-1 text-sm text-white">Live schedule</div>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setTo(LIVE)}
+                                    className={to === LIVE ? 'border-indigo-500 text-indigo-300' : 'border-white/20 text-slate-300 hover:bg-white/10'}
+                                >
+                                    To
+                                </Button>
+                            </li>
+                            {snapshots.map(snapshot => {
+                                const badge = SOURCE_BADGES[snapshot.source];
+                                return (
+                                    <li key={snapshot.id} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+                                        <div className="min-w-0 flex-1 space-y-1">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <Badge className={badge.className}>{badge.label}</Badge>
+                                                <span className="text-sm text-white">{new Date(snapshot.created_at).toLocaleString()}</span>
+                                                <span className="text-xs text-slate-400">{snapshot.author || 'unknown author'}</span>
+                                            </div>
+                                            {snapshot.note && <p className="text-xs text-slate-400 truncate">{snapshot.note}</p>}
+                                            <p className="text-xs text-slate-500">
+                                                {snapshot.entry_count} entries · {snapshot.slot_count} slots
+                                            </p>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => setFrom(snapshot.id)}
+                                                className={from === snapshot.id ? 'border-indigo-500 text-indigo-300' : 'border-white/20 text-slate-300 hover:bg-white/10'}
+                                            >
+                                                From
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => setTo(snapshot.id)}
+                                                className={to === snapshot.id ? 'border-indigo-500 text-indigo-300' : 'border-white/20 text-slate-300 hover:bg-white/10'}
+                                            >
+                                                To
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                onClick={() => restore(snapshot)}
+                                                disabled={restoring !== null}
+                                                className="bg-green-600 hover:bg-green-700"
+                                            >
+                                                <RotateCcw className="h-4 w-4 mr-1" />
+                                                {restoring === snapshot.id ? 'Restoring...' : 'Restore'}
+                                            </Button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    <div className="flex justify-end">
+                        <Button
+                            onClick={compare}
+                            disabled={!from || from === to || comparing}
+                            className="bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            {comparing ? 'Comparing...' : 'Compare'}
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {diff && from && (
+                <Card className="bg-slate-900/50 border-indigo-500/30">
+                    <CardHeader>
+                        <CardTitle className="text-white">Changes</CardTitle>
+                        <CardDescription className="text-slate-400">
+                            From {describe(from)} to {describe(to)}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <ScheduleDiffList diff={diff} emptyMessage="The two schedules are the same." />
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRoomAliases, parseRoomAliasConfig, saveRoomAliases } from '@/lib/room-aliases';
+
+// Get the room alias dictionary used by the PDF extractor
+export async function GET() {
+    try {
+        const config = await loadRoomAliases();
+
+        return NextResponse.json({
+            success: true,
+            ...config
+        });
+    } catch (error) {
+        console.error('Get room aliases error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load room aliases' },
+            { status: 500 }
+        );
+    }
+}
+
+// Replace the room alias dictionary
+export async function PUT(request: NextRequest) {
+    let config;
+    try {
+        config = parseRoomAliasConfig(await request.json());
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid alias dictionary' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const saved = await saveRoomAliases(config);
+
+        return NextResponse.json({
+            success: true,
+            message: `Saved ${saved.aliases.length} room aliases`,
+            ...saved
+        });
+    } catch (error) {
+        console.error('Save room aliases error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save room aliases' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBatch, getBatch, listBatches, parseBatch, saveBatch } from '@/lib/batches';
+
+// Update a batch; the name in the path is the batch being edited
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    const { name } = await params;
+
+    try {
+        const registry = await listBatches();
+        if (!registry.some(batch => batch.name === name)) {
+            return NextResponse.json({ success: false, error: 'Batch not found' }, { status: 404 });
+        }
+
+        let batch;
+        try {
+            batch = parseBatch({ ...await request.json(), name }, registry);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid batch' },
+                { status: 400 }
+            );
+        }
+
+        const saved = await saveBatch(batch);
+        return NextResponse.json({ success: true, message: `Saved ${saved.name}`, batch: saved });
+    } catch (error) {
+        console.error('Update batch error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save batch' },
+            { status: 500 }
+        );
+    }
+}
+
+// Remove a batch. Slots keep its name, which imports then flag as unknown.
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    const { name } = await params;
+
+    try {
+        if (!await getBatch(name)) {
+            return NextResponse.json({ success: false, error: 'Batch not found' }, { status: 404 });
+        }
+
+        await deleteBatch(name);
+        return NextResponse.json({ success: true, message: `Removed batch ${name}` });
+    } catch (error) {
+        console.error('Delete batch error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to remove batch' },
+            { status: 500 }
+        );
+    }
+}
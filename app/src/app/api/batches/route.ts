@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listBatches, parseBatch, saveBatch } from '@/lib/batches';
+
+// List the batch registry
+export async function GET() {
+    try {
+        const batches = await listBatches();
+        return NextResponse.json({ success: true, batches });
+    } catch (error) {
+        console.error('List batches error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load batches' },
+            { status: 500 }
+        );
+    }
+}
+
+// Add a batch or sub-batch to the registry
+export async function POST(request: NextRequest) {
+    try {
+        const registry = await listBatches();
+
+        let batch;
+        try {
+            batch = parseBatch(await request.json(), registry);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid batch' },
+                { status: 400 }
+            );
+        }
+
+        if (registry.some(existing => existing.name === batch.name)) {
+            return NextResponse.json(
+                { success: false, error: `Batch ${batch.name} already exists` },
+                { status: 409 }
+            );
+        }
+
+        const saved = await saveBatch(batch);
+        return NextResponse.json({ success: true, message: `Added ${saved.name}`, batch: saved });
+    } catch (error) {
+        console.error('Add batch error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to add batch' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    loadAcademicCalendar,
+    parseAcademicCalendar,
+    resolveCalendarDay,
+    saveAcademicCalendar,
+    toISODate
+} from '@/lib/academic-calendar';
+
+// Get the terms, holidays, exam periods and closures, and what they mean for today
+export async function GET() {
+    try {
+        const calendar = await loadAcademicCalendar();
+
+        return NextResponse.json({
+            success: true,
+            ...calendar,
+            today: resolveCalendarDay(calendar, toISODate(new Date()))
+        });
+    } catch (error) {
+        console.error('Get academic calendar error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load academic calendar' },
+            { status: 500 }
+        );
+    }
+}
+
+// Replace the academic calendar
+export async function PUT(request: NextRequest) {
+    let calendar;
+    try {
+        calendar = parseAcademicCalendar(await request.json());
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid academic calendar' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const saved = await saveAcademicCalendar(calendar);
+
+        return NextResponse.json({
+            success: true,
+            message: `Saved ${saved.terms.length} terms and ${saved.events.length} calendar events`,
+            ...saved,
+            today: resolveCalendarDay(saved, toISODate(new Date()))
+        });
+    } catch (error) {
+        console.error('Save academic calendar error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save academic calendar' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,68 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { format, parseISO, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
-
-const configPath = path.join(process.cwd(), 'src', 'data', 'config.json');
-
-// Format date for display (e.g., "19th Jan")
-function formatDateForDisplay(dateStr: string): string {
-    try {
-        const date = parseISO(dateStr);
-        const day = date.getDate();
-        const suffix = getDaySuffix(day);
-        return `${day}${suffix} ${format(date, 'MMM')}`;
-    } catch {
-        return dateStr;
-    }
-}
-
-function getDaySuffix(day: number): string {
-    if (day >= 11 && day <= 13) return 'th';
-    switch (day % 10) {
-        case 1: return 'st';
-        case 2: return 'nd';
-        case 3: return 'rd';
-        default: return 'th';
-    }
-}
-
-// Check if today is within the configured week
-function isCurrentWeek(startDate: string, endDate: string): boolean {
-    try {
-        const today = new Date();
-        const start = startOfDay(parseISO(startDate));
-        const end = endOfDay(parseISO(endDate));
-        return isWithinInterval(today, { start, end });
-    } catch {
-        return false;
-    }
+import { describeActiveWeek, loadSettings, parseSettings, saveSettings, type AppSettings } from '@/lib/settings';
+
+function weekResponse(settings: AppSettings) {
+    const { activeWeek, weekStartDate, weekEndDate, isCurrentWeek } = describeActiveWeek(settings);
+    return {
+        weekStartDate: weekStartDate || '',
+        weekEndDate: weekEndDate || '',
+        activeWeekDisplay: activeWeek || 'Unknown Week',
+        isCurrentWeek
+    };
 }
 
+// Get the active week from the settings store
 export async function GET() {
     try {
-        const data = await fs.readFile(configPath, 'utf-8');
-        const config = JSON.parse(data);
-
-        const weekStartDate = config.weekStartDate || '';
-        const weekEndDate = config.weekEndDate || '';
-
-        // Generate display string
-        let activeWeekDisplay = 'Unknown Week';
-        if (weekStartDate && weekEndDate) {
-            const startDisplay = formatDateForDisplay(weekStartDate);
-            const endDisplay = formatDateForDisplay(weekEndDate);
-            activeWeekDisplay = `${startDisplay} - ${endDisplay}`;
-        }
-
-        return NextResponse.json({
-            weekStartDate,
-            weekEndDate,
-            activeWeekDisplay,
-            isCurrentWeek: isCurrentWeek(weekStartDate, weekEndDate)
-        });
+        return NextResponse.json(weekResponse(await loadSettings()));
     } catch (error) {
-        // Return default if file doesn't exist or error
+        console.error('Error reading config:', error);
         return NextResponse.json({
             weekStartDate: '',
             weekEndDate: '',
@@ -72,10 +26,10 @@ export async function GET() {
     }
 }
 
+// Set the active week; the other settings are left as they are
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { weekStartDate, weekEndDate } = body;
+        const { weekStartDate, weekEndDate } = await request.json();
 
         if (!weekStartDate || !weekEndDate) {
             return NextResponse.json({
@@ -84,34 +38,24 @@ export async function POST(request: NextRequest) {
             }, { status: 400 });
         }
 
-        const config = { weekStartDate, weekEndDate };
-        await fs.writeFile(configPath, JSON.stringify(config, null, 2));
-
-        // Generate display string for response
-        const startDisplay = formatDateForDisplay(weekStartDate);
-        const endDisplay = formatDateForDisplay(weekEndDate);
-        const activeWeekDisplay = `${startDisplay} - ${endDisplay}`;
+        let settings;
+        try {
+            settings = parseSettings({ ...await loadSettings(), weekStartDate, weekEndDate });
+        } catch (error) {
+            return NextResponse.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Invalid week'
+            }, { status: 400 });
+        }
 
-        return NextResponse.json({
-            success: true,
-            weekStartDate,
-            weekEndDate,
-            activeWeekDisplay,
-            isCurrentWeek: isCurrentWeek(weekStartDate, weekEndDate)
-        });
+        await saveSettings(settings);
+        return NextResponse.json({ success: true, ...weekResponse(settings) });
     } catch (error) {
         console.error('Error writing config:', error);
-        // @ts-ignore
-        const errorMessage = error.message || 'Unknown error';
-        // @ts-ignore
-        const errorStack = error.stack || '';
-        console.error('Stack trace:', errorStack);
-
         return NextResponse.json({
             success: false,
             error: 'Failed to update config',
-            details: errorMessage
+            details: error instanceof Error ? error.message : 'Unknown error'
         }, { status: 500 });
     }
 }
-
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOpenDays, loadDayCoverage, parseDayCoverageConfig, saveDayCoverage } from '@/lib/day-coverage';
+
+// Get the teaching, contest and closed days of each term
+export async function GET() {
+    try {
+        const config = await loadDayCoverage();
+
+        return NextResponse.json({
+            success: true,
+            ...config,
+            openDays: getOpenDays(config)
+        });
+    } catch (error) {
+        console.error('Get day coverage error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load day coverage' },
+            { status: 500 }
+        );
+    }
+}
+
+// Replace the day coverage of every term
+export async function PUT(request: NextRequest) {
+    let config;
+    try {
+        config = parseDayCoverageConfig(await request.json());
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid day coverage' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const saved = await saveDayCoverage(config);
+
+        return NextResponse.json({
+            success: true,
+            message: `Saved day coverage for ${saved.terms.length} terms`,
+            ...saved,
+            openDays: getOpenDays(saved)
+        });
+    } catch (error) {
+        console.error('Save day coverage error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save day coverage' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,25 +1,20 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { getAllParsedSchedules, hasScheduleData, hasPDFData, getCacheLastUpdated, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { getStorage } from '@/lib/storage';
+import { isTimetableFile } from '@/lib/timetable-files';
+import { getAllParsedSchedules, hasScheduleData, hasPDFData, getCacheLastUpdated, loadCachedBreaks, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { getDayStatus, getOpenDays, loadDayCoverage } from '@/lib/day-coverage';
+import { sortDays } from '@/lib/days';
+import { findUnknownBatches, listBatches } from '@/lib/batches';
+import type { DayOfWeek } from '@/types';
 
 export async function GET() {
     try {
         // Get PDF file info
-        const supabase = await createClient();
         const pdfFiles: { semester: number; files: string[] }[] = [];
 
         for (const semester of [1, 2]) {
-            const { data: files } = await supabase
-                .storage
-                .from('timetables')
-                .list(`semester${semester}`, { limit: 100 });
-
-            if (files) {
-                const pdfs = files.filter(f => f.name.endsWith('.pdf')).map(f => f.name);
-                pdfFiles.push({ semester, files: pdfs });
-            } else {
-                pdfFiles.push({ semester, files: [] });
-            }
+            const files = await getStorage().files.list(`semester${semester}`, { limit: 100 });
+            pdfFiles.push({ semester, files: files.filter(f => isTimetableFile(f.name)).map(f => f.name) });
         }
 
         // Check for data availability
@@ -29,9 +24,10 @@ export async function GET() {
 
         // Get schedules from cache
         const schedules: ParsedScheduleEntry[] = await getAllParsedSchedules();
+        const breaks = await loadCachedBreaks();
 
         // Group schedules by room
-        const byRoom: { [room: string]: { [day: string]: ParsedScheduleEntry['occupied'] } } = {};
+        const byRoom: { [room: string]: Partial<Record<DayOfWeek, ParsedScheduleEntry['occupied']>> } = {};
         for (const schedule of schedules) {
             if (!byRoom[schedule.room]) {
                 byRoom[schedule.room] = {};
@@ -40,12 +36,12 @@ export async function GET() {
         }
 
         // Group schedules by day
-        const byDay: { [day: string]: { room: string; occupied: ParsedScheduleEntry['occupied'] }[] } = {};
+        const byDay: Partial<Record<DayOfWeek, { room: string; occupied: ParsedScheduleEntry['occupied'] }[]>> = {};
         for (const schedule of schedules) {
             if (!byDay[schedule.day]) {
                 byDay[schedule.day] = [];
             }
-            byDay[schedule.day].push({
+            byDay[schedule.day]!.push({
                 room: schedule.room,
                 occupied: schedule.occupied
             });
@@ -53,10 +49,14 @@ export async function GET() {
 
         // Get unique values
         const uniqueRooms = [...new Set(schedules.map(s => s.room))].sort();
-        const uniqueDays = ['Mon', 'Tue', 'Wed', 'Thur'];
-        const uniqueBatches = [...new Set(
-            schedules.flatMap(s => s.occupied.map(o => o.batch).filter(Boolean))
-        )].sort() as string[];
+        // Open days always show, other days only when the timetable has classes on them
+        const coverage = await loadDayCoverage();
+        const uniqueDays = sortDays([...getOpenDays(coverage), ...schedules.map(s => s.day)]);
+        const dayStatus = Object.fromEntries(uniqueDays.map(day => [day, getDayStatus(coverage, day)]));
+        // Batches come from the registry; names only the timetable uses are flagged
+        const batchRegistry = await listBatches();
+        const uniqueBatches = batchRegistry.map(batch => batch.name);
+        const unknownBatches = findUnknownBatches(schedules, breaks, batchRegistry);
 
         // Determine status message
         let statusMessage: string;
@@ -86,10 +86,14 @@ export async function GET() {
                 uniqueBatches: uniqueBatches.length,
                 rooms: uniqueRooms,
                 days: uniqueDays,
-                batches: uniqueBatches
+                dayStatus,
+                batches: uniqueBatches,
+                unknownBatches
             },
             data: {
                 raw: schedules,
+                breaks,
+                batches: batchRegistry,
                 byRoom,
                 byDay
             }
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getActivePdfs } from '@/lib/pdf-extractor';
+import { loadDiagnostics, type ParseDiagnostics } from '@/lib/parse-diagnostics';
+
+// Get the latest parse report for each active PDF
+export async function GET() {
+    try {
+        const activePdfs = await getActivePdfs();
+        const reports: ParseDiagnostics[] = [];
+        const unparsed: { semester: number; pdfName: string }[] = [];
+
+        for (const pdf of activePdfs) {
+            const report = await loadDiagnostics(pdf.semester, pdf.name);
+            if (report) {
+                reports.push(report);
+            } else {
+                unparsed.push({ semester: pdf.semester, pdfName: pdf.name });
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            reports,
+            unparsed
+        });
+    } catch (error) {
+        console.error('Get diagnostics error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load parse diagnostics' },
+            { status: 500 }
+        );
+    }
+}
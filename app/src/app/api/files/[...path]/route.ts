@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '@/lib/storage';
+import { timetableFormat, type TimetableFormat } from '@/lib/timetable-files';
+
+const CONTENT_TYPES: Record<TimetableFormat, string> = {
+    pdf: 'application/pdf',
+    csv: 'text/csv',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    json: 'application/json'
+};
+
+// Serve an uploaded timetable (semesterN/<file>) from the local backend, which has no file URLs of
+// its own. On Supabase, files are fetched from the bucket instead.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ path: string[] }> }
+) {
+    const { path } = await params;
+    const filePath = path.join('/');
+    const format = timetableFormat(filePath);
+
+    try {
+        const storage = getStorage();
+        if (storage.id !== 'local' || !format || !/^semester\d+\//.test(filePath)) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+
+        const file = await storage.files.read(filePath);
+        if (!file) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+
+        return new NextResponse(file, { headers: { 'Content-Type': CONTENT_TYPES[format] } });
+    } catch (error) {
+        console.error('Read file error:', error);
+        return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createParseJob, isJobActive, loadLatestParseJob, loadParseJob, runParseJob } from '@/lib/parse-jobs';
+
+// Run a finished job again with the same options, as a new job
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        const previous = await loadParseJob(id);
+        if (!previous) {
+            return NextResponse.json({ success: false, error: 'Parse job not found' }, { status: 404 });
+        }
+        if (isJobActive(previous)) {
+            return NextResponse.json({ success: false, error: 'Parse job is still running' }, { status: 409 });
+        }
+        const latest = await loadLatestParseJob();
+        if (latest && isJobActive(latest)) {
+            return NextResponse.json(
+                { success: false, error: 'A parse job is already running', jobId: latest.id },
+                { status: 409 }
+            );
+        }
+
+        const job = await createParseJob({ dryRun: previous.dryRun, rerunOf: previous.id });
+        after(() => runParseJob(job));
+
+        return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+    } catch (error) {
+        console.error('Rerun parse job error:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to rerun parse job'
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadParseJob } from '@/lib/parse-jobs';
+
+// Get a parse job's status, per-file progress and, once finished, its result
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        const job = await loadParseJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: 'Parse job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, job });
+    } catch (error) {
+        console.error('Get parse job error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load parse job' },
+            { status: 500 }
+        );
+    }
+}
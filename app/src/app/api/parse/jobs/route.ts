@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { loadLatestParseJob } from '@/lib/parse-jobs';
+
+// Get the most recent parse job, or null if nothing has been parsed yet
+export async function GET() {
+    try {
+        const job = await loadLatestParseJob();
+        return NextResponse.json({ success: true, job });
+    } catch (error) {
+        console.error('Get parse jobs error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load parse jobs' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,42 +1,37 @@
-import { NextResponse } from 'next/server';
-import { getSchedulesFromPdfs } from '@/lib/pdf-extractor';
-import { saveParsedSchedules } from '@/lib/pdf-parser';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createParseJob, isJobActive, loadLatestParseJob, runParseJob } from '@/lib/parse-jobs';
 
-export async function POST() {
-    try {
-        // Get schedules from PDFs using the extractor
-        const schedules = await getSchedulesFromPdfs();
+// Start parsing the active PDFs into the schedule cache as a background job.
+// With ?dryRun=true nothing is saved: the finished job carries the parsed schedules
+// and a slot-level diff against the current cache for review.
+// Poll GET /api/parse/jobs/:id for progress. Only one job runs at a time.
+export async function POST(request: NextRequest) {
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
 
-        if (schedules.length === 0) {
-            return NextResponse.json({
-                success: false,
-                error: 'No schedules found. Make sure PDFs are uploaded.'
-            }, { status: 400 });
+    try {
+        const latest = await loadLatestParseJob();
+        if (latest && isJobActive(latest)) {
+            return NextResponse.json(
+                { success: false, error: 'A parse job is already running', jobId: latest.id },
+                { status: 409 }
+            );
         }
 
-        // Convert to ParsedScheduleEntry format and save
-        const parsedEntries = schedules.map(s => ({
-            room: s.room,
-            day: s.day,
-            occupied: s.occupied.map(slot => ({
-                start: slot.start,
-                end: slot.end
-            }))
-        }));
-
-        await saveParsedSchedules(parsedEntries);
+        const job = await createParseJob({ dryRun });
+        after(() => runParseJob(job));
 
         return NextResponse.json({
             success: true,
-            message: `Parsed ${schedules.length} schedule entries from PDFs`,
-            count: schedules.length
-        });
+            message: dryRun ? 'Previewing parse of the active PDFs' : 'Parsing the active PDFs',
+            jobId: job.id,
+            job
+        }, { status: 202 });
 
     } catch (error) {
         console.error('Parse error:', error);
         return NextResponse.json({
             success: false,
-            error: error instanceof Error ? error.message : 'Failed to parse PDFs'
+            error: error instanceof Error ? error.message : 'Failed to start parsing PDFs'
         }, { status: 500 });
     }
 }
@@ -1,80 +1,126 @@
-import { NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-
-interface PDFInfo {
-    id: string;
-    name: string;
-    file_path: string;
-    semester: number;
-    is_active: boolean;
-    uploaded_at: string;
-}
+import { NextRequest, NextResponse } from 'next/server';
+import { loadDiagnostics } from '@/lib/parse-diagnostics';
+import {
+    applyVersionAction,
+    listVersions,
+    parseEffectiveRange,
+    registerStoredFiles,
+    setVersionRange,
+    storedFileName,
+    VERSION_ACTIONS,
+    versionFileUrl,
+    type VersionAction
+} from '@/lib/pdf-versions';
+import { publishSemester } from '@/lib/pdf-extractor';
+import type { PDFVersion } from '@/types';
 
+// List every uploaded version, newest first, with what parsing it produced
 export async function GET() {
     try {
-        const supabase = await createClient();
-        const pdfs: PDFInfo[] = [];
+        // Files uploaded before the registry existed are recorded on first listing
+        try {
+            await registerStoredFiles();
+        } catch (error) {
+            console.warn('Could not record stored files:', error);
+        }
 
-        // Check each semester folder
-        for (const semester of [1, 2]) {
-            const { data: files, error } = await supabase
-                .storage
-                .from('timetables')
-                .list(`semester${semester}`, {
-                    limit: 100,
-                    offset: 0,
-                    sortBy: { column: 'name', order: 'asc' },
-                });
+        const pdfs: PDFVersion[] = [];
+        for (const version of await listVersions()) {
+            const report = await loadDiagnostics(version.semester, storedFileName(version));
 
-            if (error) {
-                console.error(`Error listing semester ${semester} files:`, error);
-                continue;
-            }
+            pdfs.push({
+                id: version.id,
+                name: version.name,
+                file_path: await versionFileUrl(version),
+                semester: version.semester,
+                is_active: version.is_active,
+                is_pinned: version.is_pinned,
+                uploaded_at: version.uploaded_at,
+                effective_from: version.effective_from,
+                effective_to: version.effective_to,
+                parse: report && {
+                    parsed_at: report.parsedAt,
+                    parser: report.parser ?? version.parser ?? undefined,
+                    slot_count: report.slotCount,
+                    errors: report.errors,
+                },
+            });
+        }
 
-            if (!files) continue;
+        return NextResponse.json(pdfs);
+    } catch (error) {
+        console.error('Error reading PDFs:', error);
+        return NextResponse.json([], { status: 200 });
+    }
+}
 
-            const pdfFiles = files.filter(f => f.name.endsWith('.pdf'));
+// Activate, deactivate, pin or unpin a version; the live schedule follows at once
+export async function PATCH(request: NextRequest) {
+    try {
+        const { id, action } = await request.json();
 
-            for (const file of pdfFiles) {
-                // Extract original filename (remove timestamp prefix)
-                const parts = file.name.split('_');
-                const timestamp = parts[0];
-                const originalName = parts.slice(1).join('_');
+        if (typeof id !== 'string' || !VERSION_ACTIONS.includes(action)) {
+            return NextResponse.json(
+                { success: false, error: `Expected an id and one of: ${VERSION_ACTIONS.join(', ')}` },
+                { status: 400 }
+            );
+        }
 
-                // Get public URL
-                const { data: { publicUrl } } = supabase
-                    .storage
-                    .from('timetables')
-                    .getPublicUrl(`semester${semester}/${file.name}`);
+        const version = await applyVersionAction(id, action as VersionAction);
+        const liveSlots = await publishSemester(version.semester, {
+            source: 'activation',
+            note: `${action} ${version.name} (semester ${version.semester})`
+        });
 
-                pdfs.push({
-                    id: `${semester}-${timestamp}`,
-                    name: originalName || file.name,
-                    file_path: publicUrl,
-                    semester,
-                    is_active: true, // Most recent file per semester is active
-                    uploaded_at: file.created_at || new Date().toISOString(),
-                });
-            }
-        }
+        return NextResponse.json({
+            success: true,
+            version,
+            liveSlots,
+            message: version.is_active
+                ? `${version.name} is the active semester ${version.semester} timetable (${liveSlots} slots)`
+                : `Semester ${version.semester} has no active timetable`
+        });
+    } catch (error) {
+        console.error('PDF version update error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to update PDF version';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: message === 'PDF version not found' ? 404 : 500 }
+        );
+    }
+}
 
-        // Sort by upload time (descending) and mark only the latest per semester as active
-        pdfs.sort((a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime());
+// Change the dates a version applies over; the live slots stay, since the
+// search picks the version effective on each date
+export async function PUT(request: NextRequest) {
+    try {
+        const { id, effectiveFrom, effectiveTo } = await request.json();
+        if (typeof id !== 'string') {
+            return NextResponse.json({ success: false, error: 'Expected a version id' }, { status: 400 });
+        }
 
-        // Mark only the most recent PDF per semester as active
-        const activeSemesters = new Set<number>();
-        for (const pdf of pdfs) {
-            if (activeSemesters.has(pdf.semester)) {
-                pdf.is_active = false;
-            } else {
-                pdf.is_active = true;
-                activeSemesters.add(pdf.semester);
-            }
+        let range;
+        try {
+            range = parseEffectiveRange(effectiveFrom, effectiveTo);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid effective dates' },
+                { status: 400 }
+            );
         }
 
-        return NextResponse.json(pdfs);
+        const version = await setVersionRange(id, range);
+        return NextResponse.json({
+            success: true,
+            version,
+            message: `Saved the effective dates of ${version.name}`
+        });
     } catch (error) {
-        console.error('Error reading PDFs:', error);
-        return NextResponse.json([], { status: 200 });
+        console.error('PDF version dates error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to update the effective dates';
+        return NextResponse.json(
+            { success: false, error: message },
+            { status: message === 'PDF version not found' ? 404 : 500 }
+        );
     }
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRoom, getRoom, parseRoom, saveRoom } from '@/lib/rooms';
+
+// Update a room's details; the id in the path is the room being edited
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    let room;
+    try {
+        room = parseRoom({ ...await request.json(), id });
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid room' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        if (!await getRoom(id)) {
+            return NextResponse.json({ success: false, error: 'Room not found' }, { status: 404 });
+        }
+
+        const saved = await saveRoom(room);
+        return NextResponse.json({ success: true, message: `Saved ${saved.name}`, room: saved });
+    } catch (error) {
+        console.error('Update room error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save room' },
+            { status: 500 }
+        );
+    }
+}
+
+// Remove a room. Its slots stay in the schedule but it is no longer searched.
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        if (!await getRoom(id)) {
+            return NextResponse.json({ success: false, error: 'Room not found' }, { status: 404 });
+        }
+
+        await deleteRoom(id);
+        return NextResponse.json({ success: true, message: `Removed room ${id}` });
+    } catch (error) {
+        console.error('Delete room error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to remove room' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoom, listRooms, parseRoom, saveRoom } from '@/lib/rooms';
+
+// List the rooms registry
+export async function GET() {
+    try {
+        const rooms = await listRooms();
+        return NextResponse.json({ success: true, rooms });
+    } catch (error) {
+        console.error('List rooms error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load rooms' },
+            { status: 500 }
+        );
+    }
+}
+
+// Add a room to the registry
+export async function POST(request: NextRequest) {
+    let room;
+    try {
+        room = parseRoom(await request.json());
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid room' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        if (await getRoom(room.id)) {
+            return NextResponse.json(
+                { success: false, error: `Room ${room.id} already exists` },
+                { status: 409 }
+            );
+        }
+
+        const saved = await saveRoom(room);
+        return NextResponse.json({ success: true, message: `Added ${saved.name}`, room: saved });
+    } catch (error) {
+        console.error('Add room error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to add room' },
+            { status: 500 }
+        );
+    }
+}
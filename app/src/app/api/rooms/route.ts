@@ -1,30 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { parseISO } from 'date-fns';
 import { findFreeRooms, getCurrentDay, getCurrentTime } from '@/lib/room-finder';
-import { getAllParsedSchedules, hasScheduleData, toRoomSchedule, hasPDFData, clearScheduleData, saveParsedSchedules, type ParsedScheduleEntry } from '@/lib/pdf-parser';
-import { getSchedulesFromPdfs } from '@/lib/pdf-extractor';
-import type { RoomSchedule } from '@/types';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-// All available rooms (4th and 5th floor)
-const ALL_ROOMS = ['401', '402', '403', '404', '405', '501', '502', '503', '504', '505'];
-const DAYS = ['Mon', 'Tue', 'Wed', 'Thur'];
-
-// Get schedules from parsed PDFs/cache
-async function getSchedulesFromCache(): Promise<RoomSchedule[]> {
-    const parsed = await getAllParsedSchedules();
-    if (parsed.length > 0) {
-        return parsed.map(toRoomSchedule);
-    }
-    return [];
+import { loadCachedSchedules, hasScheduleData, toRoomSchedule, hasPDFData, loadCachedBreaks } from '@/lib/pdf-parser';
+import { publishSemesters } from '@/lib/pdf-extractor';
+import { getDayStatus, getOpenDays, loadDayCoverage } from '@/lib/day-coverage';
+import { parseDayOfWeek } from '@/lib/days';
+import { listRooms } from '@/lib/rooms';
+import { dateInWeek, isISODate, loadAcademicCalendar } from '@/lib/academic-calendar';
+import { describeActiveWeek, loadSettings, todayIn } from '@/lib/settings';
+import { getActiveVersions } from '@/lib/pdf-versions';
+import { resolveRoomDate, runsOnDate, ROOMLESS_REASONS, type ResolvedDate } from '@/lib/room-dates';
+import { ROOM_AMENITIES, ROOM_RANKINGS, ROOM_TYPES } from '@/types';
+import type { DayOfWeek, Room, RoomAmenity, RoomFilters, RoomRanking, RoomSchedule, RoomType } from '@/types';
+
+// Get one date's schedules, read through the (room, day) rows, keeping the
+// slots of the versions whose classes run on the date
+async function getSchedulesFromCache(resolved: ResolvedDate): Promise<RoomSchedule[]> {
+    const parsed = await loadCachedSchedules({ day: resolved.day });
+    return (parsed || [])
+        .map(entry => ({ ...entry, occupied: entry.occupied.filter(slot => runsOnDate(resolved, slot)) }))
+        .map(toRoomSchedule);
 }
 
-// Create complete schedule data with empty arrays for rooms/days without entries
-function getCompleteSchedules(schedules: RoomSchedule[]): RoomSchedule[] {
+// Create complete schedule data with empty arrays for rooms/days without entries.
+// The registry decides which rooms exist; until it has any, every scheduled room does.
+function getCompleteSchedules(schedules: RoomSchedule[], days: DayOfWeek[], rooms: Room[]): RoomSchedule[] {
     const scheduleMap = new Map<string, RoomSchedule>();
+    const registered = new Set(rooms.map(room => room.id));
 
     // Add existing schedules to map
     for (const schedule of schedules) {
+        if (registered.size > 0 && !registered.has(schedule.room)) continue;
+
         const key = `${schedule.room}-${schedule.day}`;
         if (scheduleMap.has(key)) {
             // Merge occupied slots
@@ -36,8 +43,8 @@ function getCompleteSchedules(schedules: RoomSchedule[]): RoomSchedule[] {
     }
 
     // Ensure all room/day combinations exist
-    for (const room of ALL_ROOMS) {
-        for (const day of DAYS) {
+    for (const room of registered) {
+        for (const day of days) {
             const key = `${room}-${day}`;
             if (!scheduleMap.has(key)) {
                 scheduleMap.set(key, { room, day, occupied: [] });
@@ -48,79 +55,112 @@ function getCompleteSchedules(schedules: RoomSchedule[]): RoomSchedule[] {
     return Array.from(scheduleMap.values());
 }
 
-// Helper to get active week info
-async function getActiveWeekInfo() {
-    try {
-        const configPath = path.join(process.cwd(), 'src', 'data', 'config.json');
-        const data = await fs.readFile(configPath, 'utf-8');
-        const config = JSON.parse(data);
-
-        const weekStartDate = config.weekStartDate || '';
-        const weekEndDate = config.weekEndDate || '';
-
-        let activeWeek = 'Unknown Week';
-        if (weekStartDate && weekEndDate) {
-            // Simple check without date-dns for basic display, or use the helper in utils if available
-            // For now, let's keep it simple as the client will fetch full config if needed
-            // But we want to return the display string here
-            try {
-                // Formatting logic similar to config route
-                // We'll return the raw dates and the display string
-                const formatDate = (d: string) => {
-                    const date = new Date(d);
-                    const day = date.getDate();
-                    const month = date.toLocaleString('default', { month: 'short' });
-                    const getSuffix = (n: number) => {
-                        if (n >= 11 && n <= 13) return 'th';
-                        switch (n % 10) {
-                            case 1: return 'st';
-                            case 2: return 'nd';
-                            case 3: return 'rd';
-                            default: return 'th';
-                        }
-                    };
-                    return `${day}${getSuffix(day)} ${month}`;
-                };
-                activeWeek = `${formatDate(weekStartDate)} - ${formatDate(weekEndDate)}`;
-            } catch (e) {
-                activeWeek = `${weekStartDate} - ${weekEndDate}`;
-            }
-        }
+function parseWholeNumber(value: string | null, name: string): number | undefined {
+    if (value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new Error(`${name} must be a whole number`);
+    }
+    return number;
+}
 
-        // Check isCurrentWeek
-        let isCurrentWeek = false;
-        if (weekStartDate && weekEndDate) {
-            const today = new Date();
-            const start = new Date(weekStartDate);
-            const end = new Date(weekEndDate);
-            // reset times for comparison
-            today.setHours(0, 0, 0, 0);
-            start.setHours(0, 0, 0, 0);
-            end.setHours(23, 59, 59, 999);
-
-            isCurrentWeek = today >= start && today <= end;
-        }
+// Read room attribute filters and the ranking from the query string:
+// minCapacity=30&type=lab&floor=5&amenities=projector,ac&rank=nearest-floor&preferredFloor=5
+function parseRoomSearch(searchParams: URLSearchParams): { filters: RoomFilters; rankBy: RoomRanking; preferredFloor?: number } {
+    const type = searchParams.get('type') || undefined;
+    if (type && !ROOM_TYPES.includes(type as RoomType)) {
+        throw new Error(`Unknown room type: ${type}`);
+    }
 
-        return { activeWeek, isCurrentWeek, weekStartDate };
-    } catch {
-        return { activeWeek: null, isCurrentWeek: false, weekStartDate: null };
+    const amenities = (searchParams.get('amenities') || '').split(',').map(a => a.trim()).filter(Boolean);
+    const unknown = amenities.filter(amenity => !ROOM_AMENITIES.includes(amenity as RoomAmenity));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown amenities: ${unknown.join(', ')}`);
     }
+
+    const rankBy = searchParams.get('rank') || 'longest';
+    if (!ROOM_RANKINGS.some(ranking => ranking.value === rankBy)) {
+        throw new Error(`Unknown ranking: ${rankBy}`);
+    }
+
+    return {
+        filters: {
+            minCapacity: parseWholeNumber(searchParams.get('minCapacity'), 'minCapacity'),
+            type: type as RoomType | undefined,
+            floor: parseWholeNumber(searchParams.get('floor'), 'floor'),
+            amenities: amenities as RoomAmenity[]
+        },
+        rankBy: rankBy as RoomRanking,
+        preferredFloor: parseWholeNumber(searchParams.get('preferredFloor'), 'preferredFloor')
+    };
 }
 
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
-    const day = searchParams.get('day') || getCurrentDay();
+    // A date (YYYY-MM-DD) wins over a weekday, which means that day of the active week
+    const dateParam = searchParams.get('date');
+    if (dateParam && !isISODate(dateParam)) {
+        return NextResponse.json(
+            { success: false, error: `Invalid date: ${dateParam}. Use YYYY-MM-DD.` },
+            { status: 400 }
+        );
+    }
+    const dayParam = searchParams.get('day');
+    const day = dayParam ? parseDayOfWeek(dayParam) : undefined;
+    if (dayParam && !day) {
+        return NextResponse.json(
+            { success: false, error: `Unknown day: ${dayParam}` },
+            { status: 400 }
+        );
+    }
     const time = searchParams.get('time') || undefined;
     const minDuration = searchParams.get('minDuration')
         ? parseInt(searchParams.get('minDuration')!)
         : undefined;
     const freeNow = searchParams.get('freeNow') === 'true';
 
+    let search;
+    try {
+        search = parseRoomSearch(searchParams);
+    } catch (error) {
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid room filters' },
+            { status: 400 }
+        );
+    }
+
     try {
         // Check if we have schedule data
         const hasData = await hasScheduleData();
         const hasPDFs = await hasPDFData();
-        const { activeWeek, isCurrentWeek, weekStartDate } = await getActiveWeekInfo();
+        const settings = await loadSettings();
+        const { timezone, operatingHours, teachingDays } = settings;
+        const { activeWeek, isCurrentWeek, weekStartDate } = describeActiveWeek(settings);
+
+        const coverage = await loadDayCoverage();
+        const days = getOpenDays(coverage).filter(open => teachingDays.includes(open));
+
+        // The date searched: today, the date asked for, or the chosen day of the active week
+        const today = todayIn(timezone);
+        const date = freeNow ? today : dateParam || dateInWeek(weekStartDate, day ?? getCurrentDay(timezone), parseISO(today));
+        const versions = hasData ? await getActiveVersions() : [];
+        const resolved = resolveRoomDate(date, {
+            calendar: await loadAcademicCalendar(),
+            coverage,
+            versions,
+            teachingDays
+        });
+        const targetDay = resolved.day;
+        const dayStatus = getDayStatus(coverage, targetDay);
+        const dateMeta = {
+            date,
+            calendar: resolved.calendar,
+            versions: resolved.versions,
+            // Whether any active version has effective dates, so the date decides
+            // rather than the active week setting
+            datedVersions: versions.some(version => version.effective_from || version.effective_to),
+            reason: hasData ? resolved.reason : 'no-timetable',
+        };
 
         if (!hasData) {
             // Return empty results with a message indicating no data
@@ -128,10 +168,15 @@ export async function GET(request: NextRequest) {
                 success: true,
                 data: [],
                 meta: {
-                    day: freeNow ? getCurrentDay() : day,
-                    time: freeNow ? getCurrentTime() : time,
+                    day: targetDay,
+                    ...dateMeta,
+                    days,
+                    dayStatus,
+                    operatingHours,
+                    timezone,
+                    time: freeNow ? getCurrentTime(timezone) : time,
                     minDuration,
-                    currentTime: getCurrentTime(),
+                    currentTime: getCurrentTime(timezone),
                     hasData: false,
                     hasPDFs,
                     message: hasPDFs
@@ -144,24 +189,36 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        // Get schedules from cache
-        const rawSchedules = await getSchedulesFromCache();
-        const schedules = getCompleteSchedules(rawSchedules);
+        // Get the target date's schedules
+        const rawSchedules = await getSchedulesFromCache(resolved);
+        const rooms = await listRooms();
+        const schedules = getCompleteSchedules(rawSchedules, [targetDay], rooms);
 
-        // Find free rooms
-        const targetTime = freeNow ? getCurrentTime() : time;
-        const targetDay = freeNow ? getCurrentDay() : day;
+        // Find free rooms; no term uses the rooms on a closed day, and a closure shuts them all
+        const targetTime = freeNow ? getCurrentTime(timezone) : time;
 
-        const freeRooms = findFreeRooms(schedules, targetDay, targetTime, minDuration);
+        const breaks = (await loadCachedBreaks({ day: targetDay })).filter(window => runsOnDate(resolved, window));
+        const freeRooms = resolved.reason && ROOMLESS_REASONS.includes(resolved.reason)
+            ? []
+            : findFreeRooms(schedules, targetDay, targetTime, minDuration, breaks, { rooms, operatingHours, ...search });
 
         return NextResponse.json({
             success: true,
             data: freeRooms,
             meta: {
                 day: targetDay,
+                ...dateMeta,
+                message: resolved.message,
+                days,
+                dayStatus,
+                operatingHours,
+                timezone,
                 time: targetTime,
                 minDuration,
-                currentTime: getCurrentTime(),
+                ...search,
+                // Registered floors, for the floor filter and preference controls
+                floors: [...new Set(rooms.flatMap(room => room.floor === null ? [] : [room.floor]))].sort((x, y) => x - y),
+                currentTime: getCurrentTime(timezone),
                 hasData: true,
                 hasPDFs: true,
                 totalSchedules: schedules.length,
@@ -180,38 +237,17 @@ export async function GET(request: NextRequest) {
     }
 }
 
-// Clear/Refresh cache endpoint
+// Refresh the live schedule: each semester follows its active versions again
 export async function POST() {
     try {
-        // 1. Clear existing cache
-        await clearScheduleData();
-
-        // 2. Trigger parsing from PDFs
-        // We need to import this dynamically or rely on valid imports
-        // Imported: getSchedulesFromPdfs (returns RoomSchedule[])
-        const schedules = await getSchedulesFromPdfs();
-
-        if (schedules.length > 0) {
-            // 3. Save to cache
-            // We need to match ParsedScheduleEntry type.
-            // RoomSchedule usually matches closely but let's map to be safe
-            // or cast if compatible.
-            // ParsedScheduleEntry slots need batch/subject which RoomSchedule might have.
-            // Let's defer to the types.
+        const liveSlots = await publishSemesters([1, 2], { source: 'parse', note: 'Cache refresh' });
 
-            // Checking imports:
-            // We need to import getSchedulesFromPdfs from '@/lib/pdf-extractor'
-            // We need to import saveParsedSchedules from '@/lib/pdf-parser'
-
-            await saveParsedSchedules(schedules as unknown as ParsedScheduleEntry[]);
-
-            return NextResponse.json({
-                success: true,
-                message: `Cache refreshed. Parsed ${schedules.length} schedules from PDFs.`
-            });
-        }
-
-        return NextResponse.json({ success: true, message: 'Cache cleared. No schedules found in PDFs.' });
+        return NextResponse.json({
+            success: true,
+            message: liveSlots > 0
+                ? `Cache refreshed. ${liveSlots} slots are live from the active timetables.`
+                : 'Cache refreshed. No active timetable has any slots.'
+        });
     } catch (error) {
         console.error('Cache refresh error:', error);
         return NextResponse.json(
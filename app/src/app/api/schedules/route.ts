@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-    importScheduleData,
-    parseScheduleJSON,
+    importScheduleJSON,
     clearScheduleData,
     getAllParsedSchedules,
     getCacheLastUpdated,
@@ -33,7 +32,9 @@ export async function GET() {
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { schedules, merge = true } = body;
+        const { schedules, breaks, merge = true } = body;
+        // Parse previews are committed through here too, and say so
+        const source = body.source === 'parse' ? 'parse' : 'import';
 
         if (!schedules || !Array.isArray(schedules)) {
             return NextResponse.json(
@@ -42,13 +43,17 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const parsedSchedules = parseScheduleJSON(schedules);
-        const result = await importScheduleData(parsedSchedules, merge);
+        // Committed previews carry the version each slot was parsed from
+        const result = await importScheduleJSON({ schedules, breaks }, merge, {
+            source,
+            note: typeof body.note === 'string' ? body.note : undefined
+        });
 
         return NextResponse.json({
             success: true,
             message: `Imported ${result.count} schedule entries`,
-            count: result.count
+            count: result.count,
+            unknownBatches: result.unknownBatches
         });
     } catch (error) {
         console.error('Import schedule data error:', error);
@@ -62,7 +67,7 @@ export async function POST(request: NextRequest) {
 // Clear all schedule data
 export async function DELETE() {
     try {
-        await clearScheduleData();
+        await clearScheduleData({ source: 'editor', note: 'Cleared all schedule data' });
 
         return NextResponse.json({
             success: true,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSettingsRepository, loadSettings, parseSettings, saveSettings } from '@/lib/settings';
+
+const HISTORY_LIMIT = 20;
+
+// Get the settings, the store they live in and their recent changes
+export async function GET() {
+    try {
+        const repository = getSettingsRepository();
+
+        return NextResponse.json({
+            success: true,
+            store: repository.id,
+            settings: await loadSettings(repository),
+            history: await repository.history(HISTORY_LIMIT)
+        });
+    } catch (error) {
+        console.error('Get settings error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to load settings' },
+            { status: 500 }
+        );
+    }
+}
+
+// Change some or all settings; fields left out keep their current values
+export async function PUT(request: NextRequest) {
+    try {
+        const repository = getSettingsRepository();
+        const current = await loadSettings(repository);
+
+        let settings;
+        try {
+            settings = parseSettings({ ...current, ...await request.json() });
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid settings' },
+                { status: 400 }
+            );
+        }
+
+        const change = await saveSettings(settings, repository);
+
+        return NextResponse.json({
+            success: true,
+            settings,
+            change,
+            history: await repository.history(HISTORY_LIMIT),
+            message: change ? `Saved ${change.changedKeys.length} changed settings` : 'Nothing changed'
+        });
+    } catch (error) {
+        console.error('Save settings error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to save settings' },
+            { status: 500 }
+        );
+    }
+}
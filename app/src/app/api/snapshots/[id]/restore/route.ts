@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshot } from '@/lib/schedule-snapshots';
+import { keepKnownVersions } from '@/lib/pdf-versions';
+import { saveParsedSchedules } from '@/lib/pdf-parser';
+
+// Make a snapshot the live schedule again. The restore is itself a write, so it
+// gets a snapshot of its own and can be undone the same way.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        const snapshot = await getSnapshot(id);
+        if (!snapshot) {
+            return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 });
+        }
+
+        // Slots from a version deleted since the snapshot keep their data but lose the link
+        const { schedules, breaks } = await keepKnownVersions(snapshot.schedules, snapshot.breaks);
+
+        await saveParsedSchedules(schedules, breaks, {
+            source: 'restore',
+            note: `Restored snapshot from ${new Date(snapshot.created_at).toISOString()}`
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: `Restored ${snapshot.entry_count} schedule entries (${snapshot.slot_count} slots)`
+        });
+    } catch (error) {
+        console.error('Restore snapshot error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to restore snapshot' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshot } from '@/lib/schedule-snapshots';
+
+// Get one snapshot with its schedules and break windows
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        const snapshot = await getSnapshot(id);
+        if (!snapshot) {
+            return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, snapshot });
+    } catch (error) {
+        console.error('Get snapshot error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to load snapshot' },
+            { status: 500 }
+        );
+    }
+}
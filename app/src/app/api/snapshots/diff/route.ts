@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshot } from '@/lib/schedule-snapshots';
+import { loadCachedSchedules, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { diffSchedules } from '@/lib/schedule-diff';
+
+// "live" stands for the current schedule, so a snapshot can be compared with it
+async function loadSide(id: string): Promise<ParsedScheduleEntry[] | null> {
+    if (id === 'live') return await loadCachedSchedules() || [];
+    return (await getSnapshot(id))?.schedules ?? null;
+}
+
+// Compare two snapshots: what changed going from one to the other
+export async function GET(request: NextRequest) {
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+
+    if (!from || !to) {
+        return NextResponse.json(
+            { success: false, error: 'Both from and to snapshot ids are required' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const [before, after] = await Promise.all([loadSide(from), loadSide(to)]);
+        if (!before || !after) {
+            return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, diff: diffSchedules(before, after) });
+    } catch (error) {
+        console.error('Snapshot diff error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to compare snapshots' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listSnapshots } from '@/lib/schedule-snapshots';
+
+// List schedule snapshots, newest first, without their data
+export async function GET() {
+    try {
+        const snapshots = await listSnapshots();
+        return NextResponse.json({ success: true, snapshots });
+    } catch (error) {
+        console.error('List snapshots error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to list snapshots' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { importScheduleData, parseScheduleJSON, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { getStorage } from '@/lib/storage';
+import { importScheduleJSON } from '@/lib/pdf-parser';
+import { timetableFormat } from '@/lib/timetable-files';
+import { detectParser } from '@/lib/parsers';
+import { loadParseContext, parseTimetableVersion, publishSemester, saveTimetableVersion } from '@/lib/pdf-extractor';
+import { applyVersionAction, canReplaceActive, parseEffectiveRange, registerVersion, type EffectiveRange } from '@/lib/pdf-versions';
 
 export async function POST(request: NextRequest) {
     try {
@@ -12,92 +16,117 @@ export async function POST(request: NextRequest) {
 
             if (body.type === 'schedule-import') {
                 // Import schedule data from JSON
-                const schedules = parseScheduleJSON(body.schedules);
-                const result = await importScheduleData(schedules, body.merge || false);
+                const result = await importScheduleJSON(body, body.merge || false, { source: 'import' });
 
                 return NextResponse.json({
                     success: true,
                     message: `Imported ${result.count} schedule entries`,
-                    count: result.count
+                    count: result.count,
+                    unknownBatches: result.unknownBatches
                 });
             }
 
             return NextResponse.json({ error: 'Invalid JSON import type' }, { status: 400 });
         }
 
-        // Handle PDF file upload
+        // Handle timetable file upload (PDF, CSV, XLSX or schedule JSON)
         const formData = await request.formData();
         const file = formData.get('file') as File;
-        const semester = formData.get('semester') as string;
-        const scheduleDataJson = formData.get('scheduleData') as string | null;
+        const semester = parseInt(formData.get('semester') as string, 10);
 
         if (!file) {
             return NextResponse.json({ error: 'No file provided' }, { status: 400 });
         }
 
-        if (!file.name.endsWith('.pdf')) {
-            return NextResponse.json({ error: 'Only PDF files are allowed' }, { status: 400 });
+        if (!timetableFormat(file.name)) {
+            return NextResponse.json({ error: 'Only PDF, CSV, XLSX or JSON files are allowed' }, { status: 400 });
         }
 
-        if (!semester) {
+        if (semester !== 1 && semester !== 2) {
             return NextResponse.json({ error: 'Semester is required' }, { status: 400 });
         }
 
-        const supabase = await createClient();
+        // Optional dates the timetable applies over, so next week's can be uploaded ahead
+        let range: EffectiveRange;
+        try {
+            range = parseEffectiveRange(formData.get('effectiveFrom'), formData.get('effectiveTo'));
+        } catch (error) {
+            return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid effective dates' }, { status: 400 });
+        }
+
+        // Pick the parser for the layout now, so a file nothing can read is never stored
+        const data = await file.arrayBuffer();
+        const match = await detectParser({ name: file.name, data });
+        if (!match) {
+            return NextResponse.json({ error: `Unsupported layout: ${file.name} does not match any timetable layout this app can read` }, { status: 400 });
+        }
 
-        // Upload to Supabase Storage
+        // Store the file
+        const storage = getStorage();
         const timestamp = Date.now();
         const fileName = `${timestamp}_${file.name}`;
         const filePath = `semester${semester}/${fileName}`;
 
-        const { error: uploadError } = await supabase
-            .storage
-            .from('timetables')
-            .upload(filePath, file, {
-                cacheControl: '3600',
-                upsert: false
-            });
+        await storage.files.write(filePath, file, {
+            contentType: file.type || undefined,
+            metadata: { parser: match.parser.id, confidence: match.confidence }
+        });
+        const publicUrl = await storage.files.url(filePath);
 
-        if (uploadError) {
-            throw new Error(`Storage upload failed: ${uploadError.message}`);
-        }
+        const version = await registerVersion({ semester, name: file.name, filePath, parser: match.parser.id, range });
 
-        // Get public URL
-        const { data: { publicUrl } } = supabase
-            .storage
-            .from('timetables')
-            .getPublicUrl(filePath);
-
-        // If schedule data was provided with the upload, import it
-        let scheduleImportResult = null;
-        if (scheduleDataJson) {
-            try {
-                const scheduleData = JSON.parse(scheduleDataJson);
-                const schedules: ParsedScheduleEntry[] = scheduleData.map((item: { room?: string; day?: string; slots?: Array<{ start?: string; end?: string; batch?: string; subject?: string }> }) => ({
-                    room: String(item.room || ''),
-                    day: String(item.day || ''),
-                    occupied: (item.slots || []).map((slot: { start?: string; end?: string; batch?: string; subject?: string }) => ({
-                        start: String(slot.start || ''),
-                        end: String(slot.end || ''),
-                        batch: slot.batch,
-                        subject: slot.subject,
-                        semester: parseInt(semester)
-                    }))
-                }));
-
-                scheduleImportResult = await importScheduleData(schedules, true);
-            } catch (parseError) {
-                console.warn('Schedule data parsing failed:', parseError);
+        // Parse the new version straight away and store the result against it
+        const parsed = await parseTimetableVersion(
+            { id: version.id, semester, name: fileName },
+            async () => data,
+            await loadParseContext()
+        );
+        const { report } = parsed;
+
+        // A usable upload takes over its dates as active, unless the admin pinned a version there
+        let live = false;
+        let pinned = false;
+        try {
+            await saveTimetableVersion(parsed);
+
+            pinned = !await canReplaceActive(semester, range);
+            if (report.slotCount > 0 && !pinned) {
+                await applyVersionAction(version.id, 'activate');
+                await publishSemester(semester, {
+                    source: 'parse',
+                    note: `Uploaded ${file.name} (semester ${semester})`
+                });
+                live = true;
             }
+        } catch (saveError) {
+            console.error('Saving parsed upload failed:', saveError);
+            report.errors.push(saveError instanceof Error ? saveError.message : 'Failed to save the parsed schedule');
+        }
+
+        const dates = range.from && range.to ? ` for ${range.from} to ${range.to}`
+            : range.from ? ` from ${range.from}`
+                : range.to ? ` until ${range.to}` : '';
+        let message = `${file.name} uploaded (${match.parser.label}): ${report.slotCount} slots parsed and now live${dates}`;
+        if (!live && report.slotCount === 0) {
+            message = `${file.name} uploaded (${match.parser.label}) but no usable slots were parsed: ${report.errors[0] || 'see the diagnostics'}`;
+        } else if (!live && pinned) {
+            message = `${file.name} uploaded (${match.parser.label}) with ${report.slotCount} slots. The pinned version stays active; activate this one to use it.`;
+        } else if (!live) {
+            message = `${file.name} uploaded (${match.parser.label}) but could not go live: ${report.errors[report.errors.length - 1]}`;
         }
 
         return NextResponse.json({
             success: true,
             filePath: publicUrl,
-            message: scheduleImportResult
-                ? `PDF uploaded and ${scheduleImportResult.count} schedule entries imported`
-                : 'PDF uploaded. Schedule data should be imported separately.',
-            schedulesImported: scheduleImportResult?.count || 0
+            versionId: version.id,
+            effectiveFrom: range.from,
+            effectiveTo: range.to,
+            parser: match.parser.id,
+            slotCount: report.slotCount,
+            dayCounts: report.dayCounts,
+            diagnostics: report,
+            live,
+            message
         });
 
     } catch (error) {
@@ -116,13 +145,13 @@ export async function PUT(request: NextRequest) {
 
         if (body.action === 'import') {
             // Import new schedule data
-            const schedules = parseScheduleJSON(body.schedules);
-            const result = await importScheduleData(schedules, body.merge !== false);
+            const result = await importScheduleJSON(body, body.merge !== false, { source: 'import' });
 
             return NextResponse.json({
                 success: true,
                 count: result.count,
-                message: `Imported ${result.count} schedule entries`
+                message: `Imported ${result.count} schedule entries`,
+                unknownBatches: result.unknownBatches
             });
         }
 
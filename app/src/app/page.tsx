@@ -5,28 +5,33 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { DaySelector } from '@/components/DaySelector';
 import { DurationFilter } from '@/components/DurationFilter';
+import { RankingSelect, RoomAttributeFilter } from '@/components/RoomAttributeFilter';
 import { ResultsGrid } from '@/components/RoomCard';
 import {
   WeekIndicator,
+  NoDataForPeriod,
   AlertBanner,
   StatusBadge,
   EmptyState
 } from '@/components/ui/states';
-import { TIME_SLOTS } from '@/types';
-import type { FreeRoom } from '@/types';
+import { OPERATING_HOURS, TIME_SLOTS } from '@/types';
+import type { DayOfWeek, FreeRoom, RoomFilters, RoomRanking, TimeSlot } from '@/types';
+import { dayOfDate, DAY_NAMES } from '@/lib/days';
+import type { DayStatus } from '@/lib/day-coverage';
+import type { CalendarDay } from '@/lib/academic-calendar';
+import type { NoClassesReason } from '@/lib/room-dates';
+import { format, parseISO } from 'date-fns';
 import Link from 'next/link';
 import Image from 'next/image';
-import { RefreshCw, Clock, Calendar, Search, Zap, Info } from 'lucide-react';
+import { RefreshCw, Clock, Calendar, Search, Zap, Info, SlidersHorizontal } from 'lucide-react';
 import { Spotlight } from '@/components/ui/aceternity/spotlight';
 import { Button as MovingButton } from '@/components/ui/aceternity/moving-border';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // --- Utility Functions ---
 
-function getCurrentDay(): string {
-  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thur', 'Fri', 'Sat'];
-  const day = days[new Date().getDay()];
-  return day === 'Sun' || day === 'Sat' ? 'Mon' : day;
+function getToday(): string {
+  return format(new Date(), 'yyyy-MM-dd');
 }
 
 function getCurrentTimeIndex(): number {
@@ -43,32 +48,46 @@ function getCurrentTimeIndex(): number {
   return 0;
 }
 
-function isOutsideOperatingHours(): boolean {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const startMinutes = 9 * 60;
-  const endMinutes = 19 * 60 + 30;
-  return currentMinutes < startMinutes || currentMinutes > endMinutes;
+// HH:mm strings compare in time order
+function isOutsideOperatingHours(currentTime: string, hours: TimeSlot): boolean {
+  return currentTime < hours.start || currentTime > hours.end;
 }
 
-function isWeekend(): boolean {
-  const day = new Date().getDay();
-  return day === 0 || day === 6;
+// "19:30" as "7:30 PM"
+function formatHour(time: string): string {
+  return format(parseISO(`2000-01-01T${time}`), 'h:mm a');
 }
 
-type DataStatus = 'loading' | 'success' | 'empty' | 'error' | 'outside-hours' | 'weekend' | 'no-pdf' | 'no-schedule-week';
+type DataStatus = 'loading' | 'success' | 'empty' | 'error' | 'outside-hours' | 'closed-day' | 'closure' | 'no-timetable' | 'no-pdf' | 'no-schedule-week';
+
+// Banners for dates the server says have no classes; the server writes the message
+const REASON_BANNERS: Partial<Record<NoClassesReason, { type: 'info' | 'warning'; title: string }>> = {
+  'closed-day': { type: 'info', title: 'Closed Day' },
+  holiday: { type: 'info', title: 'Holiday' },
+  exam: { type: 'warning', title: 'Exam Period' },
+  'outside-term': { type: 'info', title: 'No Classes' },
+};
 
 export default function Home() {
-  const [day, setDay] = useState(getCurrentDay());
+  const [date, setDate] = useState(getToday());
+  const day = dayOfDate(parseISO(date));
+  const [days, setDays] = useState<DayOfWeek[] | undefined>(undefined);
+  const [dayStatus, setDayStatus] = useState<DayStatus>('teaching');
+  const [calendarDay, setCalendarDay] = useState<CalendarDay | null>(null);
+  const [reason, setReason] = useState<{ reason: NoClassesReason; message: string | null } | null>(null);
   const [timeIndex, setTimeIndex] = useState(getCurrentTimeIndex());
   const [minDuration, setMinDuration] = useState<number | undefined>(undefined);
+  const [roomFilters, setRoomFilters] = useState<RoomFilters>({});
+  const [rankBy, setRankBy] = useState<RoomRanking>('longest');
+  const [preferredFloor, setPreferredFloor] = useState<number | undefined>(undefined);
+  const [floors, setFloors] = useState<number[]>([]);
   const [freeNow, setFreeNow] = useState(true);
   const [rooms, setRooms] = useState<FreeRoom[]>([]);
   const [loading, setLoading] = useState(true);
 
   const [currentTime, setCurrentTime] = useState('');
+  const [operatingHours, setOperatingHours] = useState<TimeSlot>(OPERATING_HOURS);
   const [activeWeek, setActiveWeek] = useState('');
-  const [weekStartDate, setWeekStartDate] = useState<string | null>(null);
   const [dataStatus, setDataStatus] = useState<DataStatus>('loading');
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
 
@@ -82,13 +101,21 @@ export default function Home() {
       if (freeNow) {
         params.set('freeNow', 'true');
       } else {
-        params.set('day', day);
+        params.set('date', date);
         params.set('time', TIME_SLOTS[timeIndex]);
       }
 
       if (minDuration) {
         params.set('minDuration', minDuration.toString());
       }
+      if (roomFilters.minCapacity !== undefined) params.set('minCapacity', roomFilters.minCapacity.toString());
+      if (roomFilters.type) params.set('type', roomFilters.type);
+      if (roomFilters.floor !== undefined) params.set('floor', roomFilters.floor.toString());
+      if (roomFilters.amenities?.length) params.set('amenities', roomFilters.amenities.join(','));
+      if (rankBy !== 'longest') params.set('rank', rankBy);
+      if (rankBy === 'nearest-floor' && preferredFloor !== undefined) {
+        params.set('preferredFloor', preferredFloor.toString());
+      }
 
       const res = await fetch(`/api/rooms?${params.toString()}`);
       const data = await res.json();
@@ -96,21 +123,36 @@ export default function Home() {
       if (data.success) {
         setRooms(data.data);
         setCurrentTime(data.meta?.currentTime || '');
+        if (data.meta?.operatingHours) {
+          setOperatingHours(data.meta.operatingHours);
+        }
         if (data.meta?.activeWeek) {
           setActiveWeek(data.meta.activeWeek);
         }
-        if (data.meta?.weekStartDate) {
-          setWeekStartDate(data.meta.weekStartDate);
+        if (data.meta?.days) {
+          setDays(data.meta.days);
         }
+        if (data.meta?.floors) {
+          setFloors(data.meta.floors);
+        }
+        setDayStatus(data.meta?.dayStatus || 'teaching');
+        setCalendarDay(data.meta?.calendar || null);
+        setReason(data.meta?.reason ? { reason: data.meta.reason, message: data.meta.message || null } : null);
         setLastRefresh(new Date());
 
         if (data.meta?.hasData === false || data.meta?.hasPDFs === false) {
           setDataStatus(data.meta?.hasPDFs === false ? 'no-pdf' : 'empty');
-        } else if (data.meta?.isCurrentWeek === false) {
+        } else if (!data.meta?.datedVersions && data.meta?.activeWeek && data.meta?.isCurrentWeek === false) {
+          // Dated versions answer for the date searched through its reason; the
+          // active week setting only speaks for undated timetables
           setDataStatus('no-schedule-week');
-        } else if (freeNow && isWeekend()) {
-          setDataStatus('weekend');
-        } else if (freeNow && isOutsideOperatingHours()) {
+        } else if (data.meta?.reason === 'closure') {
+          setDataStatus('closure');
+        } else if (data.meta?.reason === 'closed-day') {
+          setDataStatus('closed-day');
+        } else if (data.meta?.reason === 'no-timetable') {
+          setDataStatus('no-timetable');
+        } else if (freeNow && isOutsideOperatingHours(data.meta?.currentTime || '', data.meta?.operatingHours || OPERATING_HOURS)) {
           setDataStatus('outside-hours');
         } else if (data.data.length === 0) {
           setDataStatus('empty');
@@ -126,7 +168,7 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  }, [day, timeIndex, minDuration, freeNow]);
+  }, [date, timeIndex, minDuration, roomFilters, rankBy, preferredFloor, freeNow]);
 
   useEffect(() => {
     fetchRooms();
@@ -140,7 +182,7 @@ export default function Home() {
 
   const handleFreeNow = () => {
     setFreeNow(true);
-    setDay(getCurrentDay());
+    setDate(getToday());
     setTimeIndex(getCurrentTimeIndex());
   };
 
@@ -151,8 +193,10 @@ export default function Home() {
   const getStatusMessage = () => {
     if (dataStatus === 'no-pdf') return { type: 'warning' as const, title: 'No Timetable Data', message: 'No timetable PDFs have been uploaded yet.' };
     if (dataStatus === 'no-schedule-week') return { type: 'warning' as const, title: 'No Schedule For This Week', message: 'Sorry, there is no schedule available for the current week.' };
-    if (dataStatus === 'weekend') return { type: 'info' as const, title: 'Weekend Hours', message: 'It\'s the weekend! Showing Monday schedule for planning.' };
-    if (dataStatus === 'outside-hours') return { type: 'info' as const, title: 'Outside Operating Hours', message: 'Campus is closed (9:00 AM - 7:30 PM). Showing next available time.' };
+    const banner = reason && REASON_BANNERS[reason.reason];
+    if (reason && banner) return { ...banner, message: reason.message || '' };
+    if (dayStatus === 'contest') return { type: 'info' as const, title: 'Contest Day', message: `${DAY_NAMES[day]} is a contest day, so labs may be in use even when shown free.` };
+    if (dataStatus === 'outside-hours') return { type: 'info' as const, title: 'Outside Operating Hours', message: `Campus is closed (${formatHour(operatingHours.start)} - ${formatHour(operatingHours.end)}). Showing next available time.` };
     return null;
   };
 
@@ -209,6 +253,7 @@ export default function Home() {
                 <div className="flex justify-center">
                   <WeekIndicator
                     week={activeWeek}
+                    calendar={calendarDay || undefined}
                     isCurrent={dataStatus === 'success'}
                     isFallback={dataStatus === 'no-pdf'}
                   />
@@ -273,7 +318,7 @@ export default function Home() {
                         <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 uppercase tracking-wider">
                           <Calendar className="w-4 h-4" /> Select Day
                         </div>
-                        <DaySelector value={day} onChange={setDay} weekStartDate={weekStartDate} />
+                        <DaySelector value={date} onChange={setDate} days={days} />
                       </div>
                       <div className="space-y-4">
                         <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 uppercase tracking-wider">
@@ -283,6 +328,30 @@ export default function Home() {
                       </div>
                     </div>
 
+                    {/* Room Attributes & Ranking */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 sm:gap-10">
+                      <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 uppercase tracking-wider">
+                          <SlidersHorizontal className="w-4 h-4" /> Room Needs
+                        </div>
+                        <RoomAttributeFilter value={roomFilters} floors={floors} onChange={setRoomFilters} />
+                      </div>
+                      <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 uppercase tracking-wider">
+                          <Zap className="w-4 h-4" /> Ranking
+                        </div>
+                        <RankingSelect
+                          value={rankBy}
+                          preferredFloor={preferredFloor}
+                          floors={floors}
+                          onChange={(ranking, floor) => {
+                            setRankBy(ranking);
+                            setPreferredFloor(floor);
+                          }}
+                        />
+                      </div>
+                    </div>
+
                     {/* Time Slots Grid */}
                     <div className="space-y-4">
                       <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 uppercase tracking-wider">
@@ -371,20 +440,27 @@ export default function Home() {
                   description="There was a problem fetching room data. Please try again."
                   action={{ label: 'Retry', onClick: fetchRooms }}
                 />
+              ) : (dataStatus === 'closure' || dataStatus === 'no-timetable') && calendarDay ? (
+                <NoDataForPeriod
+                  period={format(parseISO(calendarDay.date), 'EEEE, MMM d')}
+                  calendar={dataStatus === 'closure' ? calendarDay : undefined}
+                  suggestion={dataStatus === 'no-timetable' ? reason?.message || undefined : undefined}
+                  onRetry={freeNow ? handleManualSearch : undefined}
+                />
               ) : (
                 <ResultsGrid
                   rooms={rooms}
                   loading={loading}
                   emptyMessage={
                     dataStatus === 'no-pdf' ? "No Timetable Data" :
-                      dataStatus === 'weekend' ? "Weekend - Campus Closed" :
+                      dataStatus === 'closed-day' ? `No Classes on ${DAY_NAMES[day]}` :
                         dataStatus === 'outside-hours' ? "Outside Operating Hours" :
                           "No rooms available"
                   }
                   emptyDescription={
                     dataStatus === 'no-pdf' ? "Timetable PDFs haven't been uploaded yet." :
-                      dataStatus === 'weekend' ? "Use 'Custom Time' to check weekday availability." :
-                        dataStatus === 'outside-hours' ? "Operating hours are 9:00 AM - 7:30 PM." :
+                      dataStatus === 'closed-day' ? "Use 'Custom Time' to check another day." :
+                        dataStatus === 'outside-hours' ? `Operating hours are ${formatHour(operatingHours.start)} - ${formatHour(operatingHours.end)}.` :
                           "All classrooms are occupied. Try adjusting your filters."
                   }
                 />
@@ -4,18 +4,21 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { batchColor, tint, UNKNOWN_BATCH_COLOR } from '@/lib/batch-colors';
+import type { Batch, DayOfWeek } from '@/types';
 
 interface TimeSlot {
     start: string;
     end: string;
     subject?: string;
     batch?: string;
+    subBatch?: string;
     semester?: number;
 }
 
 interface ScheduleEntry {
     room: string;
-    day: string;
+    day: DayOfWeek;
     occupied: TimeSlot[];
 }
 
@@ -25,8 +28,6 @@ const TIME_HEADERS = [
     '15:00', '15:30', '16:00', '16:30', '17:00', '17:30'
 ];
 
-const DAYS = ['Mon', 'Tue', 'Wed', 'Thur'];
-
 function timeToMinutes(time: string): number {
     const [h, m] = time.split(':').map(Number);
     return h * 60 + m;
@@ -39,24 +40,16 @@ function isTimeInSlot(time: string, slot: TimeSlot): boolean {
     return t >= start && t < end;
 }
 
-// Batch colors
-const BATCH_COLORS: { [key: string]: string } = {
-    'Hopper': 'bg-purple-500/60',
-    'Turing': 'bg-blue-500/60',
-    'Neumann': 'bg-emerald-500/60',
-    'Ramanujan': 'bg-orange-500/60',
-    'CP': 'bg-pink-500/60',
-    'TIP': 'bg-cyan-500/60',
-};
-
 export default function ScheduleEditorPage() {
     const [schedules, setSchedules] = useState<ScheduleEntry[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedRoom, setSelectedRoom] = useState('401');
-    const [editingCell, setEditingCell] = useState<{ day: string; time: string } | null>(null);
-    const [editForm, setEditForm] = useState({ batch: '', subject: '', endTime: '', semester: 2 });
+    const [editingCell, setEditingCell] = useState<{ day: DayOfWeek; time: string } | null>(null);
+    const [editForm, setEditForm] = useState({ batch: '', subBatch: '', subject: '', endTime: '', semester: 2 });
     const [rooms, setRooms] = useState<string[]>([]);
-    const [batches, setBatches] = useState<string[]>([]);
+    const [days, setDays] = useState<DayOfWeek[]>([]);
+    const [batches, setBatches] = useState<Batch[]>([]);
+    const [unknownBatches, setUnknownBatches] = useState<string[]>([]);
 
     useEffect(() => {
         fetchSchedules();
@@ -70,7 +63,9 @@ export default function ScheduleEditorPage() {
             if (data.status === 'success') {
                 setSchedules(data.data.raw);
                 setRooms(data.summary.rooms);
-                setBatches(data.summary.batches);
+                setDays(data.summary.days);
+                setBatches(data.data.batches);
+                setUnknownBatches(data.summary.unknownBatches);
                 if (data.summary.rooms.length > 0 && !data.summary.rooms.includes(selectedRoom)) {
                     setSelectedRoom(data.summary.rooms[0]);
                 }
@@ -81,13 +76,25 @@ export default function ScheduleEditorPage() {
         setLoading(false);
     };
 
-    const getSlotForTime = (room: string, day: string, time: string): TimeSlot | null => {
+    // Sub-batches are listed under their parent batch
+    const topLevelBatches = batches.filter(batch => !batch.parent);
+    const subBatchesOf = (name: string) => batches.filter(batch => batch.parent === name);
+
+    // Picking a sub-batch also sets its parent as the slot's batch
+    const selectBatch = (name: string) => {
+        const parent = batches.find(batch => batch.name === name)?.parent;
+        setEditForm(parent
+            ? { ...editForm, batch: parent, subBatch: name }
+            : { ...editForm, batch: name, subBatch: '' });
+    };
+
+    const getSlotForTime = (room: string, day: DayOfWeek, time: string): TimeSlot | null => {
         const entry = schedules.find(s => s.room === room && s.day === day);
         if (!entry) return null;
         return entry.occupied.find(slot => isTimeInSlot(time, slot)) || null;
     };
 
-    const getSlotInfo = (room: string, day: string, time: string): { slot: TimeSlot | null; isStart: boolean } => {
+    const getSlotInfo = (room: string, day: DayOfWeek, time: string): { slot: TimeSlot | null; isStart: boolean } => {
         const entry = schedules.find(s => s.room === room && s.day === day);
         if (!entry) return { slot: null, isStart: false };
         const slot = entry.occupied.find(s => isTimeInSlot(time, s));
@@ -95,12 +102,13 @@ export default function ScheduleEditorPage() {
         return { slot: slot || null, isStart };
     };
 
-    const handleCellClick = (day: string, time: string) => {
+    const handleCellClick = (day: DayOfWeek, time: string) => {
         setEditingCell({ day, time });
         const slot = getSlotForTime(selectedRoom, day, time);
         if (slot) {
             setEditForm({
                 batch: slot.batch || '',
+                subBatch: slot.subBatch || '',
                 subject: slot.subject || '',
                 endTime: slot.end || '',
                 semester: slot.semester || 2
@@ -108,7 +116,7 @@ export default function ScheduleEditorPage() {
         } else {
             const timeIdx = TIME_HEADERS.indexOf(time);
             const nextTime = TIME_HEADERS[Math.min(timeIdx + 2, TIME_HEADERS.length - 1)];
-            setEditForm({ batch: '', subject: '', endTime: nextTime, semester: 2 });
+            setEditForm({ batch: '', subBatch: '', subject: '', endTime: nextTime, semester: 2 });
         }
     };
 
@@ -131,6 +139,7 @@ export default function ScheduleEditorPage() {
                 start: time,
                 end: editForm.endTime || TIME_HEADERS[TIME_HEADERS.indexOf(time) + 2] || '18:00',
                 batch: editForm.batch,
+                subBatch: editForm.subBatch || undefined,
                 subject: editForm.subject,
                 semester: editForm.semester
             });
@@ -216,13 +225,13 @@ export default function ScheduleEditorPage() {
                     </Card>
                     <Card className="bg-gradient-to-br from-amber-600/20 to-orange-600/20 border-amber-500/30">
                         <CardContent className="p-4 text-center">
-                            <p className="text-3xl font-bold text-white">{DAYS.length}</p>
+                            <p className="text-3xl font-bold text-white">{days.length}</p>
                             <p className="text-sm text-slate-400">Days</p>
                         </CardContent>
                     </Card>
                     <Card className="bg-gradient-to-br from-rose-600/20 to-pink-600/20 border-rose-500/30">
                         <CardContent className="p-4 text-center">
-                            <p className="text-3xl font-bold text-white">{batches.length}</p>
+                            <p className="text-3xl font-bold text-white">{topLevelBatches.length}</p>
                             <p className="text-sm text-slate-400">Batches</p>
                         </CardContent>
                     </Card>
@@ -233,12 +242,23 @@ export default function ScheduleEditorPage() {
                     <CardContent className="p-4">
                         <div className="flex flex-wrap gap-3 items-center">
                             <span className="text-sm text-slate-400">Batches:</span>
-                            {batches.map(batch => (
-                                <div key={batch} className="flex items-center gap-1.5">
-                                    <div className={`w-3 h-3 rounded ${BATCH_COLORS[batch] || 'bg-gray-500/60'}`}></div>
-                                    <span className="text-sm text-slate-300">{batch}</span>
+                            {topLevelBatches.map(batch => (
+                                <div key={batch.name} className="flex items-center gap-1.5">
+                                    <div className="w-3 h-3 rounded" style={{ backgroundColor: tint(batch.color, 0.6) }}></div>
+                                    <span className="text-sm text-slate-300">{batch.name}</span>
+                                    {subBatchesOf(batch.name).length > 0 && (
+                                        <span className="text-xs text-slate-500">
+                                            ({subBatchesOf(batch.name).map(sub => sub.name).join(', ')})
+                                        </span>
+                                    )}
                                 </div>
                             ))}
+                            {unknownBatches.length > 0 && (
+                                <div className="flex items-center gap-1.5" title="Used by the timetable but missing from the batch registry">
+                                    <div className="w-3 h-3 rounded" style={{ backgroundColor: tint(UNKNOWN_BATCH_COLOR, 0.6) }}></div>
+                                    <span className="text-sm text-red-300">Unknown: {unknownBatches.join(', ')}</span>
+                                </div>
+                            )}
                         </div>
                     </CardContent>
                 </Card>
@@ -296,7 +316,7 @@ export default function ScheduleEditorPage() {
                                     </tr>
                                 </thead>
                                 <tbody>
-                                    {DAYS.map(day => (
+                                    {days.map(day => (
                                         <tr key={day} className="border-b border-white/5">
                                             <td className="p-3 font-medium text-white sticky left-0 bg-slate-800/90 backdrop-blur">
                                                 {day}
@@ -306,7 +326,7 @@ export default function ScheduleEditorPage() {
                                                 const occupied = slot !== null;
                                                 const isLunch = time >= '12:30' && time < '13:30';
                                                 const isEditing = editingCell?.day === day && editingCell?.time === time;
-                                                const batchColor = slot?.batch ? BATCH_COLORS[slot.batch] || 'bg-red-500/60' : '';
+                                                const color = slot ? tint(batchColor(batches, slot.batch, slot.subBatch), 0.6) : undefined;
 
                                                 return (
                                                     <td
@@ -317,9 +337,10 @@ export default function ScheduleEditorPage() {
                                                                 : isLunch
                                                                     ? 'bg-amber-500/20 cursor-not-allowed'
                                                                     : occupied
-                                                                        ? `${batchColor} hover:opacity-80`
+                                                                        ? 'hover:opacity-80'
                                                                         : 'bg-emerald-500/20 hover:bg-emerald-500/40'
                                                             }`}
+                                                        style={occupied && !isEditing && !isLunch ? { backgroundColor: color } : undefined}
                                                         title={slot ? `${slot.batch || 'Unknown'}: ${slot.subject || 'Class'} (${slot.start}-${slot.end})` : 'Free - Click to add'}
                                                     >
                                                         {occupied && !isLunch && isStart && (
@@ -361,14 +382,17 @@ export default function ScheduleEditorPage() {
                                 <div>
                                     <label className="block text-sm text-slate-300 mb-1">Batch</label>
                                     <select
-                                        value={editForm.batch}
-                                        onChange={e => setEditForm({ ...editForm, batch: e.target.value })}
+                                        value={editForm.subBatch || editForm.batch}
+                                        onChange={e => selectBatch(e.target.value)}
                                         className="w-full bg-slate-800 border border-white/20 rounded-lg p-2 text-white"
                                     >
                                         <option value="">Select Batch</option>
-                                        {batches.map(b => (
-                                            <option key={b} value={b}>{b}</option>
-                                        ))}
+                                        {topLevelBatches.flatMap(b => [
+                                            <option key={b.name} value={b.name}>{b.name}</option>,
+                                            ...subBatchesOf(b.name).map(sub => (
+                                                <option key={sub.name} value={sub.name}>{'\u00a0\u00a0'}↳ {sub.name}</option>
+                                            ))
+                                        ])}
                                         <option value="Custom">Custom...</option>
                                     </select>
                                 </div>
@@ -449,7 +473,7 @@ export default function ScheduleEditorPage() {
                                 <thead>
                                     <tr className="bg-white/5">
                                         <th className="p-3 text-left text-sm font-medium text-slate-400 border-b border-white/10">Room</th>
-                                        {DAYS.map(day => (
+                                        {days.map(day => (
                                             <th key={day} className="p-3 text-center text-sm font-medium text-slate-400 border-b border-white/10">{day}</th>
                                         ))}
                                     </tr>
@@ -466,7 +490,7 @@ export default function ScheduleEditorPage() {
                                                     {room}
                                                 </Badge>
                                             </td>
-                                            {DAYS.map(day => {
+                                            {days.map(day => {
                                                 const entry = schedules.find(s => s.room === room && s.day === day);
                                                 const slots = entry?.occupied || [];
                                                 return (
@@ -474,7 +498,11 @@ export default function ScheduleEditorPage() {
                                                         {slots.length > 0 ? (
                                                             <div className="space-y-1">
                                                                 {slots.slice(0, 3).map((slot, idx) => (
-                                                                    <div key={idx} className={`text-xs ${BATCH_COLORS[slot.batch || ''] || 'bg-gray-500/30'} text-white rounded px-2 py-0.5`}>
+                                                                    <div
+                                                                        key={idx}
+                                                                        className="text-xs text-white rounded px-2 py-0.5"
+                                                                        style={{ backgroundColor: tint(batchColor(batches, slot.batch, slot.subBatch), 0.6) }}
+                                                                    >
                                                                         {slot.batch?.substring(0, 3)} {slot.start}-{slot.end}
                                                                     </div>
                                                                 ))}
@@ -2,63 +2,79 @@
 
 import { Button } from '@/components/ui/button';
 import { format, addDays, parseISO, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ALL_DAYS, dayOfDate } from '@/lib/days';
+import type { DayOfWeek } from '@/types';
 
 interface DaySelectorProps {
-    value: string;
-    onChange: (day: string) => void;
-    weekStartDate?: string | null;
+    value: string;                      // selected date, YYYY-MM-DD
+    onChange: (date: string) => void;
+    days?: DayOfWeek[];                 // open days from the day coverage settings
 }
 
-const DAYS = [
-    { short: 'Mon', full: 'Monday', offset: 0 },
-    { short: 'Tue', full: 'Tuesday', offset: 1 },
-    { short: 'Wed', full: 'Wednesday', offset: 2 },
-    { short: 'Thur', full: 'Thursday', offset: 3 },
-    { short: 'Fri', full: 'Friday', offset: 4 },
-];
+const WEEKDAYS = ALL_DAYS.slice(0, 5);
 
-export function DaySelector({ value, onChange, weekStartDate }: DaySelectorProps) {
-    const getDayDate = (offset: number) => {
-        if (!weekStartDate) return null;
-        try {
-            // weekStartDate is expected to be Monday of the active week
-            // But just in case, we ensure we work from that date
-            const start = parseISO(weekStartDate);
-            return addDays(start, offset);
-        } catch (e) {
-            return null;
-        }
-    };
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Picks a date: the open days of the selected date's week, with arrows to
+// move a week back or forward keeping the same weekday
+export function DaySelector({ value, onChange, days = WEEKDAYS }: DaySelectorProps) {
+    const selected = parseISO(value);
+    const monday = startOfWeek(selected, { weekStartsOn: 1 });
+    const shownDays = days.includes(dayOfDate(selected)) ? days : [...days, dayOfDate(selected)];
 
     return (
-        <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
-            {DAYS.map((day) => {
-                const date = getDayDate(day.offset);
-                const isSelected = value === day.short;
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-zinc-500">
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(toISODate(addDays(selected, -7)))}
+                    className="h-7 w-7 text-zinc-400 hover:text-white hover:bg-zinc-800/50"
+                    aria-label="Previous week"
+                >
+                    <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                    Week of {format(monday, 'MMM d, yyyy')}
+                </span>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(toISODate(addDays(selected, 7)))}
+                    className="h-7 w-7 text-zinc-400 hover:text-white hover:bg-zinc-800/50"
+                    aria-label="Next week"
+                >
+                    <ChevronRight className="h-4 w-4" />
+                </Button>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+                {ALL_DAYS.filter(day => shownDays.includes(day)).map((day) => {
+                    const date = addDays(monday, ALL_DAYS.indexOf(day));
+                    const isSelected = toISODate(date) === value;
 
-                return (
-                    <Button
-                        key={day.short}
-                        variant={isSelected ? 'default' : 'outline'}
-                        size="sm"
-                        onClick={() => onChange(day.short)}
-                        className={
-                            isSelected
-                                ? 'bg-gradient-to-r from-emerald-600 to-teal-600 border-0 min-w-[70px] h-auto py-2 flex-col gap-0.5'
-                                : 'hover:bg-zinc-800/50 min-w-[70px] h-auto py-2 flex-col gap-0.5 border-zinc-800 bg-zinc-900/30 text-zinc-400'
-                        }
-                    >
-                        <span className={`text-sm font-semibold ${isSelected ? 'text-white' : 'text-zinc-300'}`}>
-                            {day.short}
-                        </span>
-                        {date && (
+                    return (
+                        <Button
+                            key={day}
+                            variant={isSelected ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => onChange(toISODate(date))}
+                            className={
+                                isSelected
+                                    ? 'bg-gradient-to-r from-emerald-600 to-teal-600 border-0 min-w-[70px] h-auto py-2 flex-col gap-0.5'
+                                    : 'hover:bg-zinc-800/50 min-w-[70px] h-auto py-2 flex-col gap-0.5 border-zinc-800 bg-zinc-900/30 text-zinc-400'
+                            }
+                        >
+                            <span className={`text-sm font-semibold ${isSelected ? 'text-white' : 'text-zinc-300'}`}>
+                                {day}
+                            </span>
                             <span className={`text-[10px] ${isSelected ? 'text-emerald-100' : 'text-zinc-500'}`}>
                                 {format(date, 'MMM d')}
                             </span>
-                        )}
-                    </Button>
-                );
-            })}
+                        </Button>
+                    );
+                })}
+            </div>
         </div>
     );
 }
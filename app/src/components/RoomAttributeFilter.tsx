@@ -0,0 +1,124 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { AMENITY_LABELS, ROOM_AMENITIES, ROOM_RANKINGS, ROOM_TYPES } from '@/types';
+import type { RoomAmenity, RoomFilters, RoomRanking, RoomType } from '@/types';
+
+const CAPACITY_OPTIONS = [
+    { label: 'Any', value: undefined },
+    { label: '20+', value: 20 },
+    { label: '30+', value: 30 },
+    { label: '50+', value: 50 },
+];
+
+function optionClass(selected: boolean): string {
+    return selected
+        ? 'bg-gradient-to-r from-indigo-600 to-purple-600 border-0'
+        : 'hover:bg-slate-100 dark:hover:bg-slate-800';
+}
+
+interface OptionRowProps<T> {
+    label: string;
+    options: { label: string; value: T }[];
+    isSelected: (value: T) => boolean;
+    onSelect: (value: T) => void;
+}
+
+function OptionRow<T>({ label, options, isSelected, onSelect }: OptionRowProps<T>) {
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-zinc-500 uppercase tracking-wider">{label}</p>
+            <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                    <Button
+                        key={option.label}
+                        variant={isSelected(option.value) ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => onSelect(option.value)}
+                        className={optionClass(isSelected(option.value))}
+                    >
+                        {option.label}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface RoomAttributeFilterProps {
+    value: RoomFilters;
+    floors: number[];     // registered floors
+    onChange: (value: RoomFilters) => void;
+}
+
+// Seats, room type, floor and amenities a free room must have
+export function RoomAttributeFilter({ value, floors, onChange }: RoomAttributeFilterProps) {
+    const amenities = value.amenities || [];
+
+    const toggleAmenity = (amenity: RoomAmenity) => {
+        onChange({
+            ...value,
+            amenities: amenities.includes(amenity) ? amenities.filter(a => a !== amenity) : [...amenities, amenity]
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <OptionRow
+                label="Seats"
+                options={CAPACITY_OPTIONS}
+                isSelected={option => value.minCapacity === option}
+                onSelect={minCapacity => onChange({ ...value, minCapacity })}
+            />
+            <OptionRow<RoomType | undefined>
+                label="Room type"
+                options={[{ label: 'Any', value: undefined }, ...ROOM_TYPES.map(type => ({ label: type.charAt(0).toUpperCase() + type.slice(1), value: type }))]}
+                isSelected={option => value.type === option}
+                onSelect={type => onChange({ ...value, type })}
+            />
+            {floors.length > 0 && (
+                <OptionRow<number | undefined>
+                    label="Floor"
+                    options={[{ label: 'Any', value: undefined }, ...floors.map(floor => ({ label: `Floor ${floor}`, value: floor }))]}
+                    isSelected={option => value.floor === option}
+                    onSelect={floor => onChange({ ...value, floor })}
+                />
+            )}
+            <OptionRow<RoomAmenity>
+                label="Has"
+                options={ROOM_AMENITIES.map(amenity => ({ label: AMENITY_LABELS[amenity], value: amenity }))}
+                isSelected={amenity => amenities.includes(amenity)}
+                onSelect={toggleAmenity}
+            />
+        </div>
+    );
+}
+
+interface RankingSelectProps {
+    value: RoomRanking;
+    preferredFloor: number | undefined;
+    floors: number[];
+    onChange: (value: RoomRanking, preferredFloor: number | undefined) => void;
+}
+
+// How to order the results, with the floor to stay near for "Nearest floor"
+export function RankingSelect({ value, preferredFloor, floors, onChange }: RankingSelectProps) {
+    return (
+        <div className="space-y-4">
+            <OptionRow
+                label="Sort by"
+                options={ROOM_RANKINGS.filter(ranking => ranking.value !== 'nearest-floor' || floors.length > 0)}
+                isSelected={ranking => value === ranking}
+                onSelect={ranking => onChange(ranking, ranking === 'nearest-floor' ? preferredFloor ?? floors[0] : preferredFloor)}
+            />
+            {value === 'nearest-floor' && floors.length > 0 && (
+                <OptionRow
+                    label="Preferred floor"
+                    options={floors.map(floor => ({ label: `Floor ${floor}`, value: floor }))}
+                    isSelected={floor => preferredFloor === floor}
+                    onSelect={floor => onChange(value, floor)}
+                />
+            )}
+        </div>
+    );
+}
@@ -3,7 +3,7 @@
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { EmptyState, RoomCardSkeletonGrid, semanticColors } from '@/components/ui/states';
-import type { FreeRoom } from '@/types';
+import { AMENITY_LABELS, type FreeRoom, type Room } from '@/types';
 import { cn } from '@/lib/utils';
 
 interface RoomCardProps {
@@ -60,6 +60,16 @@ function getDurationStyle(duration: number): {
     };
 }
 
+// "Main block · Floor 5 · 60 seats · Lab"
+function describeRoom(details: Room): string {
+    return [
+        details.building,
+        details.floor !== null && `Floor ${details.floor}`,
+        details.capacity !== null && `${details.capacity} seats`,
+        details.type !== 'lecture' && details.type.charAt(0).toUpperCase() + details.type.slice(1)
+    ].filter(Boolean).join(' · ');
+}
+
 export function RoomCard({ room }: RoomCardProps) {
     const style = getDurationStyle(room.duration);
 
@@ -85,6 +95,23 @@ export function RoomCard({ room }: RoomCardProps) {
                     </Badge>
                 </div>
 
+                {room.details && (describeRoom(room.details) || room.details.amenities.length > 0) && (
+                    <div className="mb-4 space-y-2">
+                        {describeRoom(room.details) && (
+                            <p className="text-xs text-slate-400">{describeRoom(room.details)}</p>
+                        )}
+                        {room.details.amenities.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {room.details.amenities.map(amenity => (
+                                    <Badge key={amenity} variant="outline" className="text-[10px] border-white/15 text-slate-300">
+                                        {AMENITY_LABELS[amenity]}
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 <div className="flex items-center gap-3">
                     <div className="flex-1 bg-slate-800/60 rounded-xl p-3 border border-white/5">
                         <p className="text-xs text-slate-400 uppercase tracking-wider mb-1">From</p>
@@ -101,6 +128,22 @@ export function RoomCard({ room }: RoomCardProps) {
                         <p className="text-xl font-bold text-rose-400">{room.freeTill}</p>
                     </div>
                 </div>
+
+                {room.nextSession && (room.nextSession.subject || room.nextSession.batch) && (
+                    <p className="mt-3 text-xs text-slate-400 truncate">
+                        Next: <span className="text-slate-200 font-medium">
+                            {[room.nextSession.subject, room.nextSession.type].filter(Boolean).join(' ') || 'Class'}
+                        </span>
+                        {room.nextSession.batch && ` · ${room.nextSession.batch}`}
+                        {room.nextSession.subBatch && ` (${room.nextSession.subBatch})`}
+                    </p>
+                )}
+
+                {room.breaks && room.breaks.length > 0 && (
+                    <p className="mt-1 text-xs text-amber-300/80 truncate">
+                        {room.breaks.map(brk => `${brk.kind} for ${brk.batch} ${brk.start}-${brk.end}`).join(' · ')}
+                    </p>
+                )}
             </CardContent>
         </Card>
     );
@@ -4,19 +4,25 @@ import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { Button } from '@/components/ui/button';
-import { LayoutDashboard, FileText } from 'lucide-react';
-import type { User } from '@supabase/supabase-js';
+import { LayoutDashboard, FileText, Tags, CalendarDays, CalendarRange, History, DoorOpen, Users, Settings } from 'lucide-react';
 
 interface AdminNavProps {
-    user: User;
+    email: string | null;   // null on the local backend, where nobody signs in
 }
 
 const navItems = [
     { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/admin/pdf-management', label: 'PDF Management', icon: FileText },
+    { href: '/admin/rooms', label: 'Rooms', icon: DoorOpen },
+    { href: '/admin/batches', label: 'Batches', icon: Users },
+    { href: '/admin/room-aliases', label: 'Room Aliases', icon: Tags },
+    { href: '/admin/day-coverage', label: 'Day Coverage', icon: CalendarDays },
+    { href: '/admin/calendar', label: 'Calendar', icon: CalendarRange },
+    { href: '/admin/snapshots', label: 'History', icon: History },
+    { href: '/admin/settings', label: 'Settings', icon: Settings },
 ];
 
-export default function AdminNav({ user }: AdminNavProps) {
+export default function AdminNav({ email }: AdminNavProps) {
     const router = useRouter();
     const pathname = usePathname();
 
@@ -75,16 +81,18 @@ export default function AdminNav({ user }: AdminNavProps) {
 
                     <div className="flex items-center gap-4">
                         <span className="text-sm text-slate-400 hidden sm:block">
-                            {user.email}
+                            {email ?? 'Local mode'}
                         </span>
-                        <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={handleSignOut}
-                            className="border-white/20 text-white hover:bg-white/10"
-                        >
-                            Sign Out
-                        </Button>
+                        {email !== null && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleSignOut}
+                                className="border-white/20 text-white hover:bg-white/10"
+                            >
+                                Sign Out
+                            </Button>
+                        )}
                     </div>
                 </div>
 
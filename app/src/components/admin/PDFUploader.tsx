@@ -4,6 +4,7 @@ import { useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { isTimetableFile, TIMETABLE_EXTENSIONS } from '@/lib/timetable-files';
 
 interface PDFUploaderProps {
     semester: number;
@@ -27,15 +28,17 @@ export default function PDFUploader({
     const [uploading, setUploading] = useState(false);
     const [dragOver, setDragOver] = useState(false);
     const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
 
     const handleUpload = useCallback(async (file: File) => {
-        if (!file.name.endsWith('.pdf')) {
-            setError('Only PDF files are allowed');
+        if (!isTimetableFile(file.name)) {
+            setError('Only PDF, CSV, XLSX or JSON files are allowed');
             return;
         }
 
         setUploading(true);
         setError('');
+        setNotice('');
 
         try {
             // Create form data for upload
@@ -55,8 +58,12 @@ export default function PDFUploader({
                 throw new Error(result.error || 'Upload failed');
             }
 
-            // Clear the rooms cache so new PDF data is used
-            await fetch('/api/rooms', { method: 'POST' });
+            // The upload is parsed straight away; an upload with no usable slots is an error to fix
+            if (result.live) {
+                setNotice(result.message);
+            } else {
+                setError(result.message);
+            }
 
             onUploadComplete();
         } catch (err: unknown) {
@@ -124,6 +131,12 @@ export default function PDFUploader({
                     </div>
                 )}
 
+                {notice && (
+                    <div className="mb-4 p-3 rounded-lg bg-green-500/20 text-green-200 text-sm border border-green-500/30">
+                        {notice}
+                    </div>
+                )}
+
                 <div
                     onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
                     onDragLeave={() => setDragOver(false)}
@@ -139,7 +152,7 @@ export default function PDFUploader({
                 >
                     <input
                         type="file"
-                        accept=".pdf"
+                        accept={TIMETABLE_EXTENSIONS.join(',')}
                         onChange={handleFileSelect}
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                         disabled={uploading}
@@ -151,7 +164,7 @@ export default function PDFUploader({
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                             </svg>
-                            <p className="text-sm text-slate-300">Uploading...</p>
+                            <p className="text-sm text-slate-300">Uploading and parsing...</p>
                         </div>
                     ) : (
                         <>
@@ -161,10 +174,10 @@ export default function PDFUploader({
                                 </svg>
                             </div>
                             <p className="text-sm text-slate-300 mb-1">
-                                Drag & drop a PDF or click to browse
+                                Drag & drop a PDF or spreadsheet, or click to browse
                             </p>
                             <p className="text-xs text-slate-500">
-                                {currentPdf ? 'Upload a new file to replace the current one' : 'PDF files only (class + lab timetable)'}
+                                {currentPdf ? 'Upload a new file to replace the current one' : 'PDF, CSV, XLSX or schedule JSON (class + lab timetable)'}
                             </p>
                         </>
                     )}
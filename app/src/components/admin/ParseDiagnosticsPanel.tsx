@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { ParseDiagnostics } from '@/lib/parse-diagnostics';
+
+const MAX_LISTED = 50;
+
+// Collapsible list of one kind of issue
+function IssueList({ title, items }: { title: string; items: string[] }) {
+    if (items.length === 0) return null;
+
+    return (
+        <details className="rounded-lg bg-white/5 border border-white/10">
+            <summary className="cursor-pointer px-3 py-2 text-sm text-slate-300 flex items-center justify-between">
+                <span>{title}</span>
+                <Badge variant="outline" className="border-amber-500/40 text-amber-300">{items.length}</Badge>
+            </summary>
+            <ul className="px-3 pb-3 space-y-1 text-xs text-slate-400 font-mono">
+                {items.slice(0, MAX_LISTED).map((item, index) => (
+                    <li key={index} className="truncate" title={item}>{item}</li>
+                ))}
+                {items.length > MAX_LISTED && (
+                    <li className="text-slate-500">+{items.length - MAX_LISTED} more</li>
+                )}
+            </ul>
+        </details>
+    );
+}
+
+function ReportCard({ report }: { report: ParseDiagnostics }) {
+    const unknownBatches = report.unknownBatches || [];
+    const issueCount = report.unmatchedText.length + report.rejectedRooms.length
+        + report.cellsWithoutRooms.length + report.cellsWithoutTime.length + unknownBatches.length;
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/50 border border-white/10 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <p className="text-sm font-medium text-white">Semester {report.semester} · {report.pdfName}</p>
+                    <p className="text-xs text-slate-500">
+                        Parsed {new Date(report.parsedAt).toLocaleString()}
+                        {report.parser && ` · ${report.parser} parser`}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Badge className="bg-indigo-600">{report.slotCount} slots</Badge>
+                    {report.errors.length > 0 ? (
+                        <Badge className="bg-red-500">Failed</Badge>
+                    ) : issueCount > 0 ? (
+                        <Badge className="bg-amber-500">{issueCount} to review</Badge>
+                    ) : (
+                        <Badge className="bg-green-500">Clean</Badge>
+                    )}
+                </div>
+            </div>
+
+            {report.errors.map((error, index) => (
+                <p key={index} className="text-sm text-red-400">✗ {error}</p>
+            ))}
+
+            {Object.keys(report.dayCounts).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {Object.entries(report.dayCounts).map(([day, count]) => (
+                        <Badge key={day} variant="outline" className="border-white/20 text-slate-300">
+                            {day}: {count}
+                        </Badge>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <IssueList
+                    title="Unmatched text"
+                    items={report.unmatchedText.map(t => `p${t.page} · ${t.reason}: ${t.text}`)}
+                />
+                <IssueList
+                    title="Rejected rooms"
+                    items={report.rejectedRooms.map(r => `${r.room} · ${r.reason}: ${r.text}`)}
+                />
+                <IssueList
+                    title="Batches not in the registry"
+                    items={unknownBatches}
+                />
+                <IssueList
+                    title="Cells without a room"
+                    items={report.cellsWithoutRooms.map(c => `${c.day} ${c.batch}: ${c.text}`)}
+                />
+                <IssueList
+                    title="Cells without a time"
+                    items={report.cellsWithoutTime.map(c => `${c.day} ${c.batch}: ${c.text}`)}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default function ParseDiagnosticsPanel() {
+    const [reports, setReports] = useState<ParseDiagnostics[]>([]);
+    const [unparsed, setUnparsed] = useState<{ semester: number; pdfName: string }[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetch('/api/diagnostics')
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setReports(data.reports);
+                    setUnparsed(data.unparsed);
+                }
+            })
+            .catch(error => console.error('Failed to fetch diagnostics:', error))
+            .finally(() => setLoading(false));
+    }, []);
+
+    if (loading || (reports.length === 0 && unparsed.length === 0)) return null;
+
+    return (
+        <Card className="bg-white/5 border-white/10">
+            <CardHeader>
+                <CardTitle className="text-white">Parse Diagnostics</CardTitle>
+                <CardDescription className="text-slate-400">
+                    Text from the active PDFs that did not become a schedule entry
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {reports.map(report => (
+                    <ReportCard key={`${report.semester}-${report.pdfName}`} report={report} />
+                ))}
+                {unparsed.map(pdf => (
+                    <p key={`${pdf.semester}-${pdf.pdfName}`} className="text-sm text-slate-400">
+                        Semester {pdf.semester} · {pdf.pdfName} has not been parsed yet
+                    </p>
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
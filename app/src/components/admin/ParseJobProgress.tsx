@@ -0,0 +1,90 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
+import type { ParseJob, ParseJobStatus } from '@/lib/parse-jobs';
+import type { ParseFileStatus } from '@/lib/pdf-extractor';
+
+const JOB_BADGES: Record<ParseJobStatus, { label: string; className: string }> = {
+    queued: { label: 'Queued', className: 'bg-slate-500' },
+    running: { label: 'Running', className: 'bg-indigo-600' },
+    succeeded: { label: 'Done', className: 'bg-green-500' },
+    failed: { label: 'Failed', className: 'bg-red-500' },
+};
+
+function FileStatusIcon({ status }: { status: ParseFileStatus }) {
+    switch (status) {
+        case 'parsing':
+            return <Loader2 className="h-4 w-4 text-indigo-400 animate-spin" />;
+        case 'done':
+            return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+        case 'failed':
+            return <XCircle className="h-4 w-4 text-red-400" />;
+        default:
+            return <Circle className="h-4 w-4 text-slate-500" />;
+    }
+}
+
+interface ParseJobProgressProps {
+    job: ParseJob;
+    rerunning: boolean;
+    onRerun: () => void;
+}
+
+// Status of the latest parse job and each file it reads
+export default function ParseJobProgress({ job, rerunning, onRerun }: ParseJobProgressProps) {
+    const active = job.status === 'queued' || job.status === 'running';
+    const badge = JOB_BADGES[job.status];
+    const finishedFiles = job.files.filter(file => file.status === 'done' || file.status === 'failed').length;
+
+    return (
+        <Card className="bg-white/5 border-white/10 w-full max-w-xl">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-white text-base">{job.dryRun ? 'Preview' : 'Parse'} job</CardTitle>
+                    <Badge className={badge.className}>{badge.label}</Badge>
+                </div>
+                <CardDescription className="text-slate-400">
+                    Started {new Date(job.createdAt).toLocaleString()}
+                    {job.files.length > 0 && ` · ${finishedFiles} of ${job.files.length} files read`}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {job.files.length === 0 && active && (
+                    <p className="text-sm text-slate-400">Looking up the active files...</p>
+                )}
+                <ul className="space-y-2">
+                    {job.files.map(file => (
+                        <li key={`${file.semester}-${file.name}`} className="flex items-start gap-3 text-sm">
+                            <FileStatusIcon status={file.status} />
+                            <div className="min-w-0 flex-1">
+                                <p className="text-slate-200 truncate">Semester {file.semester} · {file.name}</p>
+                                {file.error && <p className="text-xs text-red-400">{file.error}</p>}
+                            </div>
+                            {file.slotCount !== undefined && (
+                                <span className="text-xs text-slate-400">{file.slotCount} slots</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {job.status === 'succeeded' && job.result && (
+                    <p className="text-sm text-green-400">✓ {job.result.message}</p>
+                )}
+                {job.error && <p className="text-sm text-red-400">✗ {job.error}</p>}
+                {!active && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={onRerun}
+                        disabled={rerunning}
+                        className="border-white/20 text-slate-300 hover:bg-white/10"
+                    >
+                        {rerunning ? 'Starting...' : 'Run again'}
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { ScheduleDiff } from '@/lib/schedule-diff';
+import type { ParsedSlot } from '@/lib/pdf-parser';
+
+interface ScheduleDiffPreviewProps {
+    diff: ScheduleDiff;
+    committing?: boolean;
+    onCommit: () => void;
+    onDiscard: () => void;
+}
+
+// "09:00-10:20 DSA Lec · Hopper (Compiler)"
+function formatSlot(slot: ParsedSlot): string {
+    const session = [slot.subject, slot.type].filter(Boolean).join(' ');
+    const batch = slot.subBatch ? `${slot.batch || ''} (${slot.subBatch})`.trim() : slot.batch;
+    return [`${slot.start}-${slot.end}`, [session, batch].filter(Boolean).join(' · ')].filter(Boolean).join(' ');
+}
+
+// Change counts and the per room/day slot changes of a diff
+export function ScheduleDiffList({ diff, emptyMessage }: { diff: ScheduleDiff; emptyMessage: string }) {
+    const { summary } = diff;
+    const hasChanges = summary.added + summary.removed + summary.changed > 0;
+
+    return (
+        <>
+            <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-600">+{summary.added} added</Badge>
+                <Badge className="bg-red-600">−{summary.removed} removed</Badge>
+                <Badge className="bg-amber-600">~{summary.changed} changed</Badge>
+                <Badge variant="outline" className="border-white/20 text-slate-300">{summary.unchanged} unchanged</Badge>
+            </div>
+
+            {hasChanges ? (
+                <div className="max-h-96 overflow-y-auto space-y-3 pr-1">
+                    {diff.entries.map(entry => (
+                        <div key={`${entry.room}-${entry.day}`} className="p-3 rounded-lg bg-white/5 border border-white/10">
+                            <p className="text-sm font-medium text-white mb-1">{entry.day} · Room {entry.room}</p>
+                            <ul className="space-y-0.5 text-xs font-mono">
+                                {entry.added.map((slot, index) => (
+                                    <li key={`a-${index}`} className="text-green-400">+ {formatSlot(slot)}</li>
+                                ))}
+                                {entry.removed.map((slot, index) => (
+                                    <li key={`r-${index}`} className="text-red-400">− {formatSlot(slot)}</li>
+                                ))}
+                                {entry.changed.map((change, index) => (
+                                    <li key={`c-${index}`} className="text-amber-300">
+                                        ~ {formatSlot(change.before)} → {formatSlot(change.after)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-slate-400">{emptyMessage}</p>
+            )}
+        </>
+    );
+}
+
+export default function ScheduleDiffPreview({ diff, committing, onCommit, onDiscard }: ScheduleDiffPreviewProps) {
+    const { summary } = diff;
+    const hasChanges = summary.added + summary.removed + summary.changed > 0;
+
+    return (
+        <Card className="bg-slate-900/50 border-indigo-500/30">
+            <CardHeader>
+                <CardTitle className="text-white">Parse Preview</CardTitle>
+                <CardDescription className="text-slate-400">
+                    Nothing has been saved yet. Review the changes against the live schedule, then commit or discard them.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <ScheduleDiffList diff={diff} emptyMessage="The parsed schedule matches the live schedule." />
+
+                <div className="flex justify-end gap-2">
+                    <Button
+                        variant="outline"
+                        onClick={onDiscard}
+                        disabled={committing}
+                        className="border-white/20 text-slate-300 hover:bg-white/10"
+                    >
+                        Discard
+                    </Button>
+                    <Button
+                        onClick={onCommit}
+                        disabled={committing || !hasChanges}
+                        className="bg-green-600 hover:bg-green-700"
+                    >
+                        {committing ? 'Saving...' : 'Commit Changes'}
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
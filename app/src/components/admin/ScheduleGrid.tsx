@@ -4,18 +4,32 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { batchColor, tint, UNKNOWN_BATCH_COLOR } from '@/lib/batch-colors';
+import type { Batch, DayOfWeek } from '@/types';
 
 interface TimeSlot {
     start: string;
     end: string;
+    batch?: string;
+    subBatch?: string;
+    subject?: string;
+    type?: string;
 }
 
 interface RoomSchedule {
     room: string;
-    day: string;
+    day: DayOfWeek;
     occupied: TimeSlot[];
 }
 
+interface BreakWindow {
+    start: string;
+    end: string;
+    day: DayOfWeek;
+    batch: string;
+    kind: string;
+}
+
 interface ScheduleData {
     status: string;
     summary: {
@@ -23,12 +37,14 @@ interface ScheduleData {
         uniqueRooms: number;
         uniqueDays: number;
         rooms: string[];
-        days: string[];
+        days: DayOfWeek[]; // open days plus any other day with classes
     };
     data: {
         raw: RoomSchedule[];
-        byRoom: { [room: string]: { [day: string]: TimeSlot[] } };
-        byDay: { [day: string]: { room: string; occupied: TimeSlot[] }[] };
+        breaks?: BreakWindow[];
+        batches?: Batch[];  // the batch registry, for cell colors
+        byRoom: { [room: string]: Partial<Record<DayOfWeek, TimeSlot[]>> };
+        byDay: Partial<Record<DayOfWeek, { room: string; occupied: TimeSlot[] }[]>>;
     };
 }
 
@@ -38,7 +54,26 @@ const TIME_SLOTS = [
     '15:00', '15:30', '16:00', '16:30', '17:00', '17:30', '18:00'
 ];
 
-const DAYS = ['Mon', 'Tue', 'Wed', 'Thur', 'Fri'];
+// Grid columns: every half hour plus the real slot and break boundaries from the
+// timetable (10:20, 11:50, ...), so uneven slots line up with whole columns
+function getTimeColumns(schedules: RoomSchedule[], breaks: BreakWindow[]): string[] {
+    const times = new Set(TIME_SLOTS);
+    let lastEnd = '18:30';
+    for (const slot of [...schedules.flatMap(schedule => schedule.occupied), ...breaks]) {
+        times.add(slot.start);
+        times.add(slot.end);
+        if (slot.end > lastEnd) lastEnd = slot.end;
+    }
+    return [...times].filter(time => time < lastEnd).sort();
+}
+
+// Break of one of the room's batches at a time, e.g. Hopper's lunch
+function getBreak(breaks: BreakWindow[], slots: TimeSlot[], day: DayOfWeek, time: string): BreakWindow | null {
+    const batches = new Set(slots.map(slot => slot.batch).filter(Boolean));
+    return breaks.find(brk =>
+        brk.day === day && batches.has(brk.batch) && time >= brk.start && time < brk.end
+    ) || null;
+}
 
 // Check if a time slot is occupied
 function isOccupied(slots: TimeSlot[] | undefined, time: string): boolean {
@@ -56,6 +91,13 @@ function timeToMinutes(time: string): number {
     return h * 60 + m;
 }
 
+// Short description of a class, e.g. "DSA Lab · Hopper (Compiler)"
+function describeSlot(slot: TimeSlot): string {
+    const session = [slot.subject, slot.type].filter(Boolean).join(' ');
+    const batch = slot.subBatch ? `${slot.batch || ''} (${slot.subBatch})`.trim() : slot.batch;
+    return [session, batch].filter(Boolean).join(' · ');
+}
+
 // Get the occupied slot info for a time
 function getOccupiedSlot(slots: TimeSlot[] | undefined, time: string): TimeSlot | null {
     if (!slots) return null;
@@ -137,6 +179,10 @@ export default function ScheduleGrid() {
 
     if (!data) return null;
 
+    const breaks = data.data.breaks || [];
+    const batches = data.data.batches || [];
+    const timeColumns = getTimeColumns(data.data.raw, breaks);
+
     return (
         <div className="space-y-6">
             {/* Summary Stats */}
@@ -161,7 +207,7 @@ export default function ScheduleGrid() {
                 </Card>
                 <Card className="bg-gradient-to-br from-rose-600/20 to-pink-600/20 border-rose-500/30">
                     <CardContent className="p-4 text-center">
-                        <p className="text-3xl font-bold text-white">{TIME_SLOTS.length}</p>
+                        <p className="text-3xl font-bold text-white">{timeColumns.length}</p>
                         <p className="text-sm text-slate-400">Time Slots</p>
                     </CardContent>
                 </Card>
@@ -220,11 +266,17 @@ export default function ScheduleGrid() {
                         {viewMode === 'byRoom' ? (
                             <RoomScheduleGrid
                                 room={selectedRoom}
+                                days={data.summary.days}
+                                timeColumns={timeColumns}
+                                breaks={breaks}
+                                batches={batches}
                                 scheduleByRoom={data.data.byRoom}
                             />
                         ) : (
                             <AllRoomsGrid
                                 rooms={data.summary.rooms}
+                                days={data.summary.days}
+                                batches={batches}
                                 scheduleByRoom={data.data.byRoom}
                             />
                         )}
@@ -234,9 +286,15 @@ export default function ScheduleGrid() {
 
             {/* Legend */}
             <div className="flex flex-wrap items-center gap-4 text-sm">
+                {batches.filter(batch => !batch.parent).map(batch => (
+                    <div key={batch.name} className="flex items-center gap-2">
+                        <div className="w-4 h-4 rounded" style={{ backgroundColor: tint(batch.color, 0.6) }}></div>
+                        <span className="text-slate-400">{batch.name}</span>
+                    </div>
+                ))}
                 <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-red-500/60"></div>
-                    <span className="text-slate-400">Occupied</span>
+                    <div className="w-4 h-4 rounded" style={{ backgroundColor: tint(UNKNOWN_BATCH_COLOR, 0.6) }}></div>
+                    <span className="text-slate-400">{batches.length > 0 ? 'Batch not in the registry' : 'Occupied'}</span>
                 </div>
                 <div className="flex items-center gap-2">
                     <div className="w-4 h-4 rounded bg-emerald-500/60"></div>
@@ -244,7 +302,7 @@ export default function ScheduleGrid() {
                 </div>
                 <div className="flex items-center gap-2">
                     <div className="w-4 h-4 rounded bg-amber-500/40"></div>
-                    <span className="text-slate-400">Lunch (12:30-13:30)</span>
+                    <span className="text-slate-400">Lunch / Break of the room&apos;s batches</span>
                 </div>
             </div>
 
@@ -260,9 +318,13 @@ export default function ScheduleGrid() {
 }
 
 // Single room schedule grid
-function RoomScheduleGrid({ room, scheduleByRoom }: {
+function RoomScheduleGrid({ room, days, timeColumns, breaks, batches, scheduleByRoom }: {
     room: string;
-    scheduleByRoom: { [room: string]: { [day: string]: TimeSlot[] } }
+    days: DayOfWeek[];
+    timeColumns: string[];
+    breaks: BreakWindow[];
+    batches: Batch[];
+    scheduleByRoom: { [room: string]: Partial<Record<DayOfWeek, TimeSlot[]>> }
 }) {
     const roomData = scheduleByRoom[room] || {};
 
@@ -273,7 +335,7 @@ function RoomScheduleGrid({ room, scheduleByRoom }: {
                     <th className="p-3 text-left text-sm font-medium text-slate-400 border-b border-white/10 sticky left-0 bg-slate-900">
                         Day
                     </th>
-                    {TIME_SLOTS.map(time => (
+                    {timeColumns.map(time => (
                         <th key={time} className="p-2 text-center text-xs font-medium text-slate-400 border-b border-white/10 min-w-[60px]">
                             {time}
                         </th>
@@ -281,31 +343,38 @@ function RoomScheduleGrid({ room, scheduleByRoom }: {
                 </tr>
             </thead>
             <tbody>
-                {DAYS.map(day => {
+                {days.map(day => {
                     const daySlots = roomData[day] || [];
                     return (
                         <tr key={day} className="border-b border-white/5 hover:bg-white/5">
                             <td className="p-3 font-medium text-white sticky left-0 bg-slate-900">
                                 {day}
                             </td>
-                            {TIME_SLOTS.map(time => {
+                            {timeColumns.map(time => {
                                 const occupied = isOccupied(daySlots, time);
-                                const isLunch = time >= '12:30' && time < '13:30';
                                 const slot = getOccupiedSlot(daySlots, time);
+                                const brk = occupied ? null : getBreak(breaks, daySlots, day, time);
 
                                 return (
                                     <td
                                         key={time}
-                                        className={`p-1 text-center border-l border-white/5 ${isLunch
-                                            ? 'bg-amber-500/20'
-                                            : occupied
-                                                ? 'bg-red-500/40'
+                                        className={`p-1 text-center border-l border-white/5 ${occupied
+                                            ? ''
+                                            : brk
+                                                ? 'bg-amber-500/20'
                                                 : 'bg-emerald-500/20'
                                             }`}
-                                        title={slot ? `${slot.start} - ${slot.end}` : 'Free'}
+                                        style={slot ? { backgroundColor: tint(batchColor(batches, slot.batch, slot.subBatch), 0.4) } : undefined}
+                                        title={slot
+                                            ? `${slot.start} - ${slot.end}${describeSlot(slot) ? ` ${describeSlot(slot)}` : ''}`
+                                            : brk ? `Free · ${brk.kind} for ${brk.batch} ${brk.start} - ${brk.end}` : 'Free'}
                                     >
-                                        {occupied && !isLunch && (
-                                            <div className="w-2 h-2 rounded-full bg-red-400 mx-auto"></div>
+                                        {occupied && (
+                                            slot?.subject && slot.start === time ? (
+                                                <div className="text-[10px] leading-tight text-white truncate">{slot.subject}</div>
+                                            ) : (
+                                                <div className="w-2 h-2 rounded-full bg-white/60 mx-auto"></div>
+                                            )
                                         )}
                                     </td>
                                 );
@@ -319,9 +388,11 @@ function RoomScheduleGrid({ room, scheduleByRoom }: {
 }
 
 // All rooms grid view
-function AllRoomsGrid({ rooms, scheduleByRoom }: {
+function AllRoomsGrid({ rooms, days, batches, scheduleByRoom }: {
     rooms: string[];
-    scheduleByRoom: { [room: string]: { [day: string]: TimeSlot[] } }
+    days: DayOfWeek[];
+    batches: Batch[];
+    scheduleByRoom: { [room: string]: Partial<Record<DayOfWeek, TimeSlot[]>> }
 }) {
     return (
         <table className="w-full min-w-[800px]">
@@ -330,7 +401,7 @@ function AllRoomsGrid({ rooms, scheduleByRoom }: {
                     <th className="p-3 text-left text-sm font-medium text-slate-400 border-b border-white/10 sticky left-0 bg-slate-900">
                         Room
                     </th>
-                    {DAYS.map(day => (
+                    {days.map(day => (
                         <th key={day} className="p-3 text-center text-sm font-medium text-slate-400 border-b border-white/10">
                             {day}
                         </th>
@@ -347,7 +418,7 @@ function AllRoomsGrid({ rooms, scheduleByRoom }: {
                                     {room}
                                 </Badge>
                             </td>
-                            {DAYS.map(day => {
+                            {days.map(day => {
                                 const slots = roomData[day] || [];
                                 const totalOccupied = slots.reduce((acc, slot) => {
                                     return acc + (timeToMinutes(slot.end) - timeToMinutes(slot.start));
@@ -361,9 +432,14 @@ function AllRoomsGrid({ rooms, scheduleByRoom }: {
                                                 {slots.map((slot, idx) => (
                                                     <div
                                                         key={idx}
-                                                        className="text-xs bg-red-500/30 text-red-200 rounded px-2 py-1"
+                                                        className="text-xs text-white rounded px-2 py-1"
+                                                        style={{ backgroundColor: tint(batchColor(batches, slot.batch, slot.subBatch), 0.3) }}
+                                                        title={describeSlot(slot) || undefined}
                                                     >
                                                         {slot.start}-{slot.end}
+                                                        {describeSlot(slot) && (
+                                                            <div className="text-[10px] text-white/80 truncate">{describeSlot(slot)}</div>
+                                                        )}
                                                     </div>
                                                 ))}
                                                 <div className="text-xs text-slate-500">
@@ -0,0 +1,47 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Pin, PinOff, Power, PowerOff } from 'lucide-react';
+import type { PDFVersion } from '@/types';
+import type { VersionAction } from '@/lib/pdf-versions';
+
+interface VersionActionsProps {
+    pdf: PDFVersion;
+    busy: boolean;
+    onAction: (pdf: PDFVersion, action: VersionAction) => void;
+}
+
+// Activate/deactivate and pin/unpin buttons for one uploaded version
+export default function VersionActions({ pdf, busy, onAction }: VersionActionsProps) {
+    return (
+        <>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onAction(pdf, pdf.is_active ? 'deactivate' : 'activate')}
+                disabled={busy}
+                title={pdf.is_active ? 'Stop using this version' : 'Use this version for its semester'}
+                className={pdf.is_active
+                    ? 'border-white/20 text-slate-300 hover:bg-white/10'
+                    : 'border-green-500/30 text-green-400 hover:bg-green-500/20 hover:text-green-300'
+                }
+            >
+                {pdf.is_active ? <PowerOff className="h-4 w-4 mr-1" /> : <Power className="h-4 w-4 mr-1" />}
+                {pdf.is_active ? 'Deactivate' : 'Activate'}
+            </Button>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onAction(pdf, pdf.is_pinned ? 'unpin' : 'pin')}
+                disabled={busy}
+                title={pdf.is_pinned ? 'Let new uploads replace this version' : 'Keep this version active when new files are uploaded'}
+                className={pdf.is_pinned
+                    ? 'border-amber-500/40 text-amber-300 hover:bg-amber-500/20'
+                    : 'border-white/20 text-slate-300 hover:bg-white/10'
+                }
+            >
+                {pdf.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </Button>
+        </>
+    );
+}
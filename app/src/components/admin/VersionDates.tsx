@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Pencil, X } from 'lucide-react';
+import type { PDFVersion } from '@/types';
+
+interface VersionDatesProps {
+    pdf: PDFVersion;
+    busy: boolean;
+    onSave: (pdf: PDFVersion, effectiveFrom: string, effectiveTo: string) => Promise<boolean>;
+}
+
+function describeRange(from: string | null, to: string | null): string {
+    const show = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+    if (from && to) return `${show(from)} – ${show(to)}`;
+    if (from) return `From ${show(from)}`;
+    if (to) return `Until ${show(to)}`;
+    return 'All dates';
+}
+
+// The dates a version applies over, with an inline editor
+export default function VersionDates({ pdf, busy, onSave }: VersionDatesProps) {
+    const [editing, setEditing] = useState(false);
+    const [from, setFrom] = useState(pdf.effective_from ?? '');
+    const [to, setTo] = useState(pdf.effective_to ?? '');
+
+    const startEditing = () => {
+        setFrom(pdf.effective_from ?? '');
+        setTo(pdf.effective_to ?? '');
+        setEditing(true);
+    };
+
+    const save = async () => {
+        if (await onSave(pdf, from, to)) setEditing(false);
+    };
+
+    if (!editing) {
+        return (
+            <p className="text-sm text-slate-400 flex items-center gap-1">
+                Effective: {describeRange(pdf.effective_from, pdf.effective_to)}
+                <button
+                    onClick={startEditing}
+                    title="Change the dates this version applies over"
+                    className="p-1 rounded hover:bg-white/10 text-slate-500 hover:text-slate-300"
+                >
+                    <Pencil className="h-3 w-3" />
+                </button>
+            </p>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-2 mt-1">
+            <Input
+                type="date"
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+                className="h-8 w-40 bg-white/5 border-white/10 text-white text-xs"
+            />
+            <span className="text-slate-500 text-xs">to</span>
+            <Input
+                type="date"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                className="h-8 w-40 bg-white/5 border-white/10 text-white text-xs"
+            />
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={save}
+                disabled={busy}
+                className="h-8 w-8 text-green-400 hover:bg-green-500/10"
+            >
+                <Check className="h-4 w-4" />
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setEditing(false)}
+                className="h-8 w-8 text-slate-400 hover:bg-white/10"
+            >
+                <X className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
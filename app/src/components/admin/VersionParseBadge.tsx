@@ -0,0 +1,33 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { PDFVersion } from '@/types';
+
+// Whether an uploaded version produced usable schedule data
+export default function VersionParseBadge({ parse }: { parse: PDFVersion['parse'] }) {
+    if (!parse) {
+        return (
+            <Badge variant="outline" className="border-white/20 text-slate-400">
+                Not parsed
+            </Badge>
+        );
+    }
+
+    if (parse.slot_count === 0) {
+        return (
+            <Badge className="bg-red-500" title={parse.errors.join('\n')}>
+                No usable data
+            </Badge>
+        );
+    }
+
+    return (
+        <Badge
+            variant="outline"
+            className={parse.errors.length > 0 ? 'border-amber-500/50 text-amber-300' : 'border-green-500/50 text-green-400'}
+            title={parse.errors.join('\n') || `Parsed ${new Date(parse.parsed_at).toLocaleString()}`}
+        >
+            {parse.slot_count} slots
+        </Badge>
+    );
+}
@@ -14,6 +14,7 @@ import {
     CalendarX
 } from 'lucide-react';
 import { Button } from './button';
+import type { CalendarDay, CalendarStatus } from '@/lib/academic-calendar';
 
 // ============================================================================
 // SEMANTIC COLORS - Color system for consistent UI states
@@ -202,10 +203,19 @@ export function EmptyState({
     );
 }
 
+// Why the academic calendar has no regular classes on a date
+const CALENDAR_REASONS: Record<Exclude<CalendarStatus, 'teaching'>, string> = {
+    closure: 'The campus is closed, so no rooms are open.',
+    holiday: 'It is a holiday, so there are no classes.',
+    exam: 'Regular classes are off for exams.',
+    break: 'No term has classes on this date.',
+};
+
 // No data for specific period
 interface NoDataForPeriodProps {
     period: string;
     suggestion?: string;
+    calendar?: CalendarDay;     // the academic calendar's entry for the period, when it explains the gap
     onRetry?: () => void;
     className?: string;
 }
@@ -213,17 +223,22 @@ interface NoDataForPeriodProps {
 export function NoDataForPeriod({
     period,
     suggestion,
+    calendar,
     onRetry,
     className
 }: NoDataForPeriodProps) {
+    const reason = calendar && calendar.status !== 'teaching' ? CALENDAR_REASONS[calendar.status] : undefined;
+
     return (
         <div className={cn('flex flex-col items-center justify-center py-16 px-4 text-center', className)}>
             <div className="w-20 h-20 rounded-2xl bg-gradient-to-br from-amber-500/10 to-orange-500/10 border border-amber-500/30 flex items-center justify-center mb-5">
                 <CalendarX className="h-10 w-10 text-amber-400" />
             </div>
-            <h3 className="text-lg font-semibold text-slate-200 mb-2">No data for {period}</h3>
+            <h3 className="text-lg font-semibold text-slate-200 mb-2">
+                {calendar?.label && reason ? `${calendar.label} on ${period}` : `No data for ${period}`}
+            </h3>
             <p className="text-slate-400 text-sm max-w-sm mb-4">
-                {suggestion || 'Data for this period is not available yet. Try selecting a different time.'}
+                {suggestion || reason || 'Data for this period is not available yet. Try selecting a different time.'}
             </p>
             {onRetry && (
                 <Button
@@ -266,14 +281,22 @@ export function StatusBadge({ status, children, showDot = true, className }: Sta
     );
 }
 
+const CALENDAR_BADGES: Record<Exclude<CalendarStatus, 'teaching'>, string> = {
+    closure: 'Closed',
+    holiday: 'Holiday',
+    exam: 'Exams',
+    break: 'No classes',
+};
+
 interface WeekIndicatorProps {
     week: string;
     isCurrent?: boolean;
     isFallback?: boolean;
+    calendar?: CalendarDay;     // shows the teaching week, or why there are no classes
     className?: string;
 }
 
-export function WeekIndicator({ week, isCurrent = true, isFallback = false, className }: WeekIndicatorProps) {
+export function WeekIndicator({ week, isCurrent = true, isFallback = false, calendar, className }: WeekIndicatorProps) {
     return (
         <div className={cn(
             'inline-flex items-center gap-2 px-4 py-2 rounded-full border',
@@ -289,6 +312,14 @@ export function WeekIndicator({ week, isCurrent = true, isFallback = false, clas
                 )}
                 <span className={isFallback ? 'text-amber-200' : 'text-white'} >{week}</span>
             </span>
+            {calendar?.status === 'teaching' && calendar.week !== undefined && (
+                <span className="text-xs text-slate-400" title={calendar.label}>Week {calendar.week}</span>
+            )}
+            {calendar && calendar.status !== 'teaching' && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300" title={calendar.label}>
+                    {CALENDAR_BADGES[calendar.status]}
+                </span>
+            )}
             {isCurrent && !isFallback && (
                 <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
             )}
@@ -0,0 +1,238 @@
+/**
+ * Academic Calendar
+ *
+ * Terms with their teaching weeks, plus holidays, exam periods and one-off
+ * closures. Decides whether the weekly timetable applies on a date: a term's
+ * classes run only in its teaching weeks and stop for its holidays and exams.
+ * Closures shut every room. With no terms configured the timetable runs every
+ * week, as it did before the calendar existed. Stored next to the schedule
+ * cache so admins can change it without a deploy.
+ */
+
+import { addDays, differenceInCalendarWeeks, format, isValid, parseISO, startOfWeek } from 'date-fns';
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+import { ALL_DAYS } from '@/lib/days';
+import type { DayOfWeek } from '@/types';
+
+export type CalendarEventKind = 'holiday' | 'exam' | 'closure';
+
+export const CALENDAR_EVENT_KINDS: CalendarEventKind[] = ['holiday', 'exam', 'closure'];
+
+export interface AcademicTerm {
+    name: string;                   // e.g. "Spring 2026"
+    semester: number;               // timetable semester the term runs
+    start: string;                  // YYYY-MM-DD, first day of classes
+    end: string;                    // YYYY-MM-DD, last day of the term
+    teachingWeeks: number | null;   // weeks of classes from the start; null when the whole term teaches
+}
+
+export interface CalendarEvent {
+    kind: CalendarEventKind;
+    name: string;
+    start: string;                  // YYYY-MM-DD
+    end: string;                    // YYYY-MM-DD, the same as start for a single day
+    semester: number | null;        // only this semester's classes stop; null for everyone
+}
+
+export interface AcademicCalendar {
+    terms: AcademicTerm[];
+    events: CalendarEvent[];
+    updatedAt?: string;
+}
+
+export type CalendarStatus = 'teaching' | 'holiday' | 'exam' | 'closure' | 'break';
+
+// What the calendar says about one date
+export interface CalendarDay {
+    date: string;
+    status: CalendarStatus;
+    label?: string;                 // the term, or the event that stops classes
+    week?: number;                  // teaching week of the term, from 1
+    semesters?: number[];           // semesters whose weekly timetable runs; undefined when every semester's does
+}
+
+const CALENDAR_FILE_PATH = 'data/academic-calendar.json';
+
+export const EMPTY_CALENDAR: AcademicCalendar = { terms: [], events: [] };
+
+// Load the academic calendar from storage, falling back to an empty one
+export async function loadAcademicCalendar(): Promise<AcademicCalendar> {
+    try {
+        const calendar = await readJsonFile(CALENDAR_FILE_PATH);
+        return calendar ? parseAcademicCalendar(calendar) : EMPTY_CALENDAR;
+    } catch {
+        return EMPTY_CALENDAR;
+    }
+}
+
+// Save the academic calendar to storage
+export async function saveAcademicCalendar(calendar: AcademicCalendar): Promise<AcademicCalendar> {
+    const saved = { ...calendar, updatedAt: new Date().toISOString() };
+    await writeJsonFile(CALENDAR_FILE_PATH, saved);
+    return saved;
+}
+
+// Whether text is a real date written YYYY-MM-DD
+export function isISODate(text: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) && isValid(parseISO(text));
+}
+
+function parseDate(value: unknown, field: string): string {
+    const text = String(value ?? '').trim();
+    if (!isISODate(text)) {
+        throw new Error(`${field} must be a date like 2026-08-15`);
+    }
+    return text;
+}
+
+function parseName(value: unknown, field: string): string {
+    const name = String(value ?? '').trim();
+    if (!name) {
+        throw new Error(`${field} needs a name`);
+    }
+    return name;
+}
+
+// Validate the calendar from the admin editor. Terms of the same semester may
+// not overlap, and a semester-specific event must belong to a configured term.
+export function parseAcademicCalendar(jsonData: unknown): AcademicCalendar {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Calendar must be an object');
+    }
+
+    const { terms, events, updatedAt } = jsonData as Record<string, unknown>;
+    if (!Array.isArray(terms)) {
+        throw new Error('terms must be an array');
+    }
+    if (!Array.isArray(events)) {
+        throw new Error('events must be an array');
+    }
+
+    const parsedTerms: AcademicTerm[] = terms.map((term, index) => {
+        const name = parseName(term?.name, `Term ${index + 1}`);
+        const semester = Number(term?.semester);
+        if (!Number.isInteger(semester) || semester < 1) {
+            throw new Error(`${name}: semester must be a positive number`);
+        }
+
+        const start = parseDate(term.start, `${name} start`);
+        const end = parseDate(term.end, `${name} end`);
+        if (end < start) {
+            throw new Error(`${name} ends before it starts`);
+        }
+
+        const weeks = term.teachingWeeks;
+        const teachingWeeks = weeks === undefined || weeks === null || weeks === '' ? null : Number(weeks);
+        if (teachingWeeks !== null && (!Number.isInteger(teachingWeeks) || teachingWeeks < 1)) {
+            throw new Error(`${name}: teaching weeks must be a positive number`);
+        }
+
+        return { name, semester, start, end, teachingWeeks };
+    }).sort((a, b) => a.start.localeCompare(b.start));
+
+    for (const [index, term] of parsedTerms.entries()) {
+        const overlap = parsedTerms.slice(index + 1).find(other =>
+            other.semester === term.semester && other.start <= term.end
+        );
+        if (overlap) {
+            throw new Error(`${term.name} and ${overlap.name} overlap for semester ${term.semester}`);
+        }
+    }
+
+    const semesters = new Set(parsedTerms.map(term => term.semester));
+
+    const parsedEvents: CalendarEvent[] = events.map((event, index) => {
+        const kind = event?.kind as CalendarEventKind;
+        if (!CALENDAR_EVENT_KINDS.includes(kind)) {
+            throw new Error(`Event ${index + 1}: kind must be one of ${CALENDAR_EVENT_KINDS.join(', ')}`);
+        }
+
+        const name = parseName(event.name, `Event ${index + 1}`);
+        const start = parseDate(event.start, `${name} start`);
+        const end = event.end ? parseDate(event.end, `${name} end`) : start;
+        if (end < start) {
+            throw new Error(`${name} ends before it starts`);
+        }
+
+        const semester = event.semester === undefined || event.semester === null || event.semester === ''
+            ? null
+            : Number(event.semester);
+        if (semester !== null) {
+            if (kind === 'closure') {
+                throw new Error(`${name}: a closure shuts every room, so it cannot be for one semester`);
+            }
+            if (!semesters.has(semester)) {
+                throw new Error(`${name}: no term runs semester ${event.semester}`);
+            }
+        }
+
+        return { kind, name, start, end, semester };
+    }).sort((a, b) => a.start.localeCompare(b.start));
+
+    return {
+        updatedAt: typeof updatedAt === 'string' ? updatedAt : undefined,
+        terms: parsedTerms,
+        events: parsedEvents
+    };
+}
+
+// Teaching week of a term a date falls in, counting the week the term starts as week 1
+export function termWeek(term: AcademicTerm, date: string): number {
+    return differenceInCalendarWeeks(parseISO(date), parseISO(term.start), { weekStartsOn: 1 }) + 1;
+}
+
+// What the calendar says about a date (YYYY-MM-DD)
+export function resolveCalendarDay(calendar: AcademicCalendar, date: string): CalendarDay {
+    const events = calendar.events.filter(event => event.start <= date && date <= event.end);
+    const stopsEveryone = (kind: CalendarEventKind) => events.find(event => event.kind === kind && event.semester === null);
+
+    const closure = stopsEveryone('closure');
+    if (closure) return { date, status: 'closure', label: closure.name, semesters: [] };
+
+    const holiday = stopsEveryone('holiday');
+    if (holiday) return { date, status: 'holiday', label: holiday.name, semesters: [] };
+
+    if (calendar.terms.length === 0) {
+        const exam = stopsEveryone('exam');
+        return exam ? { date, status: 'exam', label: exam.name, semesters: [] } : { date, status: 'teaching' };
+    }
+
+    const teaching = calendar.terms.filter(term =>
+        term.start <= date && date <= term.end
+        && (term.teachingWeeks === null || termWeek(term, date) <= term.teachingWeeks)
+        && !events.some(event => event.semester === null || event.semester === term.semester)
+    );
+    if (teaching.length > 0) {
+        return {
+            date,
+            status: 'teaching',
+            label: teaching[0].name,
+            week: termWeek(teaching[0], date),
+            semesters: teaching.map(term => term.semester)
+        };
+    }
+
+    // Nobody teaches: name the exam or holiday that stopped classes, if any
+    const reason = events.find(event => event.kind === 'exam') || events.find(event => event.kind === 'holiday');
+    if (reason) return { date, status: reason.kind, label: reason.name, semesters: [] };
+
+    return { date, status: 'break', semesters: [] };
+}
+
+// Whether a slot or break of a semester runs on a day. Slots without a semester
+// run whenever any term teaches.
+export function runsOn(day: CalendarDay, semester: number | undefined): boolean {
+    if (!day.semesters) return true;
+    return semester === undefined ? day.semesters.length > 0 : day.semesters.includes(semester);
+}
+
+export function toISODate(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+}
+
+// Date of a weekday in the week that starts on weekStartDate, or in the week of
+// today when no week is configured
+export function dateInWeek(weekStartDate: string | null, day: DayOfWeek, today: Date = new Date()): string {
+    const monday = startOfWeek(weekStartDate ? parseISO(weekStartDate) : today, { weekStartsOn: 1 });
+    return toISODate(addDays(monday, ALL_DAYS.indexOf(day)));
+}
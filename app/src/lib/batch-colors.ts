@@ -0,0 +1,24 @@
+/**
+ * Batch Colors
+ *
+ * Grids color a class by its batch in the registry: the sub-batch's color when
+ * it has one there, otherwise the batch's.
+ */
+
+import type { Batch } from '@/types';
+
+// Classes of batches missing from the registry
+export const UNKNOWN_BATCH_COLOR = '#ef4444';
+
+// The color of a slot's sub-batch or batch, or the unknown color
+export function batchColor(batches: Batch[], batch?: string, subBatch?: string): string {
+    const byName = new Map(batches.map(entry => [entry.name, entry]));
+    const entry = (subBatch && byName.get(subBatch)) || (batch && byName.get(batch));
+    return entry ? entry.color : UNKNOWN_BATCH_COLOR;
+}
+
+// "#a855f7" at 60% opacity, for cell backgrounds
+export function tint(hex: string, alpha: number): string {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
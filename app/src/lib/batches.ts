@@ -0,0 +1,123 @@
+/**
+ * Batch Registry
+ *
+ * The batches timetables are written for, with the color grids show them in,
+ * their semester, year and program, and their sub-batches (Turing → Enigma,
+ * Lambda). Stored in the batches table (see sql/schema.sql). Parses and imports
+ * flag batch names the registry does not know, which are usually typos.
+ */
+
+import { getStorage } from '@/lib/storage';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+import type { Batch } from '@/types';
+
+const BATCHES_TABLE = 'batches';
+
+export const DEFAULT_BATCH_COLOR = '#6366f1';
+
+function batchesTable() {
+    return getStorage().table<Batch>(BATCHES_TABLE);
+}
+
+export async function listBatches(): Promise<Batch[]> {
+    return batchesTable().select({ orderBy: 'name' });
+}
+
+export async function getBatch(name: string): Promise<Batch | null> {
+    return (await batchesTable().select({ where: { name } }))[0] ?? null;
+}
+
+// Add a batch, or update the one with the same name
+export async function saveBatch(batch: Batch): Promise<Batch> {
+    return batchesTable().upsert(batch);
+}
+
+// Delete a batch; its sub-batches become top-level batches
+export async function deleteBatch(name: string): Promise<void> {
+    await batchesTable().delete({ name });
+}
+
+function optionalNumber(value: unknown, field: string): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new Error(`${field} must be a positive whole number`);
+    }
+    return number;
+}
+
+// Validate a batch from the admin editor against the rest of the registry.
+// Sub-batches go one level deep: a parent must be a registered top-level batch.
+export function parseBatch(jsonData: unknown, registry: Batch[]): Batch {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Batch must be an object');
+    }
+
+    const { name, color, semester, year, program, parent } = jsonData as Record<string, unknown>;
+    const batchName = String(name ?? '').trim();
+    if (!batchName) {
+        throw new Error('Batch name is required');
+    }
+
+    const batchColor = String(color ?? '').trim() || DEFAULT_BATCH_COLOR;
+    if (!/^#[0-9a-f]{6}$/i.test(batchColor)) {
+        throw new Error(`Color must be a hex color like #a855f7, not ${batchColor}`);
+    }
+
+    const parentName = String(parent ?? '').trim() || null;
+    if (parentName) {
+        const parentBatch = registry.find(batch => batch.name === parentName);
+        if (parentName === batchName) {
+            throw new Error('A batch cannot be its own parent');
+        }
+        if (!parentBatch) {
+            throw new Error(`Unknown parent batch: ${parentName}`);
+        }
+        if (parentBatch.parent) {
+            throw new Error(`${parentName} is itself a sub-batch of ${parentBatch.parent}`);
+        }
+        if (registry.some(batch => batch.parent === batchName)) {
+            throw new Error(`${batchName} has sub-batches, so it cannot be a sub-batch`);
+        }
+    }
+
+    return {
+        name: batchName,
+        color: batchColor.toLowerCase(),
+        semester: optionalNumber(semester, 'semester'),
+        year: optionalNumber(year, 'year'),
+        program: String(program ?? '').trim() || null,
+        parent: parentName
+    };
+}
+
+// Fill in a sub-batch's parent batch from the registry where the timetable left it out
+export function assignParentBatches(schedules: ParsedScheduleEntry[], registry: Batch[]): ParsedScheduleEntry[] {
+    const parents = new Map(registry.flatMap(batch => batch.parent ? [[batch.name, batch.parent] as const] : []));
+
+    return schedules.map(entry => ({
+        ...entry,
+        occupied: entry.occupied.map(slot =>
+            !slot.batch && slot.subBatch && parents.has(slot.subBatch)
+                ? { ...slot, batch: parents.get(slot.subBatch) }
+                : slot
+        )
+    }));
+}
+
+// Batch and sub-batch names used by slots or breaks that the registry does not
+// know, sorted. An empty registry knows nothing yet, so nothing is flagged.
+export function findUnknownBatches(
+    schedules: ParsedScheduleEntry[],
+    breaks: ParsedBreak[],
+    registry: Batch[]
+): string[] {
+    if (registry.length === 0) return [];
+
+    const known = new Set(registry.map(batch => batch.name));
+    const used = [
+        ...schedules.flatMap(entry => entry.occupied.flatMap(slot => [slot.batch, slot.subBatch])),
+        ...breaks.map(window => window.batch)
+    ];
+    return [...new Set(used.filter((name): name is string => !!name && !known.has(name)))].sort();
+}
@@ -0,0 +1,127 @@
+/**
+ * Day Coverage
+ *
+ * Which days each term teaches on. Teaching and contest days are parsed and
+ * served (contest days are flagged, since rooms may be taken for a contest);
+ * closed days are dropped when parsing and return no rooms. Stored next to
+ * the schedule cache so admins can change it without a deploy.
+ */
+
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+import { ALL_DAYS, parseDayOfWeek } from '@/lib/days';
+import type { DayOfWeek } from '@/types';
+
+export type DayStatus = 'teaching' | 'contest' | 'closed';
+
+export const DAY_STATUSES: DayStatus[] = ['teaching', 'contest', 'closed'];
+
+export interface TermDayCoverage {
+    semester: number;
+    days: Record<DayOfWeek, DayStatus>;
+}
+
+export interface DayCoverageConfig {
+    terms: TermDayCoverage[];
+    updatedAt?: string;
+}
+
+const COVERAGE_FILE_PATH = 'data/day-coverage.json';
+
+const TEACHING_WEEK: Record<DayOfWeek, DayStatus> = {
+    Mon: 'teaching',
+    Tue: 'teaching',
+    Wed: 'teaching',
+    Thur: 'teaching',
+    Fri: 'contest',
+    Sat: 'closed',
+    Sun: 'closed'
+};
+
+// Matches the current timetables: semester 1 prints CONTEST on Friday and Saturday,
+// semester 2 only on Friday
+export const DEFAULT_DAY_COVERAGE: DayCoverageConfig = {
+    terms: [
+        { semester: 1, days: { ...TEACHING_WEEK, Sat: 'contest' } },
+        { semester: 2, days: { ...TEACHING_WEEK } }
+    ]
+};
+
+// Load the day coverage from storage, falling back to the defaults
+export async function loadDayCoverage(): Promise<DayCoverageConfig> {
+    try {
+        const config = await readJsonFile(COVERAGE_FILE_PATH);
+        return config ? parseDayCoverageConfig(config) : DEFAULT_DAY_COVERAGE;
+    } catch {
+        return DEFAULT_DAY_COVERAGE;
+    }
+}
+
+// Save the day coverage to storage
+export async function saveDayCoverage(config: DayCoverageConfig): Promise<DayCoverageConfig> {
+    const saved = { ...config, updatedAt: new Date().toISOString() };
+    await writeJsonFile(COVERAGE_FILE_PATH, saved);
+    return saved;
+}
+
+// Validate day coverage JSON (for the admin editor).
+// Days left out of a term are closed.
+export function parseDayCoverageConfig(jsonData: unknown): DayCoverageConfig {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Day coverage must be an object');
+    }
+
+    const { terms, updatedAt } = jsonData as Record<string, unknown>;
+    if (!Array.isArray(terms)) {
+        throw new Error('terms must be an array');
+    }
+
+    const semesters = new Set<number>();
+
+    return {
+        updatedAt: typeof updatedAt === 'string' ? updatedAt : undefined,
+        terms: terms.map((term, index) => {
+            const semester = Number(term?.semester);
+            if (!Number.isInteger(semester) || semester < 1) {
+                throw new Error(`Invalid term at index ${index}: semester must be a positive number`);
+            }
+            if (semesters.has(semester)) {
+                throw new Error(`Semester ${semester} is listed more than once`);
+            }
+            semesters.add(semester);
+
+            const days = Object.fromEntries(ALL_DAYS.map(day => [day, 'closed'])) as Record<DayOfWeek, DayStatus>;
+            for (const [label, status] of Object.entries(term.days || {})) {
+                const day = parseDayOfWeek(label);
+                if (!day) {
+                    throw new Error(`Semester ${semester}: unknown day "${label}"`);
+                }
+                if (!DAY_STATUSES.includes(status as DayStatus)) {
+                    throw new Error(`Semester ${semester}: ${day} must be one of ${DAY_STATUSES.join(', ')}`);
+                }
+                days[day] = status as DayStatus;
+            }
+
+            return { semester, days };
+        })
+    };
+}
+
+// Status of a day in one term. Terms without an entry follow the first configured term.
+export function getTermDayStatus(config: DayCoverageConfig, semester: number | undefined, day: DayOfWeek): DayStatus {
+    const term = config.terms.find(t => t.semester === semester) || config.terms[0];
+    return term ? term.days[day] : 'closed';
+}
+
+// Status of a day across all terms: teaching if any term teaches, contest if any term
+// has a contest, otherwise closed
+export function getDayStatus(config: DayCoverageConfig, day: DayOfWeek): DayStatus {
+    const statuses = config.terms.map(term => term.days[day]);
+    if (statuses.includes('teaching')) return 'teaching';
+    if (statuses.includes('contest')) return 'contest';
+    return 'closed';
+}
+
+// Days that are open in at least one term, in week order
+export function getOpenDays(config: DayCoverageConfig): DayOfWeek[] {
+    return ALL_DAYS.filter(day => getDayStatus(config, day) !== 'closed');
+}
@@ -0,0 +1,38 @@
+/**
+ * Days of the Week
+ *
+ * Day names as the timetables and the rest of the app write them ("Thur",
+ * not "Thu"). Safe to import from client components.
+ */
+
+import type { DayOfWeek } from '@/types';
+
+export const ALL_DAYS: DayOfWeek[] = ['Mon', 'Tue', 'Wed', 'Thur', 'Fri', 'Sat', 'Sun'];
+
+export const DAY_NAMES: Record<DayOfWeek, string> = {
+    Mon: 'Monday',
+    Tue: 'Tuesday',
+    Wed: 'Wednesday',
+    Thur: 'Thursday',
+    Fri: 'Friday',
+    Sat: 'Saturday',
+    Sun: 'Sunday'
+};
+
+// Day for a label such as "Monday", "THU" or "Thur", or undefined when it is not a day.
+// Any start of the full name counts, from three letters up.
+export function parseDayOfWeek(label: string): DayOfWeek | undefined {
+    const text = label.trim().toLowerCase();
+    if (text.length < 3) return undefined;
+    return ALL_DAYS.find(day => DAY_NAMES[day].toLowerCase().startsWith(text));
+}
+
+// Day of the week a date falls on
+export function dayOfDate(date: Date): DayOfWeek {
+    return ALL_DAYS[(date.getDay() + 6) % 7];
+}
+
+// Sort days into week order (Mon first)
+export function sortDays(days: Iterable<DayOfWeek>): DayOfWeek[] {
+    return [...new Set(days)].sort((a, b) => ALL_DAYS.indexOf(a) - ALL_DAYS.indexOf(b));
+}
@@ -0,0 +1,80 @@
+/**
+ * Parse Diagnostics
+ *
+ * Every PDF parse produces a report of the text it could not use, stored next
+ * to the PDF version so admins can check an import before students see it.
+ */
+
+import { getStorage, readJsonFile, writeJsonFile } from '@/lib/storage';
+import type { GridDiagnostics } from '@/lib/timetable-grid';
+import type { DayOfWeek } from '@/types';
+
+export interface RejectedRoom {
+    room: string;
+    text: string;
+    reason: string;
+}
+
+export interface ParseDiagnostics extends GridDiagnostics {
+    semester: number;
+    pdfName: string;
+    parsedAt: string;
+    parser?: string;   // id of the parser that read the file
+    rejectedRooms: RejectedRoom[];
+    unknownBatches?: string[];  // batch names missing from the registry; absent in older reports
+    dayCounts: Partial<Record<DayOfWeek, number>>; // occupied slots found per day
+    slotCount: number;
+    errors: string[];
+}
+
+const DIAGNOSTICS_DIR = 'diagnostics';
+
+// Reports live under diagnostics/semesterN/<pdf file name>.json
+function diagnosticsPath(semester: number, pdfName: string): string {
+    return `${DIAGNOSTICS_DIR}/semester${semester}/${pdfName}.json`;
+}
+
+// Start an empty report for a PDF
+export function createDiagnostics(semester: number, pdfName: string): ParseDiagnostics {
+    return {
+        semester,
+        pdfName,
+        parsedAt: new Date().toISOString(),
+        unmatchedText: [],
+        cellsWithoutRooms: [],
+        cellsWithoutTime: [],
+        rejectedRooms: [],
+        unknownBatches: [],
+        dayCounts: {},
+        slotCount: 0,
+        errors: []
+    };
+}
+
+// Save a report next to its PDF version. A report that cannot be stored is
+// logged rather than failing the parse it describes.
+export async function saveDiagnostics(report: ParseDiagnostics): Promise<void> {
+    try {
+        await writeJsonFile(diagnosticsPath(report.semester, report.pdfName), report);
+    } catch (error) {
+        console.error('Failed to save parse diagnostics:', error);
+    }
+}
+
+// Load the report for a PDF version, if it has been parsed
+export async function loadDiagnostics(semester: number, pdfName: string): Promise<ParseDiagnostics | null> {
+    try {
+        return await readJsonFile<ParseDiagnostics>(diagnosticsPath(semester, pdfName));
+    } catch {
+        return null;
+    }
+}
+
+// Remove the report when its PDF version is deleted
+export async function deleteDiagnostics(semester: number, pdfName: string): Promise<void> {
+    try {
+        await getStorage().files.remove([diagnosticsPath(semester, pdfName)]);
+    } catch {
+        // Ignore error
+    }
+}
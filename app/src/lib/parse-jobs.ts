@@ -0,0 +1,157 @@
+/**
+ * Parse Jobs
+ *
+ * Parsing every active timetable can outlast a request on a slow host, so a parse
+ * runs as a job: a record in storage with its status, each file's progress and
+ * the result, which the admin dashboard polls until the job finishes.
+ */
+
+import { getStorage, readJsonFile, writeJsonFile } from '@/lib/storage';
+import { parseActivePdfs, type ParseFileProgress } from '@/lib/pdf-extractor';
+import { loadCachedSchedules, saveParsedSchedules, type ParsedBreak, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { diffSchedules, type ScheduleDiff } from '@/lib/schedule-diff';
+import type { ParseDiagnostics } from '@/lib/parse-diagnostics';
+
+export type ParseJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ParseJobResult {
+    message: string;
+    count: number;
+    diagnostics: ParseDiagnostics[];
+    // Dry runs only: what would be saved and how it differs from the live schedule
+    diff?: ScheduleDiff;
+    schedules?: ParsedScheduleEntry[];
+    breaks?: ParsedBreak[];
+}
+
+export interface ParseJob {
+    id: string;
+    status: ParseJobStatus;
+    dryRun: boolean;
+    createdAt: string;
+    updatedAt: string;
+    finishedAt?: string;
+    rerunOf?: string;   // id of the job this one repeats
+    files: ParseFileProgress[];
+    result?: ParseJobResult;
+    error?: string;
+}
+
+const JOBS_DIR = 'jobs/parse';
+
+// A job that has not written progress for this long is taken to have died with its server
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+// Job ids start with the creation time, so listing by name desc gives the newest job first
+function newJobId(): string {
+    return `${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function jobPath(id: string): string {
+    return `${JOBS_DIR}/${id}.json`;
+}
+
+export function isJobActive(job: ParseJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+}
+
+async function saveParseJob(job: ParseJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await writeJsonFile(jobPath(job.id), job);
+}
+
+// Queue a parse of the active files; run it with runParseJob
+export async function createParseJob({ dryRun = false, rerunOf }: { dryRun?: boolean; rerunOf?: string } = {}): Promise<ParseJob> {
+    const now = new Date().toISOString();
+    const job: ParseJob = {
+        id: newJobId(),
+        status: 'queued',
+        dryRun,
+        createdAt: now,
+        updatedAt: now,
+        rerunOf,
+        files: []
+    };
+
+    await saveParseJob(job);
+    return job;
+}
+
+// Load a job by id. A job left running by a server that went away is reported as failed.
+export async function loadParseJob(id: string): Promise<ParseJob | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    try {
+        const job = await readJsonFile<ParseJob>(jobPath(id));
+        if (job && isJobActive(job) && Date.now() - new Date(job.updatedAt).getTime() > STALE_AFTER_MS) {
+            return { ...job, status: 'failed', error: 'The job stopped responding. Run it again.' };
+        }
+        return job;
+    } catch {
+        return null;
+    }
+}
+
+// The most recent job, so a reopened dashboard can pick up where it left off
+export async function loadLatestParseJob(): Promise<ParseJob | null> {
+    const files = await getStorage().files.list(JOBS_DIR, { limit: 1, order: 'desc' });
+
+    const latest = files.find(file => file.name.endsWith('.json'));
+    return latest ? loadParseJob(latest.name.replace(/\.json$/, '')) : null;
+}
+
+// Parse the active files, recording progress on the job as each file is read.
+// Never throws: a failure is stored on the job for the dashboard to show.
+export async function runParseJob(job: ParseJob): Promise<ParseJob> {
+    job.status = 'running';
+
+    try {
+        await saveParseJob(job);
+
+        const { schedules, breaks, diagnostics } = await parseActivePdfs({
+            dryRun: job.dryRun,
+            onProgress: async files => {
+                job.files = files;
+                await saveParseJob(job);
+            }
+        });
+
+        if (schedules.length === 0) {
+            job.status = 'failed';
+            job.error = 'No schedules found. Make sure PDFs are uploaded.';
+            job.result = { message: job.error, count: 0, diagnostics };
+        } else if (job.dryRun) {
+            const current = await loadCachedSchedules() || [];
+            job.status = 'succeeded';
+            job.result = {
+                message: `Parsed ${schedules.length} schedule entries from PDFs (not saved)`,
+                count: schedules.length,
+                diagnostics,
+                diff: diffSchedules(current, schedules),
+                schedules,
+                breaks
+            };
+        } else {
+            // Save with batch, subject and session type for each slot, plus the break windows
+            await saveParsedSchedules(schedules, breaks, { source: 'parse', note: `Parse job ${job.id}` });
+            job.status = 'succeeded';
+            job.result = {
+                message: `Parsed ${schedules.length} schedule entries from PDFs`,
+                count: schedules.length,
+                diagnostics
+            };
+        }
+    } catch (error) {
+        console.error('Parse job error:', error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Failed to parse PDFs';
+    }
+
+    job.finishedAt = new Date().toISOString();
+    try {
+        await saveParseJob(job);
+    } catch (error) {
+        console.error('Failed to save finished parse job:', error);
+    }
+    return job;
+}
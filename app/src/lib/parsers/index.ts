@@ -0,0 +1,55 @@
+/**
+ * Timetable Parsers
+ *
+ * Every layout the app can read is a TimetableParser in this registry. A file is
+ * handed to the parser that is most confident it knows the layout, and the
+ * parser's id is recorded so an odd import can be traced back to its parser.
+ */
+
+import type { GridTimetable } from '@/lib/timetable-grid';
+import { PDF_GRID_PARSERS } from '@/lib/parsers/pdf-grid';
+import { spreadsheetParser } from '@/lib/parsers/spreadsheet';
+import { jsonScheduleParser } from '@/lib/parsers/json';
+import type { ParserContext, TimetableFile, TimetableParser } from '@/lib/parsers/types';
+
+export type { ParserContext, TimetableFile, TimetableParser } from '@/lib/parsers/types';
+export { BREAK_LAYOUTS, extractPositionedText, type BreakLayout } from '@/lib/parsers/pdf-grid';
+
+// Registration order breaks ties between equally confident parsers
+export const TIMETABLE_PARSERS: TimetableParser[] = [
+    ...PDF_GRID_PARSERS,
+    spreadsheetParser,
+    jsonScheduleParser
+];
+
+export interface ParserMatch {
+    parser: TimetableParser;
+    confidence: number;
+}
+
+// Every parser's confidence for a file, most confident first
+export async function rankParsers(file: TimetableFile): Promise<ParserMatch[]> {
+    const matches: ParserMatch[] = [];
+    for (const parser of TIMETABLE_PARSERS) {
+        matches.push({ parser, confidence: await parser.detect(file) });
+    }
+    return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+// The parser to use for a file, or undefined when none recognises it
+export async function detectParser(file: TimetableFile): Promise<ParserMatch | undefined> {
+    const [best] = await rankParsers(file);
+    return best && best.confidence > 0 ? best : undefined;
+}
+
+// Parse a file with the best parser, recording its id in the diagnostics.
+// Throws when no parser recognises the file.
+export async function parseTimetable(file: TimetableFile, context: ParserContext): Promise<GridTimetable> {
+    const match = await detectParser(file);
+    if (!match) {
+        throw new Error(`No timetable parser recognises ${file.name}`);
+    }
+
+    context.report.parser = match.parser.id;
+    return match.parser.parse(file, context);
+}
@@ -0,0 +1,59 @@
+import { parseBreaksJSON, parseScheduleJSON } from '@/lib/pdf-parser';
+import { timetableFormat } from '@/lib/timetable-files';
+import type { TimetableFile, TimetableParser } from '@/lib/parsers/types';
+
+// Schedule entries as exported from the cache ({ schedules, breaks }) or a bare array of entries.
+// Older uploads listed each room's classes under "slots" instead of "occupied".
+function readScheduleJSON(file: TimetableFile): { schedules: unknown[]; breaks: unknown[] } | undefined {
+    const text = new TextDecoder().decode(file.data).trim();
+    if (!text.startsWith('[') && !text.startsWith('{')) return undefined;
+
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+
+    const { schedules, breaks } = Array.isArray(json)
+        ? { schedules: json, breaks: [] }
+        : json as { schedules?: unknown; breaks?: unknown };
+    if (!Array.isArray(schedules)) return undefined;
+
+    return {
+        schedules: schedules.map(item =>
+            item && typeof item === 'object' && 'slots' in item && !('occupied' in item)
+                ? { ...item, occupied: (item as { slots: unknown }).slots }
+                : item
+        ),
+        breaks: Array.isArray(breaks) ? breaks : []
+    };
+}
+
+export const jsonScheduleParser: TimetableParser = {
+    id: 'json',
+    label: 'Schedule JSON',
+
+    async detect(file) {
+        const data = readScheduleJSON(file);
+        if (!data) return 0;
+
+        const looksLikeEntries = data.schedules.every(item =>
+            item && typeof item === 'object' && 'room' in item && 'day' in item
+        );
+        if (looksLikeEntries) return 1;
+        return timetableFormat(file.name) === 'json' ? 0.1 : 0;
+    },
+
+    async parse(file) {
+        const data = readScheduleJSON(file);
+        if (!data) {
+            throw new Error('File is not schedule JSON');
+        }
+
+        return {
+            schedules: parseScheduleJSON(data.schedules),
+            breaks: parseBreaksJSON(data.breaks)
+        };
+    }
+};
@@ -0,0 +1,123 @@
+/**
+ * PDF Grid Parsers
+ *
+ * Both semester timetables are the same grid read from text coordinates. Their
+ * layouts differ in the short breaks between slots, so each layout is data, and
+ * registered as its own parser that only accepts PDFs with its breaks. A PDF in
+ * no known layout is refused at upload rather than parsed by guesswork.
+ */
+
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.js';
+import { extractGridSchedules, readTimeColumns, type PositionedText, type TimetableColumn } from '@/lib/timetable-grid';
+import type { TimetableFile, TimetableParser } from '@/lib/parsers/types';
+
+const SHORT_BREAK_MINUTES = 10;
+
+// A known timetable layout, told apart by when its short breaks start
+export interface BreakLayout {
+    id: string;
+    label: string;
+    shortBreaks: string[];
+}
+
+export const BREAK_LAYOUTS: BreakLayout[] = [
+    { id: 'semester1', label: 'Semester 1 PDF', shortBreaks: ['10:50', '12:20'] },
+    { id: 'semester2', label: 'Semester 2 PDF', shortBreaks: ['10:20', '11:50'] }
+];
+
+// Text is read once per file, since every PDF parser looks at it in detect() and parse()
+const textCache = new WeakMap<ArrayBuffer, Promise<PositionedText[]>>();
+
+// Read positioned text from a PDF buffer with pdfjs.
+// pdfjs reports the baseline from the bottom of the page; the grid wants the top edge from the top.
+export async function extractPositionedText(data: Uint8Array): Promise<PositionedText[]> {
+    const pdf = await getDocument({
+        data,
+        useSystemFonts: true,
+        isEvalSupported: false
+    }).promise;
+    const items: PositionedText[] = [];
+
+    try {
+        for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+            const page = await pdf.getPage(pageNum);
+            const viewport = page.getViewport({ scale: 1 });
+            const textContent = await page.getTextContent();
+
+            for (const item of textContent.items) {
+                if (!('str' in item) || !item.str.trim()) continue;
+                items.push({
+                    text: item.str,
+                    x: item.transform[4],
+                    y: viewport.height - item.transform[5] - item.height,
+                    width: item.width,
+                    height: item.height,
+                    page: pageNum
+                });
+            }
+            page.cleanup();
+        }
+    } finally {
+        await pdf.destroy();
+    }
+
+    return items;
+}
+
+function isPdf(file: TimetableFile): boolean {
+    const header = new Uint8Array(file.data, 0, Math.min(5, file.data.byteLength));
+    return String.fromCharCode(...header) === '%PDF-';
+}
+
+function readPdfText(file: TimetableFile): Promise<PositionedText[]> {
+    let text = textCache.get(file.data);
+    if (!text) {
+        text = extractPositionedText(new Uint8Array(file.data)).catch(error => {
+            throw new Error(`Could not read PDF: ${error instanceof Error ? error.message : String(error)}`);
+        });
+        textCache.set(file.data, text);
+    }
+    return text;
+}
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+// Whether every short break of the layout appears in the time header
+function hasBreakLayout(columns: TimetableColumn[], layout: BreakLayout): boolean {
+    const breaks = columns
+        .filter(column => timeToMinutes(column.end) - timeToMinutes(column.start) <= SHORT_BREAK_MINUTES)
+        .map(column => column.start);
+    return layout.shortBreaks.every(start => breaks.includes(start));
+}
+
+export function createPdfGridParser(layout: BreakLayout): TimetableParser {
+    return {
+        id: `pdf-${layout.id}`,
+        label: layout.label,
+
+        async detect(file) {
+            if (!isPdf(file)) return 0;
+
+            let items: PositionedText[];
+            try {
+                items = await readPdfText(file);
+            } catch {
+                return 0;
+            }
+            return hasBreakLayout(readTimeColumns(items), layout) ? 0.9 : 0;
+        },
+
+        async parse(file, { extractRooms, report }) {
+            const items = await readPdfText(file);
+            if (items.length === 0) {
+                report.errors.push('No text could be extracted from the PDF');
+            }
+            return extractGridSchedules(items, extractRooms, report);
+        }
+    };
+}
+
+export const PDF_GRID_PARSERS = BREAK_LAYOUTS.map(createPdfGridParser);
@@ -0,0 +1,33 @@
+import { extractSpreadsheetSchedules, parseCsv, parseXlsx, type SheetRows } from '@/lib/spreadsheet-timetable';
+import { timetableFormat } from '@/lib/timetable-files';
+import type { TimetableFile, TimetableParser } from '@/lib/parsers/types';
+
+// XLSX files are zip archives
+function isZip(file: TimetableFile): boolean {
+    const header = new Uint8Array(file.data, 0, Math.min(4, file.data.byteLength));
+    return header.length === 4 && header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+}
+
+// CSV or XLSX export of the timetable grid
+export const spreadsheetParser: TimetableParser = {
+    id: 'spreadsheet',
+    label: 'CSV / XLSX spreadsheet',
+
+    async detect(file) {
+        const format = timetableFormat(file.name);
+        if (format === 'xlsx') return isZip(file) ? 0.9 : 0;
+        if (format === 'csv') return 0.8;
+        return 0;
+    },
+
+    async parse(file, { extractRooms, report }) {
+        const sheets: SheetRows[] = isZip(file)
+            ? await parseXlsx(file.data)
+            : [parseCsv(new TextDecoder().decode(file.data))];
+
+        if (sheets.every(rows => rows.flat().every(text => !text.trim()))) {
+            report.errors.push('The spreadsheet has no cells');
+        }
+        return extractSpreadsheetSchedules(sheets, extractRooms, report);
+    }
+};
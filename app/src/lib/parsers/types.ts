@@ -0,0 +1,23 @@
+import type { GridTimetable } from '@/lib/timetable-grid';
+import type { RoomMention } from '@/lib/room-aliases';
+import type { ParseDiagnostics } from '@/lib/parse-diagnostics';
+
+// An uploaded or stored timetable file
+export interface TimetableFile {
+    name: string;
+    data: ArrayBuffer;
+}
+
+export interface ParserContext {
+    extractRooms: (text: string) => RoomMention[];
+    report: ParseDiagnostics; // text the parser could not use goes here
+}
+
+// One timetable layout the app can read.
+// detect() is cheap enough to run every parser on every upload; the most confident one parses the file.
+export interface TimetableParser {
+    id: string;     // recorded with the file and its diagnostics, e.g. "pdf-semester1"
+    label: string;
+    detect(file: TimetableFile): Promise<number>; // confidence from 0 (not this layout) to 1
+    parse(file: TimetableFile, context: ParserContext): Promise<GridTimetable>;
+}
@@ -1,312 +1,259 @@
-import { writeFile, unlink } from 'fs/promises';
-import { execSync } from 'child_process';
-import path from 'path';
-import { createClient } from '@/lib/supabase/server';
-// Note: pdf-extractor might be called from API route (server context).
-// If called from client, this will fail. It seems to be used in API routes (e.g. rooms check?).
-// Actually previous grep didn't show usage. 
-// Assuming it is used or will be used by server actions/API.
-
-import type { RoomSchedule, TimeSlot } from '@/types';
-
-// Helper to get Supabase client
-async function getSupabase() {
-    return await createClient();
+import { parseTimetable } from '@/lib/parsers';
+import { getStorage } from '@/lib/storage';
+import type { DayOfWeek } from '@/types';
+
+import { combineBreaks, combineSlots, replaceSemesterSchedules, type ParsedBreak, type ParsedScheduleEntry, type SemesterSchedule } from '@/lib/pdf-parser';
+import { createRoomMatcher, loadRoomAliases, type RoomAliasConfig } from '@/lib/room-aliases';
+import { createDiagnostics, saveDiagnostics, type ParseDiagnostics } from '@/lib/parse-diagnostics';
+import { getTermDayStatus, loadDayCoverage, type DayCoverageConfig } from '@/lib/day-coverage';
+import { createVersionSchedule, loadVersionSchedule, saveVersionSchedule } from '@/lib/version-schedules';
+import { getActiveVersions, storedFileName, type PdfVersionRow } from '@/lib/pdf-versions';
+import type { WriteOrigin } from '@/lib/schedule-snapshots';
+import { DAY_NAMES } from '@/lib/days';
+import { getAllRooms } from '@/lib/schedule-data';
+import { assignParentBatches, findUnknownBatches, listBatches } from '@/lib/batches';
+import type { Batch } from '@/types';
+
+export interface ActivePdf {
+    id: string;         // pdf_versions id
+    semester: number;
+    filePath: string;   // storage path
+    name: string;       // stored file name
 }
 
-// Get the most recent PDF for each semester from Supabase
-export async function getActivePdfUrls(): Promise<{ semester: number, url: string, name: string }[]> {
-    const supabase = await getSupabase();
-    const activePdfs: { semester: number, url: string, name: string }[] = [];
-
-    for (const semester of [1, 2]) {
-        const { data: files } = await supabase
-            .storage
-            .from('timetables')
-            .list(`semester${semester}`, {
-                sortBy: { column: 'name', order: 'desc' } // Timestamp prefixed, so desc gives latest
-            });
-
-        if (files && files.length > 0) {
-            // Find first PDF
-            const pdfFile = files.find(f => f.name.endsWith('.pdf'));
-            if (pdfFile) {
-                const { data: { publicUrl } } = supabase
-                    .storage
-                    .from('timetables')
-                    .getPublicUrl(`semester${semester}/${pdfFile.name}`);
-
-                activePdfs.push({
-                    semester,
-                    url: publicUrl,
-                    name: pdfFile.name
-                });
-            }
-        }
-    }
-    return activePdfs;
+// Get the file of every active version
+export async function getActivePdfs(): Promise<ActivePdf[]> {
+    return (await getActiveVersions()).map(version => ({
+        id: version.id,
+        semester: version.semester,
+        filePath: version.file_path,
+        name: storedFileName(version)
+    }));
 }
 
-// Download PDF to temp file and extract text
-async function extractPdfTextFromUrl(url: string, fileName: string): Promise<string> {
-    try {
-        const response = await fetch(url);
-        const buffer = await response.arrayBuffer();
-
-        // Use /tmp for Vercel compatibility
-        const tempPath = path.join('/tmp', fileName);
-        await writeFile(tempPath, Buffer.from(buffer));
-
-        try {
-            const result = execSync(`pdftotext -layout "${tempPath}" -`, {
-                encoding: 'utf-8',
-                maxBuffer: 10 * 1024 * 1024
-            });
-
-            // Clean up
-            await unlink(tempPath);
-            return result;
-        } catch (execError) {
-            console.error('pdftotext error:', execError);
-            // Try to clean up even if exec fails
-            try { await unlink(tempPath); } catch { }
-            return '';
-        }
-    } catch (error) {
-        console.error('Error downloading/extracting PDF:', error);
-        return '';
+// Read a timetable file from storage
+async function downloadTimetable(filePath: string): Promise<ArrayBuffer> {
+    const file = await getStorage().files.read(filePath);
+    if (!file) {
+        throw new Error(`${filePath} is missing from storage`);
     }
+    return file.arrayBuffer();
 }
 
-// Extract all room numbers from text
-function extractRoomNumbers(text: string): string[] {
-    const rooms: string[] = [];
-
-    const patterns = [
-        /Room\s*(?:No\.?|no)?\s*(\d{3})/gi,
-        /\(Room\s*(?:no)?\s*(\d{3})\)/gi,
-        /\((\d{3})\)/g,  // Just (401), (402), etc.
-        /Enigma[=:\s-]+(\d{3})/gi,
-        /Lambda[=:\s-]+(\d{3})/gi,
-        /Memory[=:\s-]+(\d{3})/gi,
-        /Architecture[=:\s-]+(\d{3})/gi,
-        /Infinity[=:\s-]+(\d{3})/gi,
-        /Mock\s*Theta[=:\s-]+(\d{3})/gi,
-        /MockTheta[=:\s-]+(\d{3})/gi,
-        /Compiler[=:\s-]+(\d{3})/gi,
-        /Debugger[=:\s-]+(\d{3})/gi,
-        /Lab\s*\d?\s*(\d{3})/gi,  // Lab 1 403, Lab 2 404
-    ];
-
-    for (const pattern of patterns) {
-        let match;
-        while ((match = pattern.exec(text)) !== null) {
-            const room = match[1];
-            // Only include valid room numbers (3 digits, 4xx or 5xx)
-            if (room && (room.startsWith('4') || room.startsWith('5')) && !rooms.includes(room)) {
-                rooms.push(room);
-            }
-        }
-    }
-
-    return rooms;
+// What a parse reads besides the file
+export interface ParseContext {
+    aliases: RoomAliasConfig;
+    coverage: DayCoverageConfig;
+    rooms: string[];      // registered room ids
+    batches: Batch[];
 }
 
-// Estimate time slot based on horizontal position in line
-function estimateTimeSlot(position: number, lineLength: number): TimeSlot | null {
-    const relativePos = position / Math.max(lineLength, 1);
-
-    // Skip if in lunch area (roughly middle of the line)
-    if (relativePos > 0.45 && relativePos < 0.55) {
-        return null;
-    }
-
-    if (relativePos < 0.12) {
-        return { start: '09:00', end: '10:00' };
-    } else if (relativePos < 0.22) {
-        return { start: '09:30', end: '10:30' };
-    } else if (relativePos < 0.32) {
-        return { start: '10:30', end: '11:30' };
-    } else if (relativePos < 0.42) {
-        return { start: '11:00', end: '12:00' };
-    } else if (relativePos < 0.58) {
-        // Lunch area - skip
-        return null;
-    } else if (relativePos < 0.68) {
-        return { start: '14:00', end: '15:00' };
-    } else if (relativePos < 0.78) {
-        return { start: '14:30', end: '15:30' };
-    } else if (relativePos < 0.88) {
-        return { start: '15:30', end: '16:30' };
-    } else {
-        return { start: '17:00', end: '18:00' };
-    }
+// Loaded per run so admin edits apply to the next parse
+export async function loadParseContext(): Promise<ParseContext> {
+    return {
+        aliases: await loadRoomAliases(),
+        coverage: await loadDayCoverage(),
+        rooms: await getAllRooms(),
+        batches: await listBatches()
+    };
 }
 
-// Parse schedule from text
-function parseScheduleFromText(text: string): RoomSchedule[] {
-    const scheduleMap = new Map<string, Map<string, TimeSlot[]>>();
-    const lines = text.split('\n');
+export interface ParsedTimetableVersion {
+    versionId: string;
+    schedules: ParsedScheduleEntry[];
+    breaks: ParsedBreak[];
+    report: ParseDiagnostics;
+}
 
-    // Find day markers and their line indices
-    const dayMarkers: { day: string; lineIndex: number }[] = [];
-    const dayRegex = /^\s*(Mon|Tue|Wed|Thur|Fri)\s*$/;
+// Read one uploaded timetable with the parser that recognises its layout, tagging
+// its slots and breaks with the semester and version. Never throws: a file that
+// cannot be downloaded or read ends up as an error in the report.
+export async function parseTimetableVersion(
+    { id: versionId, semester, name: fileName }: Omit<ActivePdf, 'filePath'>,
+    load: () => Promise<ArrayBuffer>,
+    { aliases, coverage, rooms, batches }: ParseContext
+): Promise<ParsedTimetableVersion> {
+    const report = createDiagnostics(semester, fileName);
+    const matchRooms = createRoomMatcher(aliases, (room, text, reason) => {
+        report.rejectedRooms.push({ room, text, reason });
+    }, rooms);
 
-    for (let i = 0; i < lines.length; i++) {
-        const match = lines[i].match(dayRegex);
-        if (match) {
-            dayMarkers.push({ day: match[1], lineIndex: i });
+    try {
+        const timetable = await parseTimetable({ name: fileName, data: await load() }, { extractRooms: matchRooms, report });
+
+        // Classes printed on a day the term is closed are dropped, and reported
+        // since either the timetable or the day coverage is wrong
+        const isOpen = (day: DayOfWeek) => getTermDayStatus(coverage, semester, day) !== 'closed';
+        const schedules = assignParentBatches(timetable.schedules.filter(schedule => isOpen(schedule.day)), batches);
+        const breaks = timetable.breaks.filter(window => isOpen(window.day));
+        report.unknownBatches = findUnknownBatches(schedules, breaks, batches);
+        for (const schedule of timetable.schedules.filter(s => !isOpen(s.day))) {
+            report.errors.push(`${DAY_NAMES[schedule.day]} is closed for semester ${semester}: dropped ${schedule.occupied.length} slots in room ${schedule.room}`);
         }
-    }
 
-    // Assign lines to days
-    // Lines between day markers belong to the PREVIOUS day marker
-    // For the first section (before Mon), we look ahead to see which day it belongs to
-
-    for (let dayIdx = 0; dayIdx < dayMarkers.length; dayIdx++) {
-        const { day, lineIndex } = dayMarkers[dayIdx];
-        if (day === 'Fri') continue; // Skip Friday (contest day)
-
-        // Calculate line range for this day
-        // Include 4 lines before the marker and all lines until next marker
-        const startLine = dayIdx === 0 ? 0 : dayMarkers[dayIdx - 1].lineIndex + 1;
-        const endLine = dayIdx < dayMarkers.length - 1
-            ? dayMarkers[dayIdx + 1].lineIndex
-            : lines.length;
-
-        // Also include lines just before the day marker (they belong to this day)
-        const actualStart = Math.max(0, lineIndex - 4);
-
-        // Process lines for this day
-        for (let i = actualStart; i < endLine; i++) {
-            const line = lines[i];
-            if (!line.trim()) continue;
-            if (line.match(dayRegex)) continue; // Skip day marker line itself
-            if (line.includes('CONTEST')) continue;
-
-            // Extract rooms from line
-            const lineRooms = extractRoomNumbers(line);
-
-            for (const room of lineRooms) {
-                // Find position of room mentions in line
-                const roomPatterns = [
-                    new RegExp(`Room\\s*(?:No\\.?|no)?\\s*${room}`, 'gi'),
-                    new RegExp(`\\(Room\\s*(?:no)?\\s*${room}`, 'gi'),
-                    new RegExp(`\\(${room}\\)`, 'g'),
-                    new RegExp(`Enigma[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Lambda[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Memory[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Architecture[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Infinity[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Mock\\s*Theta[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`MockTheta[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Compiler[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Debugger[=:\\s-]+${room}`, 'gi'),
-                    new RegExp(`Lab\\s*\\d?\\s*${room}`, 'gi'),
-                ];
-
-                for (const pattern of roomPatterns) {
-                    let match;
-                    while ((match = pattern.exec(line)) !== null) {
-                        const timeSlot = estimateTimeSlot(match.index, line.length);
-                        if (timeSlot) {
-                            if (!scheduleMap.has(room)) {
-                                scheduleMap.set(room, new Map());
-                            }
-                            if (!scheduleMap.get(room)!.has(day)) {
-                                scheduleMap.get(room)!.set(day, []);
-                            }
-                            scheduleMap.get(room)!.get(day)!.push(timeSlot);
-                        }
-                    }
-                }
-            }
+        for (const schedule of schedules) {
+            report.dayCounts[schedule.day] = (report.dayCounts[schedule.day] || 0) + schedule.occupied.length;
+            report.slotCount += schedule.occupied.length;
         }
-    }
-
-    // Convert to RoomSchedule array
-    const result: RoomSchedule[] = [];
-    for (const [room, dayMap] of scheduleMap) {
-        for (const [day, slots] of dayMap) {
-            if (slots.length > 0) {
-                result.push({
-                    room,
-                    day,
-                    occupied: mergeTimeSlots(slots)
-                });
-            }
+        if (report.errors.length === 0 && report.slotCount === 0) {
+            report.errors.push('No occupied slots found');
         }
-    }
 
-    return result;
+        return {
+            versionId,
+            schedules: schedules.map(schedule => ({
+                ...schedule,
+                occupied: schedule.occupied.map(slot => ({ ...slot, semester, version: versionId }))
+            })),
+            breaks: breaks.map(window => ({ ...window, semester, version: versionId })),
+            report
+        };
+    } catch (error) {
+        console.error('Error downloading/extracting PDF:', error);
+        report.errors.push(error instanceof Error ? error.message : 'Failed to extract PDF');
+        return { versionId, schedules: [], breaks: [], report };
+    }
 }
 
-// Merge overlapping time slots
-function mergeTimeSlots(slots: TimeSlot[]): TimeSlot[] {
-    if (slots.length === 0) return [];
+// Store a parse against its version: the diagnostics report and the parsed schedule
+export async function saveTimetableVersion({ versionId, schedules, breaks, report }: ParsedTimetableVersion): Promise<void> {
+    await saveDiagnostics(report);
+    await saveVersionSchedule(createVersionSchedule(versionId, report.semester, report.pdfName, schedules, breaks, report.parser));
+}
 
-    const sorted = [...slots].sort((a, b) => a.start.localeCompare(b.start));
-    const merged: TimeSlot[] = [{ ...sorted[0] }];
+// Make a semester's live slots follow its active versions: each version's stored
+// schedule (parsed now if it never was), tagged with the version so the search
+// can keep the one effective on a date. Returns the number of live slots.
+export async function publishSemester(semester: number, origin: WriteOrigin): Promise<number> {
+    return publishSemesters([semester], origin);
+}
 
-    for (let i = 1; i < sorted.length; i++) {
-        const last = merged[merged.length - 1];
-        const current = sorted[i];
+// publishSemester for several semesters, written under one snapshot
+export async function publishSemesters(semesters: number[], origin: WriteOrigin): Promise<number> {
+    const active = await getActiveVersions();
+
+    const published: SemesterSchedule[] = [];
+    for (const semester of semesters) {
+        const schedules: ParsedScheduleEntry[] = [];
+        const breaks: ParsedBreak[] = [];
+        for (const version of active.filter(version => version.semester === semester)) {
+            const parsed = await loadOrParseVersion(version);
+            schedules.push(...parsed.schedules);
+            breaks.push(...parsed.breaks);
+        }
+        published.push({ semester, schedules, breaks });
+    }
 
-        // Merge if overlapping or adjacent
-        const lastEnd = timeToMinutes(last.end);
-        const currentStart = timeToMinutes(current.start);
+    await replaceSemesterSchedules(published, origin);
+    return published
+        .flatMap(({ schedules }) => schedules)
+        .reduce((count, entry) => count + entry.occupied.length, 0);
+}
 
-        if (currentStart <= lastEnd + 30) { // Within 30 min = merge
-            if (current.end > last.end) {
-                last.end = current.end;
-            }
-        } else {
-            merged.push({ ...current });
-        }
+async function loadOrParseVersion(version: PdfVersionRow): Promise<{ schedules: ParsedScheduleEntry[]; breaks: ParsedBreak[] }> {
+    const fileName = storedFileName(version);
+    const stored = await loadVersionSchedule(version.semester, fileName);
+
+    // Slots are re-tagged, since schedules stored before the registry carry no version id
+    if (stored) {
+        return {
+            schedules: stored.schedules.map(entry => ({
+                ...entry,
+                occupied: entry.occupied.map(slot => ({ ...slot, version: version.id }))
+            })),
+            breaks: stored.breaks.map(window => ({ ...window, version: version.id }))
+        };
     }
 
-    return merged;
+    const parsed = await parseTimetableVersion(
+        { id: version.id, semester: version.semester, name: fileName },
+        () => downloadTimetable(version.file_path),
+        await loadParseContext()
+    );
+    await saveTimetableVersion(parsed);
+    return parsed;
 }
 
-function timeToMinutes(time: string): number {
-    const [h, m] = time.split(':').map(Number);
-    return h * 60 + m;
+export type ParseFileStatus = 'pending' | 'parsing' | 'done' | 'failed';
+
+// Where one active file is in a parse run
+export interface ParseFileProgress {
+    semester: number;
+    name: string;
+    status: ParseFileStatus;
+    slotCount?: number;
+    error?: string;
 }
 
-// Main export
-export async function getSchedulesFromPdfs(): Promise<RoomSchedule[]> {
-    const activePdfs = await getActivePdfUrls();
+// Parse every active timetable file, storing a diagnostics report for each one.
+// A dry run parses the same way but leaves the stored reports untouched.
+// onProgress is handed every file's progress whenever a file starts or finishes.
+export async function parseActivePdfs(
+    { dryRun = false, onProgress }: {
+        dryRun?: boolean;
+        onProgress?: (files: ParseFileProgress[]) => Promise<void> | void;
+    } = {}
+): Promise<{ schedules: ParsedScheduleEntry[]; breaks: ParsedBreak[]; diagnostics: ParseDiagnostics[] }> {
+    const activePdfs = await getActivePdfs();
+    const progress: ParseFileProgress[] = activePdfs.map(pdf => ({ semester: pdf.semester, name: pdf.name, status: 'pending' }));
+    await onProgress?.(progress.map(file => ({ ...file })));
 
     if (activePdfs.length === 0) {
-        return [];
+        return { schedules: [], breaks: [], diagnostics: [] };
     }
 
-    const allSchedules: RoomSchedule[] = [];
+    const context = await loadParseContext();
+    const allSchedules: ParsedScheduleEntry[] = [];
+    const allBreaks: ParsedBreak[] = [];
+    const allDiagnostics: ParseDiagnostics[] = [];
 
-    for (const pdf of activePdfs) {
-        console.log('Parsing PDF:', pdf.name);
-        const text = await extractPdfTextFromUrl(pdf.url, pdf.name);
-        if (text.length > 0) {
-            const schedules = parseScheduleFromText(text);
-            console.log(`Found ${schedules.length} schedules`);
-            allSchedules.push(...schedules);
+    for (const [index, pdf] of activePdfs.entries()) {
+        progress[index].status = 'parsing';
+        await onProgress?.(progress.map(file => ({ ...file })));
+
+        const parsed = await parseTimetableVersion(pdf, () => downloadTimetable(pdf.filePath), context);
+        const { report } = parsed;
+        if (!dryRun) {
+            await saveTimetableVersion(parsed);
         }
+        allSchedules.push(...parsed.schedules);
+        allBreaks.push(...parsed.breaks);
+        allDiagnostics.push(report);
+
+        const failed = report.slotCount === 0 && report.errors.length > 0;
+        progress[index] = {
+            ...progress[index],
+            status: failed ? 'failed' : 'done',
+            slotCount: report.slotCount,
+            error: failed ? report.errors[0] : undefined
+        };
+        await onProgress?.(progress.map(file => ({ ...file })));
     }
 
     // Merge same room/day entries from different PDFs
-    return mergeAllSchedules(allSchedules);
+    return {
+        schedules: mergeAllSchedules(allSchedules),
+        breaks: combineBreaks(allBreaks),
+        diagnostics: allDiagnostics
+    };
+}
+
+// Main export
+export async function getSchedulesFromPdfs(): Promise<ParsedScheduleEntry[]> {
+    const { schedules } = await parseActivePdfs();
+    return schedules;
 }
 
-function mergeAllSchedules(schedules: RoomSchedule[]): RoomSchedule[] {
-    const merged = new Map<string, RoomSchedule>();
+function mergeAllSchedules(schedules: ParsedScheduleEntry[]): ParsedScheduleEntry[] {
+    const merged = new Map<string, ParsedScheduleEntry>();
 
     for (const schedule of schedules) {
         const key = `${schedule.room}-${schedule.day}`;
         if (merged.has(key)) {
             const existing = merged.get(key)!;
-            existing.occupied = mergeTimeSlots([...existing.occupied, ...schedule.occupied]);
+            existing.occupied = combineSlots([...existing.occupied, ...schedule.occupied]);
         } else {
-            merged.set(key, { ...schedule, occupied: [...schedule.occupied] });
+            merged.set(key, { ...schedule, occupied: combineSlots(schedule.occupied) });
         }
     }
 
@@ -314,6 +261,6 @@ function mergeAllSchedules(schedules: RoomSchedule[]): RoomSchedule[] {
 }
 
 export async function hasPdfFiles(): Promise<boolean> {
-    const pdfs = await getActivePdfUrls();
+    const pdfs = await getActivePdfs();
     return pdfs.length > 0;
 }
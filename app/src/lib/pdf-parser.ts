@@ -2,27 +2,44 @@
  * PDF Parser for Timetable Extraction
  * 
  * This module provides schedule data management.
- * Schedule data is stored as JSON and can be imported/updated via the admin panel.
- * 
- * For PDF parsing, a separate manual process or external service should be used
- * to extract the data and then import it via the API.
+ * Schedule data is stored as rows in the room_schedules and schedule_breaks tables
+ * (see room-schedules.ts) and can be imported/updated via the admin panel.
  */
 
+import type { BreakWindow, DayOfWeek, OccupiedSlot, RoomSchedule, SessionType } from '@/types';
+import { parseDayOfWeek } from '@/lib/days';
+import {
+    countScheduleRows,
+    deleteBreakRows,
+    deleteScheduleRows,
+    insertBreakRows,
+    insertScheduleRows,
+    latestScheduleWrite,
+    replaceBreakRows,
+    replaceScheduleRows,
+    selectBreakRows,
+    selectScheduleRows,
+    type ScheduleRowFilter
+} from '@/lib/room-schedules';
+import { ensureBaselineSnapshot, recordSnapshot, type WriteOrigin } from '@/lib/schedule-snapshots';
+import { getStorage } from '@/lib/storage';
+import { findUnknownBatches, listBatches } from '@/lib/batches';
+import { keepKnownVersions } from '@/lib/pdf-versions';
+import { isTimetableFile } from '@/lib/timetable-files';
+
+export interface ParsedSlot extends OccupiedSlot {
+    semester?: number;
+    version?: string;   // pdf_versions id of the version the slot was parsed from
+}
 
-import path from 'path';
-import type { RoomSchedule, TimeSlot } from '@/types';
-
-export interface ParsedSlot {
-    start: string;
-    end: string;
-    batch?: string;
-    subject?: string;
+export interface ParsedBreak extends BreakWindow {
     semester?: number;
+    version?: string;
 }
 
 export interface ParsedScheduleEntry {
     room: string;
-    day: string;
+    day: DayOfWeek;
     occupied: ParsedSlot[];
 }
 
@@ -34,107 +51,84 @@ export interface ParsedPDFResult {
     error?: string;
 }
 
-export interface ScheduleCache {
-    lastUpdated: string;
-    schedules: ParsedScheduleEntry[];
+// Run a write to the live schedule and snapshot its result, keeping the state
+// found before the first snapshotted write as a baseline
+async function snapshotWrite<T>(origin: WriteOrigin, write: () => Promise<T>): Promise<T> {
+    await ensureBaselineSnapshot();
+    const result = await write();
+    await recordSnapshot(origin);
+    return result;
 }
 
-// Schedule Cache Management via Supabase
-// We store/retrieve 'schedules.json' from the 'timetables' bucket (or a separate one).
-// Using 'timetables' bucket for simplicity: 'data/schedules.json'
-
-const CACHE_FILE_PATH = 'data/schedules.json';
-
-// Save parsed schedules to Supabase
-export async function saveParsedSchedules(schedules: ParsedScheduleEntry[]): Promise<void> {
-    const supabase = await createClient();
-
-    const data = JSON.stringify({
-        lastUpdated: new Date().toISOString(),
-        schedules
-    }, null, 2);
-
-    await supabase
-        .storage
-        .from('timetables')
-        .upload(CACHE_FILE_PATH, data, {
-            upsert: true,
-            contentType: 'application/json'
-        });
+async function replaceAllRows(schedules: ParsedScheduleEntry[], breaks?: ParsedBreak[]): Promise<void> {
+    await replaceScheduleRows({}, schedules);
+    if (breaks) {
+        await replaceBreakRows({}, breaks);
+    }
 }
 
-// Load cached schedules from Supabase
-export async function loadCachedSchedules(): Promise<ParsedScheduleEntry[] | null> {
-    const supabase = await createClient();
+// Replace the whole live schedule.
+// Break windows are kept as they are unless new ones are given.
+export async function saveParsedSchedules(
+    schedules: ParsedScheduleEntry[],
+    breaks: ParsedBreak[] | undefined,
+    origin: WriteOrigin
+): Promise<void> {
+    await snapshotWrite(origin, () => replaceAllRows(schedules, breaks));
+}
 
+// Load the live schedule, one entry per room and day, optionally for one room, day or semester
+export async function loadCachedSchedules(filter: ScheduleRowFilter = {}): Promise<ParsedScheduleEntry[] | null> {
     try {
-        const { data, error } = await supabase
-            .storage
-            .from('timetables')
-            .download(CACHE_FILE_PATH);
-
-        if (error || !data) return null;
-
-        const text = await data.text();
-        const parsed: ScheduleCache = JSON.parse(text);
-        return parsed.schedules;
-    } catch {
+        return await selectScheduleRows(filter);
+    } catch (error) {
+        console.error('Failed to load schedules:', error);
         return null;
     }
 }
 
-// Get the last cache update time
-export async function getCacheLastUpdated(): Promise<string | null> {
-    const supabase = await createClient();
-
+// Load the live break windows, optionally for one day or semester
+export async function loadCachedBreaks(filter: Omit<ScheduleRowFilter, 'room'> = {}): Promise<ParsedBreak[]> {
     try {
-        const { data, error } = await supabase
-            .storage
-            .from('timetables')
-            .download(CACHE_FILE_PATH);
-
-        if (error || !data) return null;
+        return await selectBreakRows(filter);
+    } catch (error) {
+        console.error('Failed to load breaks:', error);
+        return [];
+    }
+}
 
-        const text = await data.text();
-        const parsed: ScheduleCache = JSON.parse(text);
-        return parsed.lastUpdated;
+// Get the last schedule update time
+export async function getCacheLastUpdated(): Promise<string | null> {
+    try {
+        return await latestScheduleWrite();
     } catch {
         return null;
     }
 }
 
 // Check if PDFs are available
-import { createClient } from '@/lib/supabase/server';
-
 export async function hasPDFData(): Promise<boolean> {
-    const supabase = await createClient();
-
     for (const semester of [1, 2]) {
-        const { data: files } = await supabase
-            .storage
-            .from('timetables')
-            .list(`semester${semester}`, { limit: 1 });
-
-        if (files && files.length > 0) {
-            const hasPdf = files.some(f => f.name.endsWith('.pdf'));
-            if (hasPdf) return true;
-        }
+        const files = await getStorage().files.list(`semester${semester}`, { limit: 1 });
+        if (files.some(f => isTimetableFile(f.name))) return true;
     }
 
     return false;
 }
 
-// Check if we have actual parsed schedule data in cache
+// Check if we have actual parsed schedule data
 export async function hasScheduleData(): Promise<boolean> {
-    const cached = await loadCachedSchedules();
-    return cached !== null && cached.length > 0;
+    try {
+        return await countScheduleRows() > 0;
+    } catch {
+        return false;
+    }
 }
 
 // Check if we have any data source available (cache or PDFs to parse)
 export async function hasAnyDataSource(): Promise<boolean> {
     // Check cache first
-    const cached = await loadCachedSchedules();
-    if (cached && cached.length > 0) {
+    if (await hasScheduleData()) {
         return true;
     }
 
@@ -155,30 +149,59 @@ export function toRoomSchedule(entry: ParsedScheduleEntry): RoomSchedule {
         day: entry.day,
         occupied: entry.occupied.map(slot => ({
             start: slot.start,
-            end: slot.end
+            end: slot.end,
+            batch: slot.batch,
+            subBatch: slot.subBatch,
+            subject: slot.subject,
+            type: slot.type
         }))
     };
 }
 
-// Merge time slots (combines overlapping/adjacent slots)
-function mergeTimeSlots(slots: TimeSlot[]): TimeSlot[] {
-    if (slots.length === 0) return [];
-
-    const sorted = [...slots].sort((a, b) => a.start.localeCompare(b.start));
-    const merged: TimeSlot[] = [{ ...sorted[0] }];
+function slotKey(slot: ParsedSlot): string {
+    return [slot.start, slot.end, slot.batch, slot.subBatch, slot.subject, slot.type, slot.version].join('|');
+}
 
-    for (let i = 1; i < sorted.length; i++) {
-        const last = merged[merged.length - 1];
-        const current = sorted[i];
+// Combine slots for one room/day, dropping exact duplicates.
+// Overlapping sessions are kept apart so each keeps its batch and subject, and
+// versions are kept apart since each applies over its own dates.
+export function combineSlots(slots: ParsedSlot[]): ParsedSlot[] {
+    const seen = new Set<string>();
+    return slots
+        .filter(slot => {
+            const key = slotKey(slot);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+}
 
-        if (current.start <= last.end) {
-            last.end = current.end > last.end ? current.end : last.end;
+// Combine break windows from several rows or files.
+// Windows of the same kind for a batch on a day are joined when they touch or overlap.
+// Semesters are kept apart, since each has its own batches under the same names,
+// and so are versions.
+export function combineBreaks(breaks: ParsedBreak[]): ParsedBreak[] {
+    const groupKey = (window: ParsedBreak) => [window.semester ?? '', window.version ?? '', window.day, window.batch, window.kind].join('|');
+    const sorted = [...breaks].sort((a, b) =>
+        groupKey(a).localeCompare(groupKey(b)) || a.start.localeCompare(b.start)
+    );
+    const combined: ParsedBreak[] = [];
+
+    for (const window of sorted) {
+        const last = combined[combined.length - 1];
+        if (last && groupKey(last) === groupKey(window) && window.start <= last.end) {
+            if (window.end > last.end) last.end = window.end;
         } else {
-            merged.push({ ...current });
+            combined.push({ ...window });
         }
     }
 
-    return merged;
+    return combined;
+}
+
+function isSessionType(value: unknown): value is SessionType {
+    return value === 'Lec' || value === 'Lab' || value === 'Tut';
 }
 
 // Parse schedule data from JSON format (for importing)
@@ -188,72 +211,148 @@ export function parseScheduleJSON(jsonData: unknown): ParsedScheduleEntry[] {
     }
 
     return jsonData.map((item, index) => {
-        if (!item.room || !item.day || !Array.isArray(item.occupied)) {
+        const day = parseDayOfWeek(String(item.day || ''));
+        if (!item.room || !day || !Array.isArray(item.occupied)) {
             throw new Error(`Invalid schedule entry at index ${index}`);
         }
 
         return {
             room: String(item.room),
-            day: String(item.day),
+            day,
             occupied: item.occupied.map((slot: Record<string, unknown>) => ({
                 start: String(slot.start || ''),
                 end: String(slot.end || ''),
                 batch: slot.batch ? String(slot.batch) : undefined,
+                subBatch: slot.subBatch ? String(slot.subBatch) : undefined,
                 subject: slot.subject ? String(slot.subject) : undefined,
-                semester: slot.semester ? Number(slot.semester) : undefined
+                type: isSessionType(slot.type) ? slot.type : undefined,
+                semester: slot.semester ? Number(slot.semester) : undefined,
+                version: slot.version ? String(slot.version) : undefined
             }))
         };
     });
 }
 
-// Import schedule data from JSON
+// Parse break windows from JSON format (for importing)
+export function parseBreaksJSON(jsonData: unknown): ParsedBreak[] {
+    if (!Array.isArray(jsonData)) {
+        throw new Error('Break data must be an array');
+    }
+
+    return jsonData.map((item, index) => {
+        const day = parseDayOfWeek(String(item.day || ''));
+        if (!day || !item.batch || !item.start || !item.end || (item.kind !== 'Lunch' && item.kind !== 'Break')) {
+            throw new Error(`Invalid break entry at index ${index}`);
+        }
+
+        return {
+            day,
+            batch: String(item.batch),
+            kind: item.kind,
+            start: String(item.start),
+            end: String(item.end),
+            semester: item.semester ? Number(item.semester) : undefined,
+            version: item.version ? String(item.version) : undefined
+        };
+    });
+}
+
+// Import schedule data from JSON.
+// Merging only adds the slots and breaks that are not live yet; otherwise the import replaces everything.
 export async function importScheduleData(
     schedules: ParsedScheduleEntry[],
-    merge: boolean = false
+    merge: boolean,
+    breaks: ParsedBreak[] | undefined,
+    origin: WriteOrigin
 ): Promise<{ success: boolean; count: number }> {
-    let finalSchedules = schedules;
-
-    if (merge) {
-        // Merge with existing schedules
-        const existing = await loadCachedSchedules() || [];
-        const scheduleMap = new Map<string, ParsedScheduleEntry>();
-
-        // Add existing schedules
-        for (const entry of existing) {
-            const key = `${entry.room}-${entry.day}`;
-            scheduleMap.set(key, { ...entry, occupied: [...entry.occupied] });
+    return snapshotWrite(origin, async () => {
+        if (merge) {
+            await mergeRows(schedules, breaks);
+        } else {
+            await replaceAllRows(schedules, breaks);
         }
+        return { success: true, count: schedules.length };
+    });
+}
 
-        // Merge new schedules
-        for (const entry of schedules) {
-            const key = `${entry.room}-${entry.day}`;
-            if (scheduleMap.has(key)) {
-                const existing = scheduleMap.get(key)!;
-                existing.occupied.push(...entry.occupied);
-                existing.occupied = mergeTimeSlots(existing.occupied);
-            } else {
-                scheduleMap.set(key, { ...entry, occupied: [...entry.occupied] });
-            }
-        }
+async function mergeRows(schedules: ParsedScheduleEntry[], breaks?: ParsedBreak[]): Promise<void> {
+    const existing = new Map<string, ParsedSlot[]>();
+    for (const entry of await loadCachedSchedules() || []) {
+        existing.set(`${entry.room}-${entry.day}`, entry.occupied);
+    }
+
+    const added = schedules.map(entry => {
+        const liveKeys = new Set((existing.get(`${entry.room}-${entry.day}`) ?? []).map(slotKey));
+        return { ...entry, occupied: combineSlots(entry.occupied).filter(slot => !liveKeys.has(slotKey(slot))) };
+    });
+    await insertScheduleRows(added);
 
-        finalSchedules = Array.from(scheduleMap.values());
+    if (breaks) {
+        const live = await loadCachedBreaks();
+        const liveKeys = new Set(live.map(breakKey));
+        await insertBreakRows(breaks.filter(window => !liveKeys.has(breakKey(window))));
     }
+}
 
-    await saveParsedSchedules(finalSchedules);
+function breakKey(window: ParsedBreak): string {
+    return [window.semester ?? '', window.version ?? '', window.day, window.batch, window.kind, window.start, window.end].join('|');
+}
 
-    return { success: true, count: finalSchedules.length };
+// Import schedule and break JSON as posted to the API. Slots and breaks keep the
+// version they were parsed from, which decides the dates they apply on.
+// Rows are imported as-is, but batch names missing from the registry are returned
+// so typos get noticed.
+export async function importScheduleJSON(
+    { schedules, breaks }: { schedules: unknown; breaks?: unknown },
+    merge: boolean,
+    origin: WriteOrigin
+): Promise<{ count: number; unknownBatches: string[] }> {
+    const parsed = await keepKnownVersions(
+        parseScheduleJSON(schedules),
+        breaks !== undefined ? parseBreaksJSON(breaks) : undefined
+    );
+    const { count } = await importScheduleData(parsed.schedules, merge, parsed.breaks, origin);
+
+    return { count, unknownBatches: findUnknownBatches(parsed.schedules, parsed.breaks || [], await listBatches()) };
+}
+
+// One semester's slots and breaks, as replaceSemesterSchedules writes them
+export interface SemesterSchedule {
+    semester: number;
+    schedules: ParsedScheduleEntry[];
+    breaks: ParsedBreak[];
+}
+
+// Swap the slots and breaks of each given semester for newly parsed ones in a single
+// snapshotted write, leaving the other semesters' rows untouched
+export async function replaceSemesterSchedules(
+    semesters: SemesterSchedule[],
+    origin: WriteOrigin
+): Promise<{ success: boolean; count: number }> {
+    return snapshotWrite(origin, async () => {
+        let count = 0;
+        for (const { semester, schedules, breaks } of semesters) {
+            await replaceScheduleRows({ semester }, schedules.map(entry => ({
+                ...entry,
+                occupied: entry.occupied.map(slot => ({ ...slot, semester }))
+            })));
+            await replaceBreakRows({ semester }, breaks.map(window => ({ ...window, semester })));
+            count += schedules.length;
+        }
+
+        return { success: true, count };
+    });
 }
 
 // Clear all schedule data
-export async function clearScheduleData(): Promise<void> {
-    const supabase = await createClient();
+export async function clearScheduleData(origin: WriteOrigin): Promise<void> {
     try {
-        await supabase
-            .storage
-            .from('timetables')
-            .remove([CACHE_FILE_PATH]);
-    } catch {
-        // Ignore error
+        await snapshotWrite(origin, async () => {
+            await deleteScheduleRows();
+            await deleteBreakRows();
+        });
+    } catch (error) {
+        console.error('Failed to clear schedules:', error);
     }
 }
 
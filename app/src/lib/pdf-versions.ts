@@ -0,0 +1,243 @@
+/**
+ * PDF Versions
+ *
+ * Every uploaded timetable is a row in pdf_versions. Active versions are parsed
+ * and searched; admins pick them explicitly. Each version applies over an
+ * effective date range, open at either end, so a semester can have this week's
+ * timetable and next week's active side by side. On a date the search uses the
+ * active version effective then, preferring the one that started latest.
+ * A new upload takes over the dates it covers unless a version there is pinned.
+ */
+
+import { getStorage } from '@/lib/storage';
+import { isISODate } from '@/lib/academic-calendar';
+import { isTimetableFile } from '@/lib/timetable-files';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+
+export interface PdfVersionRow {
+    id: string;
+    name: string;          // original file name
+    file_path: string;     // storage path in the timetables bucket, semesterN/<timestamp>_<name>
+    semester: number;
+    is_active: boolean;
+    is_pinned: boolean;
+    parser: string | null;
+    uploaded_at: string;
+    effective_from: string | null;  // YYYY-MM-DD, first date the version applies; null for no start
+    effective_to: string | null;    // YYYY-MM-DD, last date the version applies; null for no end
+}
+
+// Dates a version applies over, both ends inclusive
+export interface EffectiveRange {
+    from: string | null;
+    to: string | null;
+}
+
+export type VersionAction = 'activate' | 'deactivate' | 'pin' | 'unpin';
+
+export const VERSION_ACTIONS: VersionAction[] = ['activate', 'deactivate', 'pin', 'unpin'];
+
+const VERSIONS_TABLE = 'pdf_versions';
+
+// Stored file name of a version, which names its diagnostics and parsed schedule
+export function storedFileName(version: PdfVersionRow): string {
+    return version.file_path.split('/').pop() || version.file_path;
+}
+
+// Where a browser can fetch a version's file
+export async function versionFileUrl(version: PdfVersionRow): Promise<string> {
+    return getStorage().files.url(version.file_path);
+}
+
+function versionsTable() {
+    return getStorage().table<PdfVersionRow>(VERSIONS_TABLE);
+}
+
+function parseRangeDate(value: unknown, field: string): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+    if (!isISODate(text)) {
+        throw new Error(`${field} must be a date like 2026-08-15`);
+    }
+    return text;
+}
+
+// Validate an effective range from a form or request body; empty ends stay open
+export function parseEffectiveRange(from: unknown, to: unknown): EffectiveRange {
+    const range = { from: parseRangeDate(from, 'Effective from'), to: parseRangeDate(to, 'Effective until') };
+    if (range.from && range.to && range.to < range.from) {
+        throw new Error('The effective range ends before it starts');
+    }
+    return range;
+}
+
+export function rangeOf(version: PdfVersionRow): EffectiveRange {
+    return { from: version.effective_from, to: version.effective_to };
+}
+
+export function isEffectiveOn(version: PdfVersionRow, date: string): boolean {
+    return (!version.effective_from || version.effective_from <= date)
+        && (!version.effective_to || date <= version.effective_to);
+}
+
+// Whether every date of inner also falls in outer
+export function coversRange(outer: EffectiveRange, inner: EffectiveRange): boolean {
+    const startsInside = !outer.from || (inner.from !== null && outer.from <= inner.from);
+    const endsInside = !outer.to || (inner.to !== null && inner.to <= outer.to);
+    return startsInside && endsInside;
+}
+
+// The version each semester uses on a date: of its active versions effective
+// then, the one that started latest, and of those the newest upload
+export function effectiveVersions(versions: PdfVersionRow[], date: string): PdfVersionRow[] {
+    const bySemester = new Map<number, PdfVersionRow>();
+    for (const version of versions) {
+        if (!version.is_active || !isEffectiveOn(version, date)) continue;
+
+        const current = bySemester.get(version.semester);
+        const from = version.effective_from ?? '';
+        const currentFrom = current?.effective_from ?? '';
+        if (!current || from > currentFrom || (from === currentFrom && version.uploaded_at > current.uploaded_at)) {
+            bySemester.set(version.semester, version);
+        }
+    }
+    return [...bySemester.values()].sort((a, b) => a.semester - b.semester);
+}
+
+export async function listVersions(semester?: number): Promise<PdfVersionRow[]> {
+    return versionsTable().select({ where: { semester }, orderBy: 'uploaded_at', ascending: false });
+}
+
+export async function getVersion(id: string): Promise<PdfVersionRow | null> {
+    return (await versionsTable().select({ where: { id } }))[0] ?? null;
+}
+
+// Every active version, each applying over its effective range
+export async function getActiveVersions(): Promise<PdfVersionRow[]> {
+    return versionsTable().select({ where: { is_active: true }, orderBy: 'semester' });
+}
+
+// Record an uploaded file as a new, inactive version
+export async function registerVersion(
+    { semester, name, filePath, parser, range = { from: null, to: null } }: {
+        semester: number;
+        name: string;
+        filePath: string;
+        parser?: string;
+        range?: EffectiveRange;
+    }
+): Promise<PdfVersionRow> {
+    return versionsTable().insertOne({
+        semester,
+        name,
+        file_path: filePath,
+        parser: parser ?? null,
+        is_active: false,
+        is_pinned: false,
+        effective_from: range.from,
+        effective_to: range.to
+    });
+}
+
+// Active versions of a semester that a version over range would replace: the
+// ones whose dates it covers entirely
+async function replacedVersions(semester: number, range: EffectiveRange, id?: string): Promise<PdfVersionRow[]> {
+    return (await listVersions(semester)).filter(version =>
+        version.is_active && version.id !== id && coversRange(range, rangeOf(version))
+    );
+}
+
+// Whether a new upload over range may take over as active: not while a version
+// it would replace is pinned
+export async function canReplaceActive(semester: number, range: EffectiveRange = { from: null, to: null }): Promise<boolean> {
+    return !(await replacedVersions(semester, range)).some(version => version.is_pinned);
+}
+
+// Apply an admin action. Activating or pinning a version deactivates the active
+// versions of its semester whose dates it covers, so an undated version replaces
+// them all; deactivating also unpins.
+export async function applyVersionAction(id: string, action: VersionAction): Promise<PdfVersionRow> {
+    const version = await getVersion(id);
+    if (!version) {
+        throw new Error('PDF version not found');
+    }
+
+    if (action === 'activate' || action === 'pin') {
+        const replaced = await replacedVersions(version.semester, rangeOf(version), id);
+        if (replaced.length > 0) {
+            await versionsTable().update({ id: replaced.map(other => other.id) }, { is_active: false, is_pinned: false });
+        }
+    }
+
+    const changes: Pick<PdfVersionRow, 'is_active' | 'is_pinned'> = {
+        activate: { is_active: true, is_pinned: version.is_pinned },
+        pin: { is_active: true, is_pinned: true },
+        unpin: { is_active: version.is_active, is_pinned: false },
+        deactivate: { is_active: false, is_pinned: false },
+    }[action];
+
+    const [updated] = await versionsTable().update({ id }, changes);
+    if (!updated) {
+        throw new Error('PDF version not found');
+    }
+    return updated;
+}
+
+// Change the dates a version applies over. Other versions are left as they are:
+// where ranges overlap, the one that starts latest is used.
+export async function setVersionRange(id: string, range: EffectiveRange): Promise<PdfVersionRow> {
+    const [updated] = await versionsTable().update({ id }, { effective_from: range.from, effective_to: range.to });
+    if (!updated) {
+        throw new Error('PDF version not found');
+    }
+    return updated;
+}
+
+// Delete a version; its live slots and breaks go with it through the foreign keys
+export async function deleteVersion(id: string): Promise<void> {
+    await versionsTable().delete({ id });
+}
+
+// Keep the version tags of slots and breaks that name a registered version.
+// Rows of a version deleted since keep their data but lose the link, which
+// pdf_version_id could not hold.
+export async function keepKnownVersions<B extends ParsedBreak[] | undefined>(
+    schedules: ParsedScheduleEntry[],
+    breaks: B
+): Promise<{ schedules: ParsedScheduleEntry[]; breaks: B }> {
+    const versions = new Set((await listVersions()).map(version => version.id));
+    const known = (version?: string) => version !== undefined && versions.has(version) ? version : undefined;
+
+    return {
+        schedules: schedules.map(entry => ({
+            ...entry,
+            occupied: entry.occupied.map(slot => ({ ...slot, version: known(slot.version) }))
+        })),
+        breaks: breaks?.map(window => ({ ...window, version: known(window.version) })) as B
+    };
+}
+
+// Record files uploaded before the registry existed. A semester with no active
+// version gets its newest file activated, matching the old "latest file wins".
+export async function registerStoredFiles(): Promise<void> {
+    const known = new Set((await listVersions()).map(version => version.file_path));
+
+    for (const semester of [1, 2]) {
+        const files = await getStorage().files.list(`semester${semester}`, { limit: 100, order: 'desc' });
+
+        const missing = files.filter(file =>
+            isTimetableFile(file.name) && !known.has(`semester${semester}/${file.name}`)
+        );
+        if (missing.length === 0) continue;
+
+        const hasActive = (await listVersions(semester)).some(version => version.is_active);
+        await versionsTable().insert(missing.map((file, index) => ({
+            semester,
+            name: file.name.split('_').slice(1).join('_') || file.name,
+            file_path: `semester${semester}/${file.name}`,
+            is_active: !hasActive && index === 0,
+            is_pinned: false,
+            uploaded_at: file.createdAt || new Date().toISOString(),
+        })));
+    }
+}
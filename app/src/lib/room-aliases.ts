@@ -0,0 +1,170 @@
+/**
+ * Room Alias Dictionary
+ *
+ * Timetables name lab rooms after sub-batches ("Enigma- 504 & Lambda- 503").
+ * The alias dictionary maps those names to sub-batches and their parent batch,
+ * and is stored next to the schedule cache so admins can edit it without a deploy.
+ */
+
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+
+export interface RoomAlias {
+    alias: string;        // Text printed before the room number, e.g. "Mock Theta"
+    subBatch: string;
+    parentBatch?: string;
+}
+
+export interface RoomAliasConfig {
+    aliases: RoomAlias[];
+    roomPattern: string;  // Regex source a room number must match, e.g. "[45]\\d{2}"
+    updatedAt?: string;
+}
+
+// A room found in a cell, with the sub-batch that uses it when an alias matched
+export interface RoomMention {
+    room: string;
+    text?: string;      // the text the room was read from, e.g. "Enigma- 504"
+    subBatch?: string;
+    parentBatch?: string;
+}
+
+const ALIASES_FILE_PATH = 'data/room-aliases.json';
+
+export const DEFAULT_ROOM_ALIASES: RoomAliasConfig = {
+    roomPattern: '[45]\\d{2}',
+    aliases: [
+        { alias: 'Compiler', subBatch: 'Compiler', parentBatch: 'Hopper' },
+        { alias: 'Debugger', subBatch: 'Debugger', parentBatch: 'Hopper' },
+        { alias: 'Enigma', subBatch: 'Enigma', parentBatch: 'Turing' },
+        { alias: 'Lambda', subBatch: 'Lambda', parentBatch: 'Turing' },
+        { alias: 'Memory', subBatch: 'Memory', parentBatch: 'Neumann' },
+        { alias: 'Architecture', subBatch: 'Architecture', parentBatch: 'Neumann' },
+        { alias: 'Infinity', subBatch: 'Infinity', parentBatch: 'Ramanujan' },
+        { alias: 'Mock Theta', subBatch: 'Mock Theta', parentBatch: 'Ramanujan' },
+        { alias: 'Lab 1', subBatch: 'Lab 1' },
+        { alias: 'Lab 2', subBatch: 'Lab 2' },
+    ]
+};
+
+// Load the alias dictionary from storage, falling back to the defaults
+export async function loadRoomAliases(): Promise<RoomAliasConfig> {
+    try {
+        const config = await readJsonFile(ALIASES_FILE_PATH);
+        return config ? parseRoomAliasConfig(config) : DEFAULT_ROOM_ALIASES;
+    } catch {
+        return DEFAULT_ROOM_ALIASES;
+    }
+}
+
+// Save the alias dictionary to storage
+export async function saveRoomAliases(config: RoomAliasConfig): Promise<RoomAliasConfig> {
+    const saved = { ...config, updatedAt: new Date().toISOString() };
+    await writeJsonFile(ALIASES_FILE_PATH, saved);
+    return saved;
+}
+
+// Validate alias dictionary JSON (for the admin editor)
+export function parseRoomAliasConfig(jsonData: unknown): RoomAliasConfig {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Alias dictionary must be an object');
+    }
+
+    const { aliases, roomPattern, updatedAt } = jsonData as Record<string, unknown>;
+    if (!Array.isArray(aliases)) {
+        throw new Error('aliases must be an array');
+    }
+
+    const pattern = typeof roomPattern === 'string' && roomPattern.trim()
+        ? roomPattern.trim()
+        : DEFAULT_ROOM_ALIASES.roomPattern;
+    try {
+        new RegExp(pattern);
+    } catch {
+        throw new Error(`Invalid room pattern: ${pattern}`);
+    }
+
+    return {
+        roomPattern: pattern,
+        updatedAt: typeof updatedAt === 'string' ? updatedAt : undefined,
+        aliases: aliases.map((item, index) => {
+            if (!item || !String(item.alias || '').trim() || !String(item.subBatch || '').trim()) {
+                throw new Error(`Invalid alias at index ${index}: alias and subBatch are required`);
+            }
+            return {
+                alias: String(item.alias).trim(),
+                subBatch: String(item.subBatch).trim(),
+                parentBatch: item.parentBatch ? String(item.parentBatch).trim() : undefined
+            };
+        })
+    };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Build a room extractor for the alias dictionary.
+// Every alias in a combined cell gets its own room, so
+// "Enigma- 504 & Lambda- 503" gives 504 for Enigma and 503 for Lambda.
+// Numbers that look like rooms but are not used are passed to onRejected.
+// Rooms in the registry are accepted whether or not they match the room pattern.
+export function createRoomMatcher(
+    config: RoomAliasConfig,
+    onRejected?: (room: string, text: string, reason: string) => void,
+    registeredRooms: string[] = []
+): (text: string) => RoomMention[] {
+    const roomToken = '([A-Za-z]?\\d{2,4})';
+    const roomRegex = new RegExp(`^(?:${config.roomPattern})$`);
+    const registered = new Set(registeredRooms);
+
+    const aliasPatterns = config.aliases.map(alias => ({
+        alias,
+        // Spaces in an alias are optional in the PDF ("MockTheta" and "Mock Theta")
+        regex: new RegExp(
+            `\\b${escapeRegExp(alias.alias).replace(/\s+/g, '\\s*')}\\s*[=:\\-]*\\s*${roomToken}\\b`,
+            'gi'
+        )
+    }));
+
+    const plainPatterns = [
+        new RegExp(`Room\\s*(?:No\\.?|no)?\\s*${roomToken}\\b`, 'gi'),
+        new RegExp(`\\(${roomToken}\\)`, 'g'),
+    ];
+
+    return (text: string) => {
+        const mentions: RoomMention[] = [];
+        const seen = new Set<string>();
+        const add = (mention: RoomMention) => {
+            const firstSeen = !seen.has(mention.room);
+            seen.add(mention.room);
+            if (!roomRegex.test(mention.room) && !registered.has(mention.room)) {
+                if (firstSeen) onRejected?.(mention.room, text, 'Does not match the room pattern');
+                return;
+            }
+            if (mentions.some(m => m.room === mention.room && m.subBatch === mention.subBatch)) return;
+            mentions.push(mention);
+        };
+
+        for (const { alias, regex } of aliasPatterns) {
+            for (const match of text.matchAll(regex)) {
+                add({ room: match[1], text: match[0], subBatch: alias.subBatch, parentBatch: alias.parentBatch });
+            }
+        }
+
+        for (const regex of plainPatterns) {
+            for (const match of text.matchAll(regex)) {
+                // Rooms already claimed by a sub-batch are not repeated without one
+                if (mentions.some(m => m.room === match[1])) continue;
+                add({ room: match[1], text: match[0] });
+            }
+        }
+
+        for (const match of text.matchAll(/\b\d{3}\b/g)) {
+            if (!seen.has(match[0])) {
+                onRejected?.(match[0], text, 'No room keyword or alias');
+            }
+        }
+
+        return mentions;
+    };
+}
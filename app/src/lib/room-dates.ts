@@ -0,0 +1,95 @@
+/**
+ * Room Dates
+ *
+ * Turns a calendar date into what the room search needs: its weekday, the
+ * academic calendar's entry for it, and the timetable versions whose classes
+ * run on it. When the date has no classes, says why, so students see "Republic
+ * Day" or "outside term" instead of an unexplained list of free rooms.
+ */
+
+import { parseISO } from 'date-fns';
+import { resolveCalendarDay, runsOn, type AcademicCalendar, type CalendarDay } from '@/lib/academic-calendar';
+import { getDayStatus, getTermDayStatus, type DayCoverageConfig } from '@/lib/day-coverage';
+import { dayOfDate, DAY_NAMES } from '@/lib/days';
+import { effectiveVersions, type PdfVersionRow } from '@/lib/pdf-versions';
+import type { DayOfWeek } from '@/types';
+
+export type NoClassesReason = 'closure' | 'holiday' | 'exam' | 'outside-term' | 'closed-day' | 'no-timetable';
+
+// Reasons that shut every room, rather than just freeing the ones classes would use
+export const ROOMLESS_REASONS: NoClassesReason[] = ['closure', 'closed-day', 'no-timetable'];
+
+export interface VersionSummary {
+    id: string;
+    name: string;
+    semester: number;
+}
+
+export interface ResolvedDate {
+    date: string;
+    day: DayOfWeek;
+    calendar: CalendarDay;
+    versions: VersionSummary[];     // active versions whose classes run on the date
+    reason: NoClassesReason | null; // why no classes run, or null when some do
+    message: string | null;
+}
+
+function describeReason(reason: NoClassesReason, resolved: Omit<ResolvedDate, 'reason' | 'message'>): string {
+    const label = resolved.calendar.label;
+    switch (reason) {
+        case 'closure': return `${label}: the campus is closed.`;
+        case 'holiday': return `${label}: there are no classes, so every room is free.`;
+        case 'exam': return `${label}: regular classes are off, but rooms may be in use for exams.`;
+        case 'outside-term': return `No term has classes on ${resolved.date}, so every room is free.`;
+        case 'closed-day': return `There are no sessions on ${DAY_NAMES[resolved.day]}s.`;
+        case 'no-timetable': return `No timetable has been published for the classes on ${resolved.date}.`;
+    }
+}
+
+// Resolve a date (YYYY-MM-DD) against the calendar, the day coverage and the
+// active versions. Each semester uses its version effective on the date, whose
+// classes run when the calendar has the semester teaching and its term does not
+// close that weekday. Without any active version
+// (a schedule imported as JSON) the live schedule is used as it is.
+export function resolveRoomDate(
+    date: string,
+    { calendar, coverage, versions, teachingDays }: {
+        calendar: AcademicCalendar;
+        coverage: DayCoverageConfig;
+        versions: PdfVersionRow[];
+        teachingDays?: DayOfWeek[];     // weekdays the campus runs sessions; every day when not given
+    }
+): ResolvedDate {
+    const day = dayOfDate(parseISO(date));
+    const calendarDay = resolveCalendarDay(calendar, date);
+    const inTerm = effectiveVersions(versions, date).filter(version => runsOn(calendarDay, version.semester));
+    const running = inTerm
+        .filter(version => getTermDayStatus(coverage, version.semester, day) !== 'closed')
+        .map(version => ({ id: version.id, name: version.name, semester: version.semester }));
+
+    const resolved = { date, day, calendar: calendarDay, versions: running };
+
+    let reason: NoClassesReason | null = null;
+    if (calendarDay.status === 'closure' || calendarDay.status === 'holiday' || calendarDay.status === 'exam') {
+        reason = calendarDay.status;
+    } else if (calendarDay.status === 'break') {
+        reason = 'outside-term';
+    } else if (
+        getDayStatus(coverage, day) === 'closed'
+        || (teachingDays && !teachingDays.includes(day))
+        || (inTerm.length > 0 && running.length === 0)
+    ) {
+        reason = 'closed-day';
+    } else if (versions.length > 0 && inTerm.length === 0) {
+        reason = 'no-timetable';
+    }
+
+    return { ...resolved, reason, message: reason ? describeReason(reason, resolved) : null };
+}
+
+// Whether a parsed slot or break runs on a resolved date: its semester must be
+// teaching, and a slot parsed from a version needs that version to be running
+export function runsOnDate(resolved: ResolvedDate, slot: { semester?: number; version?: string }): boolean {
+    if (!runsOn(resolved.calendar, slot.semester)) return false;
+    return !slot.version || resolved.versions.some(version => version.id === slot.version);
+}
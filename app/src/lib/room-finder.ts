@@ -1,5 +1,6 @@
-import type { RoomSchedule, FreeRoom, TimeSlot } from '@/types';
+import type { RoomSchedule, FreeRoom, TimeSlot, OccupiedSlot, BreakWindow, DayOfWeek, Room, RoomFilters, RoomRanking } from '@/types';
 import { OPERATING_HOURS } from '@/types';
+import { parseDayOfWeek } from '@/lib/days';
 import dayjs from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 
@@ -19,8 +20,8 @@ function minutesToTime(minutes: number): string {
 }
 
 // Merge schedules from multiple sources for the same room
-export function mergeRoomSchedules(schedules: RoomSchedule[]): Map<string, Map<string, TimeSlot[]>> {
-    const merged = new Map<string, Map<string, TimeSlot[]>>();
+export function mergeRoomSchedules(schedules: RoomSchedule[]): Map<string, Map<DayOfWeek, OccupiedSlot[]>> {
+    const merged = new Map<string, Map<DayOfWeek, OccupiedSlot[]>>();
 
     schedules.forEach(schedule => {
         if (!merged.has(schedule.room)) {
@@ -100,21 +101,95 @@ function findFreeSlots(
     return freeSlots;
 }
 
-// Get current day of week
-export function getCurrentDay(): string {
+// Find the session that starts when a free window ends
+function findNextSession(occupiedSlots: OccupiedSlot[], freeTill: string): OccupiedSlot | undefined {
+    const till = timeToMinutes(freeTill);
+    const starting = occupiedSlots.filter(slot => timeToMinutes(slot.start) === till);
+    return starting.find(slot => slot.subject) || starting[0];
+}
+
+// Breaks of the batches taught in a room that fall inside its free window.
+// A room is often free exactly because its batch is at lunch.
+function findBreaksInWindow(
+    occupiedSlots: OccupiedSlot[],
+    breaks: BreakWindow[],
+    day: DayOfWeek,
+    window: TimeSlot
+): BreakWindow[] {
+    const batches = new Set(occupiedSlots.map(slot => slot.batch).filter(Boolean));
+    const from = timeToMinutes(window.start);
+    const till = timeToMinutes(window.end);
+
+    return breaks.filter(brk =>
+        brk.day === day
+        && batches.has(brk.batch)
+        && timeToMinutes(brk.start) < till
+        && timeToMinutes(brk.end) > from
+    );
+}
+
+// Whether a room has every attribute asked for. Rooms without registry details
+// only pass when nothing is asked for, since nothing is known about them.
+export function matchesRoomFilters(details: Room | undefined, filters: RoomFilters): boolean {
+    const { minCapacity, type, floor, amenities = [] } = filters;
+    if (minCapacity === undefined && type === undefined && floor === undefined && amenities.length === 0) return true;
+    if (!details) return false;
+
+    if (minCapacity !== undefined && (details.capacity === null || details.capacity < minCapacity)) return false;
+    if (type !== undefined && details.type !== type) return false;
+    if (floor !== undefined && details.floor !== floor) return false;
+    return amenities.every(amenity => details.amenities.includes(amenity));
+}
+
+// Unknown values sort after known ones
+function compareKnown(a: number | null | undefined, b: number | null | undefined): number {
+    return (a ?? Infinity) - (b ?? Infinity);
+}
+
+function compareRooms(a: FreeRoom, b: FreeRoom): number {
+    return a.room.localeCompare(b.room, undefined, { numeric: true });
+}
+
+function rankingComparator(rankBy: RoomRanking, preferredFloor?: number): (a: FreeRoom, b: FreeRoom) => number {
+    const byDuration = (a: FreeRoom, b: FreeRoom) => b.duration - a.duration;
+    const floorDistance = (room: FreeRoom) =>
+        preferredFloor === undefined || room.details?.floor == null ? null : Math.abs(room.details.floor - preferredFloor);
+
+    switch (rankBy) {
+        case 'soonest':
+            return (a, b) => timeToMinutes(a.freeFrom) - timeToMinutes(b.freeFrom) || byDuration(a, b) || compareRooms(a, b);
+        case 'nearest-floor':
+            return (a, b) => compareKnown(floorDistance(a), floorDistance(b)) || byDuration(a, b) || compareRooms(a, b);
+        case 'best-fit':
+            // Filters have already removed rooms that are too small, so the smallest left fits best
+            return (a, b) => compareKnown(a.details?.capacity, b.details?.capacity) || byDuration(a, b) || compareRooms(a, b);
+        default:
+            return (a, b) => byDuration(a, b) || compareRooms(a, b);
+    }
+}
+
+// Which rooms to search and how to order them
+export interface RoomSearchOptions {
+    rooms?: Room[];               // registry entries, attached to results and used by filters
+    filters?: RoomFilters;
+    rankBy?: RoomRanking;
+    preferredFloor?: number;      // for 'nearest-floor'
+    operatingHours?: TimeSlot;    // when rooms can be used; OPERATING_HOURS by default
+}
+
+// Get current day of week on the campus clock
+export function getCurrentDay(timeZone: string = 'Asia/Kolkata'): DayOfWeek {
     const now = new Date();
-    const options: Intl.DateTimeFormatOptions = { timeZone: 'Asia/Kolkata', weekday: 'short' };
-    const day = new Intl.DateTimeFormat('en-US', options).format(now);
+    const options: Intl.DateTimeFormatOptions = { timeZone, weekday: 'short' };
     // Match the existing format used in data (Thur instead of Thu)
-    if (day === 'Thu') return 'Thur';
-    return day;
+    return parseDayOfWeek(new Intl.DateTimeFormat('en-US', options).format(now))!;
 }
 
-// Get current time in HH:mm format
-export function getCurrentTime(): string {
+// Get current time in HH:mm format on the campus clock
+export function getCurrentTime(timeZone: string = 'Asia/Kolkata'): string {
     const now = new Date();
     const options: Intl.DateTimeFormatOptions = {
-        timeZone: 'Asia/Kolkata',
+        timeZone,
         hour: '2-digit',
         minute: '2-digit',
         hour12: false
@@ -126,16 +201,21 @@ export function getCurrentTime(): string {
 // Main function to find free rooms
 export function findFreeRooms(
     schedules: RoomSchedule[],
-    day: string,
+    day: DayOfWeek,
     targetTime?: string,
-    minDuration?: number // in minutes
+    minDuration?: number, // in minutes
+    breaks: BreakWindow[] = [],
+    { rooms = [], filters = {}, rankBy = 'longest', preferredFloor, operatingHours = OPERATING_HOURS }: RoomSearchOptions = {}
 ): FreeRoom[] {
     const merged = mergeRoomSchedules(schedules);
+    const details = new Map(rooms.map(room => [room.id, room]));
     const freeRooms: FreeRoom[] = [];
 
     merged.forEach((dayMap, room) => {
+        if (!matchesRoomFilters(details.get(room), filters)) return;
+
         const occupiedSlots = dayMap.get(day) || [];
-        const freeSlots = findFreeSlots(occupiedSlots);
+        const freeSlots = findFreeSlots(occupiedSlots, operatingHours.start, operatingHours.end);
 
         for (const slot of freeSlots) {
             const start = timeToMinutes(slot.start);
@@ -156,16 +236,16 @@ export function findFreeRooms(
                 day,
                 freeFrom: slot.start,
                 freeTill: slot.end,
-                duration
+                duration,
+                nextSession: findNextSession(occupiedSlots, slot.end),
+                breaks: findBreaksInWindow(occupiedSlots, breaks, day, slot),
+                details: details.get(room)
             });
         }
     });
 
-    // Sort by duration (longest first), then by room number
-    return freeRooms.sort((a, b) => {
-        if (b.duration !== a.duration) return b.duration - a.duration;
-        return parseInt(a.room) - parseInt(b.room);
-    });
+    // Ties fall back to the longest window, then the room number
+    return freeRooms.sort(rankingComparator(rankBy, preferredFloor));
 }
 
 // Get rooms that are currently free
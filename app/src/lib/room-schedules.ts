@@ -0,0 +1,210 @@
+/**
+ * Room Schedules Table
+ *
+ * The live schedule is stored as one room_schedules row per occupied slot and one
+ * schedule_breaks row per break window (see sql/schema.sql). Writes only touch
+ * the rows they replace, so imports for different semesters cannot overwrite
+ * each other, and room/day lookups use the (room, day) index.
+ */
+
+import { getStorage, type RowFilter } from '@/lib/storage';
+import { parseDayOfWeek } from '@/lib/days';
+import type { ParsedBreak, ParsedScheduleEntry, ParsedSlot } from '@/lib/pdf-parser';
+import type { BreakKind, DayOfWeek, SessionType } from '@/types';
+
+export interface RoomScheduleRow {
+    id?: string;
+    room: string;
+    day: string;
+    start_time: string;
+    end_time: string;
+    batch: string | null;
+    sub_batch: string | null;
+    subject: string | null;
+    session_type: string | null;
+    semester: number | null;
+    pdf_version_id: string | null;  // version the slot was parsed from
+    created_at?: string;
+}
+
+export interface ScheduleBreakRow {
+    id?: string;
+    day: string;
+    batch: string;
+    kind: string;
+    start_time: string;
+    end_time: string;
+    semester: number | null;
+    pdf_version_id: string | null;
+    created_at?: string;
+}
+
+// Which rows a read or delete applies to; no filter means every row
+export interface ScheduleRowFilter {
+    room?: string;
+    day?: DayOfWeek;
+    semester?: number;
+}
+
+const SLOTS_TABLE = 'room_schedules';
+const BREAKS_TABLE = 'schedule_breaks';
+const SLOT_COLUMNS = 'room, day, start_time, end_time, batch, sub_batch, subject, session_type, semester, pdf_version_id, created_at';
+const BREAK_COLUMNS = 'day, batch, kind, start_time, end_time, semester, pdf_version_id, created_at';
+
+// Supabase returns at most this many rows per request, so reads are paged
+const PAGE_SIZE = 1000;
+const INSERT_CHUNK = 500;
+// Ids go in the request URL of a delete, so fewer fit in one
+const DELETE_CHUNK = 200;
+
+export function toSlotRows(entries: ParsedScheduleEntry[]): RoomScheduleRow[] {
+    return entries.flatMap(entry => entry.occupied.map(slot => ({
+        room: entry.room,
+        day: entry.day,
+        start_time: slot.start,
+        end_time: slot.end,
+        batch: slot.batch ?? null,
+        sub_batch: slot.subBatch ?? null,
+        subject: slot.subject ?? null,
+        session_type: slot.type ?? null,
+        semester: slot.semester ?? null,
+        pdf_version_id: slot.version ?? null
+    })));
+}
+
+// Group slot rows back into one entry per room and day
+export function fromSlotRows(rows: RoomScheduleRow[]): ParsedScheduleEntry[] {
+    const entries = new Map<string, ParsedScheduleEntry>();
+
+    for (const row of rows) {
+        const day = parseDayOfWeek(row.day);
+        if (!day) continue;
+
+        const slot: ParsedSlot = { start: row.start_time, end: row.end_time };
+        if (row.batch) slot.batch = row.batch;
+        if (row.sub_batch) slot.subBatch = row.sub_batch;
+        if (row.subject) slot.subject = row.subject;
+        if (row.session_type) slot.type = row.session_type as SessionType;
+        if (row.semester !== null) slot.semester = row.semester;
+        if (row.pdf_version_id) slot.version = row.pdf_version_id;
+
+        const key = `${row.room}-${day}`;
+        const entry = entries.get(key) ?? { room: row.room, day, occupied: [] };
+        entry.occupied.push(slot);
+        entries.set(key, entry);
+    }
+
+    for (const entry of entries.values()) {
+        entry.occupied.sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+    }
+    return Array.from(entries.values());
+}
+
+export function toBreakRows(breaks: ParsedBreak[]): ScheduleBreakRow[] {
+    return breaks.map(window => ({
+        day: window.day,
+        batch: window.batch,
+        kind: window.kind,
+        start_time: window.start,
+        end_time: window.end,
+        semester: window.semester ?? null,
+        pdf_version_id: window.version ?? null
+    }));
+}
+
+export function fromBreakRows(rows: ScheduleBreakRow[]): ParsedBreak[] {
+    return rows.flatMap(row => {
+        const day = parseDayOfWeek(row.day);
+        if (!day) return [];
+
+        const window: ParsedBreak = { day, batch: row.batch, kind: row.kind as BreakKind, start: row.start_time, end: row.end_time };
+        if (row.semester !== null) window.semester = row.semester;
+        if (row.pdf_version_id) window.version = row.pdf_version_id;
+        return [window];
+    });
+}
+
+// Read every row of a table matching the filter, a page at a time
+async function selectAll<T extends { id?: string }>(table: string, columns: string, filter: ScheduleRowFilter): Promise<T[]> {
+    const rows: T[] = [];
+    const where = { room: filter.room, day: filter.day, semester: filter.semester } as RowFilter<T>;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const page = await getStorage().table<T>(table).select({ where, columns, orderBy: 'id', limit: PAGE_SIZE, offset });
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) return rows;
+    }
+}
+
+async function insertAll(table: string, rows: object[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+        await getStorage().table(table).insert(rows.slice(i, i + INSERT_CHUNK));
+    }
+}
+
+async function deleteWhere(table: string, filter: Omit<ScheduleRowFilter, 'room'>): Promise<void> {
+    await getStorage().table<ScheduleBreakRow>(table).delete({ day: filter.day, semester: filter.semester });
+}
+
+// Swap the rows matching the filter for new ones. The new rows go in first and the
+// old ones are then deleted by id, so a failed insert leaves the old rows live
+// instead of an empty schedule.
+async function replaceWhere(table: string, filter: Omit<ScheduleRowFilter, 'room'>, rows: object[]): Promise<void> {
+    const old = await selectAll<{ id?: string }>(table, 'id', filter);
+    await insertAll(table, rows);
+
+    const ids = old.flatMap(row => row.id ? [row.id] : []);
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+        await getStorage().table<{ id: string }>(table).delete({ id: ids.slice(i, i + DELETE_CHUNK) });
+    }
+}
+
+export async function selectScheduleRows(filter: ScheduleRowFilter = {}): Promise<ParsedScheduleEntry[]> {
+    return fromSlotRows(await selectAll<RoomScheduleRow>(SLOTS_TABLE, SLOT_COLUMNS, filter));
+}
+
+export async function selectBreakRows(filter: Omit<ScheduleRowFilter, 'room'> = {}): Promise<ParsedBreak[]> {
+    return fromBreakRows(await selectAll<ScheduleBreakRow>(BREAKS_TABLE, BREAK_COLUMNS, filter));
+}
+
+export async function insertScheduleRows(entries: ParsedScheduleEntry[]): Promise<void> {
+    await insertAll(SLOTS_TABLE, toSlotRows(entries));
+}
+
+export async function insertBreakRows(breaks: ParsedBreak[]): Promise<void> {
+    await insertAll(BREAKS_TABLE, toBreakRows(breaks));
+}
+
+export async function deleteScheduleRows(filter: Omit<ScheduleRowFilter, 'room'> = {}): Promise<void> {
+    await deleteWhere(SLOTS_TABLE, filter);
+}
+
+export async function deleteBreakRows(filter: Omit<ScheduleRowFilter, 'room'> = {}): Promise<void> {
+    await deleteWhere(BREAKS_TABLE, filter);
+}
+
+export async function replaceScheduleRows(filter: Omit<ScheduleRowFilter, 'room'>, entries: ParsedScheduleEntry[]): Promise<void> {
+    await replaceWhere(SLOTS_TABLE, filter, toSlotRows(entries));
+}
+
+export async function replaceBreakRows(filter: Omit<ScheduleRowFilter, 'room'>, breaks: ParsedBreak[]): Promise<void> {
+    await replaceWhere(BREAKS_TABLE, filter, toBreakRows(breaks));
+}
+
+export async function countScheduleRows(): Promise<number> {
+    return getStorage().table(SLOTS_TABLE).count();
+}
+
+// When the live schedule was last written: the newest row in either table
+export async function latestScheduleWrite(): Promise<string | null> {
+    let latest: string | null = null;
+
+    for (const table of [SLOTS_TABLE, BREAKS_TABLE]) {
+        const [newest] = await getStorage().table<{ created_at: string }>(table)
+            .select({ columns: 'created_at', orderBy: 'created_at', ascending: false, limit: 1 });
+
+        const createdAt = newest?.created_at;
+        if (createdAt && (!latest || createdAt > latest)) latest = createdAt;
+    }
+    return latest;
+}
@@ -0,0 +1,79 @@
+/**
+ * Rooms Registry
+ *
+ * The rooms the finder searches, with where they are, how many they seat, what
+ * kind of room they are and what they have. Stored in the rooms table (see
+ * sql/schema.sql) and managed from the admin panel, so a new room needs no deploy.
+ */
+
+import { getStorage } from '@/lib/storage';
+import { ROOM_AMENITIES, ROOM_TYPES, type Room, type RoomAmenity, type RoomType } from '@/types';
+
+const ROOMS_TABLE = 'rooms';
+
+function roomsTable() {
+    return getStorage().table<Room>(ROOMS_TABLE);
+}
+
+export async function listRooms(): Promise<Room[]> {
+    return roomsTable().select({ orderBy: 'id' });
+}
+
+export async function getRoom(id: string): Promise<Room | null> {
+    return (await roomsTable().select({ where: { id } }))[0] ?? null;
+}
+
+// Add a room, or update the one with the same id
+export async function saveRoom(room: Room): Promise<Room> {
+    return roomsTable().upsert(room);
+}
+
+export async function deleteRoom(id: string): Promise<void> {
+    await roomsTable().delete({ id });
+}
+
+function optionalNumber(value: unknown, field: string): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new Error(`${field} must be a whole number`);
+    }
+    return number;
+}
+
+// Validate a room from the admin editor
+export function parseRoom(jsonData: unknown): Room {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Room must be an object');
+    }
+
+    const { id, name, building, floor, capacity, type, amenities } = jsonData as Record<string, unknown>;
+    const roomId = String(id ?? '').trim();
+    if (!roomId) {
+        throw new Error('Room id is required');
+    }
+
+    const roomType = (type ?? 'lecture') as RoomType;
+    if (!ROOM_TYPES.includes(roomType)) {
+        throw new Error(`Unknown room type: ${type}`);
+    }
+
+    if (amenities !== undefined && !Array.isArray(amenities)) {
+        throw new Error('amenities must be an array');
+    }
+    const unknown = (amenities || []).filter(amenity => !ROOM_AMENITIES.includes(amenity as RoomAmenity));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown amenities: ${unknown.join(', ')}`);
+    }
+
+    return {
+        id: roomId,
+        name: String(name ?? '').trim() || `Room ${roomId}`,
+        building: String(building ?? '').trim() || null,
+        floor: optionalNumber(floor, 'floor'),
+        capacity: optionalNumber(capacity, 'capacity'),
+        type: roomType,
+        // In registry order, without repeats
+        amenities: ROOM_AMENITIES.filter(amenity => (amenities || []).includes(amenity))
+    };
+}
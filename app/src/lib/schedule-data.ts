@@ -2,13 +2,18 @@
  * Schedule Data Module
  * 
  * This module provides schedule data management functions.
- * Schedule data is now stored as JSON in /data/schedules.json 
+ * Schedule data is stored as rows in the room_schedules table
  * and can be imported/updated via the admin panel.
  * 
  * The hardcoded demo data has been removed.
  * To add schedule data, upload PDFs and import the schedule data via the API.
  */
 
+import { getOpenDays, loadDayCoverage } from './day-coverage';
+import { listRooms } from './rooms';
+import { listBatches } from './batches';
+import type { DayOfWeek } from '@/types';
+
 // Re-export types and functions from pdf-parser for backward compatibility
 export {
     type ParsedSlot as ScheduleSlot,
@@ -21,16 +26,17 @@ export {
     clearScheduleData
 } from './pdf-parser';
 
-// Static helper functions
-export function getAllRooms(): string[] {
-    return ['401', '402', '403', '404', '405', '501', '502', '503', '504', '505'];
+// Ids of the rooms in the registry
+export async function getAllRooms(): Promise<string[]> {
+    return (await listRooms()).map(room => room.id);
 }
 
-export function getAllDays(): string[] {
-    return ['Mon', 'Tue', 'Wed', 'Thur'];
+// Days that at least one term teaches or runs contests on
+export async function getAllDays(): Promise<DayOfWeek[]> {
+    return getOpenDays(await loadDayCoverage());
 }
 
-export function getAllBatches(): string[] {
-    // Standard batches at ADYPU
-    return ['Hopper', 'Turing', 'Neumann', 'Ramanujan', 'CP', 'TIP'];
+// Names of the top-level batches in the registry
+export async function getAllBatches(): Promise<string[]> {
+    return (await listBatches()).filter(batch => !batch.parent).map(batch => batch.name);
 }
@@ -0,0 +1,109 @@
+/**
+ * Schedule Diff
+ *
+ * Compares a freshly parsed schedule with the live cache, slot by slot, so an
+ * admin can review what a parse would change before it is saved.
+ */
+
+import type { ParsedScheduleEntry, ParsedSlot } from '@/lib/pdf-parser';
+
+export interface ChangedSlot {
+    before: ParsedSlot;
+    after: ParsedSlot;
+}
+
+export interface RoomDayDiff {
+    room: string;
+    day: string;
+    added: ParsedSlot[];
+    removed: ParsedSlot[];
+    changed: ChangedSlot[];
+}
+
+export interface ScheduleDiff {
+    entries: RoomDayDiff[]; // only room/days with at least one difference
+    summary: {
+        added: number;
+        removed: number;
+        changed: number;
+        unchanged: number;
+    };
+}
+
+// A slot is the same class when it starts at the same time for the same batch
+function slotKey(slot: ParsedSlot): string {
+    return [slot.start, slot.batch || '', slot.subBatch || ''].join('|');
+}
+
+function sameSlot(a: ParsedSlot, b: ParsedSlot): boolean {
+    return a.start === b.start
+        && a.end === b.end
+        && (a.batch || '') === (b.batch || '')
+        && (a.subBatch || '') === (b.subBatch || '')
+        && (a.subject || '') === (b.subject || '')
+        && (a.type || '') === (b.type || '');
+}
+
+function groupByRoomDay(schedules: ParsedScheduleEntry[]): Map<string, ParsedScheduleEntry> {
+    const map = new Map<string, ParsedScheduleEntry>();
+    for (const entry of schedules) {
+        const key = `${entry.room}-${entry.day}`;
+        const existing = map.get(key);
+        if (existing) {
+            existing.occupied = [...existing.occupied, ...entry.occupied];
+        } else {
+            map.set(key, { ...entry, occupied: [...entry.occupied] });
+        }
+    }
+    return map;
+}
+
+// Diff two sets of schedules (current cache vs. new parse)
+export function diffSchedules(current: ParsedScheduleEntry[], next: ParsedScheduleEntry[]): ScheduleDiff {
+    const before = groupByRoomDay(current);
+    const after = groupByRoomDay(next);
+    const keys = new Set([...before.keys(), ...after.keys()]);
+
+    const entries: RoomDayDiff[] = [];
+    const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+    for (const key of keys) {
+        const oldEntry = before.get(key);
+        const newEntry = after.get(key);
+        const { room, day } = (newEntry || oldEntry)!;
+
+        const remaining = [...(oldEntry?.occupied || [])];
+        const diff: RoomDayDiff = { room, day, added: [], removed: [], changed: [] };
+
+        for (const slot of newEntry?.occupied || []) {
+            // Exact match first, then the same class with different details
+            let index = remaining.findIndex(old => sameSlot(old, slot));
+            if (index !== -1) {
+                remaining.splice(index, 1);
+                summary.unchanged++;
+                continue;
+            }
+
+            index = remaining.findIndex(old => slotKey(old) === slotKey(slot));
+            if (index !== -1) {
+                diff.changed.push({ before: remaining[index], after: slot });
+                remaining.splice(index, 1);
+            } else {
+                diff.added.push(slot);
+            }
+        }
+        diff.removed.push(...remaining);
+
+        summary.added += diff.added.length;
+        summary.removed += diff.removed.length;
+        summary.changed += diff.changed.length;
+
+        if (diff.added.length || diff.removed.length || diff.changed.length) {
+            entries.push(diff);
+        }
+    }
+
+    entries.sort((a, b) => a.day.localeCompare(b.day) || a.room.localeCompare(b.room));
+
+    return { entries, summary };
+}
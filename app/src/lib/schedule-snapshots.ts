@@ -0,0 +1,89 @@
+/**
+ * Schedule Snapshots
+ *
+ * Every write to the live schedule records an immutable snapshot of the result
+ * in schedule_snapshots, with who made it, why and how big it is, so a bad
+ * import can be compared against earlier data and rolled back.
+ */
+
+import { getStorage } from '@/lib/storage';
+import { countScheduleRows, selectBreakRows, selectScheduleRows } from '@/lib/room-schedules';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+
+// What wrote the live schedule: a PDF parse, a JSON import, an admin edit, a version
+// activation, a restored snapshot, or the state found before snapshots were kept
+export type SnapshotSource = 'parse' | 'import' | 'editor' | 'activation' | 'restore' | 'baseline';
+
+export interface SnapshotSummary {
+    id: string;
+    created_at: string;
+    author: string | null;
+    source: SnapshotSource;
+    note: string | null;
+    entry_count: number;
+    slot_count: number;
+}
+
+export interface ScheduleSnapshot extends SnapshotSummary {
+    schedules: ParsedScheduleEntry[];
+    breaks: ParsedBreak[];
+}
+
+// Why a write happened, recorded on its snapshot
+export interface WriteOrigin {
+    source: SnapshotSource;
+    note?: string;
+}
+
+const SNAPSHOTS_TABLE = 'schedule_snapshots';
+const SUMMARY_COLUMNS = 'id, created_at, author, source, note, entry_count, slot_count';
+
+function snapshotsTable() {
+    return getStorage().table<ScheduleSnapshot>(SNAPSHOTS_TABLE);
+}
+
+async function insertSnapshot({ source, note }: WriteOrigin): Promise<SnapshotSummary> {
+    const schedules = await selectScheduleRows();
+    const breaks = await selectBreakRows();
+
+    return snapshotsTable().insertOne({
+        author: await getStorage().currentUser(),
+        source,
+        note: note ?? null,
+        entry_count: schedules.length,
+        slot_count: schedules.reduce((count, entry) => count + entry.occupied.length, 0),
+        schedules,
+        breaks
+    }, SUMMARY_COLUMNS);
+}
+
+// Keep the live schedule as a baseline before the first snapshotted write replaces it
+export async function ensureBaselineSnapshot(): Promise<void> {
+    try {
+        if (await snapshotsTable().count() === 0 && await countScheduleRows() > 0) {
+            await insertSnapshot({ source: 'baseline', note: 'Live schedule before snapshots were kept' });
+        }
+    } catch (error) {
+        console.error('Failed to record baseline snapshot:', error);
+    }
+}
+
+// Record the live schedule as it is after a write.
+// A failed snapshot is logged rather than undoing the write it follows.
+export async function recordSnapshot(origin: WriteOrigin): Promise<SnapshotSummary | null> {
+    try {
+        return await insertSnapshot(origin);
+    } catch (error) {
+        console.error('Failed to record schedule snapshot:', error);
+        return null;
+    }
+}
+
+// Snapshots without their data, newest first
+export async function listSnapshots(limit = 100): Promise<SnapshotSummary[]> {
+    return snapshotsTable().select({ columns: SUMMARY_COLUMNS, orderBy: 'created_at', ascending: false, limit });
+}
+
+export async function getSnapshot(id: string): Promise<ScheduleSnapshot | null> {
+    return (await snapshotsTable().select({ where: { id } }))[0] ?? null;
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { parseSettings } from '@/lib/settings/parse';
+import type { SettingsChange, SettingsRepository } from '@/lib/settings/types';
+
+// Settings in a JSON file holding the whole history, newest first. For local
+// development; the file is rewritten on every save.
+export function createFileSettingsRepository(filePath: string): SettingsRepository {
+    async function readHistory(): Promise<SettingsChange[]> {
+        try {
+            const { history } = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+            return (history as SettingsChange[]).map(change => ({ ...change, settings: parseSettings(change.settings) }));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw new Error(`Failed to read settings from ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    return {
+        id: 'file',
+
+        async latest() {
+            return (await readHistory())[0] ?? null;
+        },
+
+        async append({ changedKeys, settings }) {
+            const change: SettingsChange = {
+                id: randomUUID(),
+                changedAt: new Date().toISOString(),
+                changedBy: null,
+                changedKeys,
+                settings
+            };
+
+            // Write beside the file, then rename, so a crash never leaves half a file
+            const history = [change, ...await readHistory()];
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(`${filePath}.tmp`, JSON.stringify({ history }, null, 2));
+            await fs.rename(`${filePath}.tmp`, filePath);
+            return change;
+        },
+
+        async history(limit) {
+            return (await readHistory()).slice(0, limit);
+        }
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * Settings
+ *
+ * Typed app settings: the active week, operating hours, the campus timezone and
+ * the teaching days. They sit behind a SettingsRepository so the same code runs
+ * on the database in production and on a local JSON file in development. Every
+ * save is kept, so admins can see who changed what and when.
+ *
+ * SETTINGS_STORE picks the store ("table" or "file"); without it the store
+ * follows the storage backend. The table store keeps the history in the storage
+ * backend's settings_history table ("supabase" is its older name). The file
+ * store writes SETTINGS_FILE, by default settings.json in the local data directory.
+ */
+
+import path from 'path';
+import { format, parseISO } from 'date-fns';
+import { localDataDir, storageBackendId } from '@/lib/storage';
+import { createFileSettingsRepository } from '@/lib/settings/file';
+import { createTableSettingsRepository } from '@/lib/settings/table';
+import { changedSettingKeys, DEFAULT_SETTINGS } from '@/lib/settings/parse';
+import type { AppSettings, SettingsChange, SettingsRepository } from '@/lib/settings/types';
+
+export type { AppSettings, SettingKey, SettingsChange, SettingsRepository } from '@/lib/settings/types';
+export { changedSettingKeys, DEFAULT_SETTINGS, parseSettings, SETTING_KEYS } from '@/lib/settings/parse';
+export { createFileSettingsRepository } from '@/lib/settings/file';
+export { createTableSettingsRepository } from '@/lib/settings/table';
+
+export function getSettingsRepository(): SettingsRepository {
+    const store = process.env.SETTINGS_STORE || (storageBackendId() === 'supabase' ? 'table' : 'file');
+    if (store === 'table' || store === 'supabase') return createTableSettingsRepository();
+    if (store === 'file') {
+        return createFileSettingsRepository(process.env.SETTINGS_FILE || path.join(localDataDir(), 'settings.json'));
+    }
+    throw new Error(`Unknown SETTINGS_STORE: ${store}`);
+}
+
+// The current settings, or the defaults before anything has been saved
+export async function loadSettings(repository: SettingsRepository = getSettingsRepository()): Promise<AppSettings> {
+    return (await repository.latest())?.settings ?? DEFAULT_SETTINGS;
+}
+
+// Store validated settings. A save that changes nothing is not recorded.
+export async function saveSettings(
+    settings: AppSettings,
+    repository: SettingsRepository = getSettingsRepository()
+): Promise<SettingsChange | null> {
+    const changedKeys = changedSettingKeys(await loadSettings(repository), settings);
+    if (changedKeys.length === 0) return null;
+
+    return repository.append({ changedKeys, settings });
+}
+
+// Today's date (YYYY-MM-DD) on the campus clock
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+// A date for display, e.g. "19th Jan"
+function formatWeekDate(date: string): string {
+    const day = parseISO(date).getDate();
+    const suffix = day >= 11 && day <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[day % 10] || 'th';
+    return `${day}${suffix} ${format(parseISO(date), 'MMM')}`;
+}
+
+export interface ActiveWeek {
+    activeWeek: string | null;      // e.g. "2nd Feb - 6th Feb", null when no week is set
+    weekStartDate: string | null;
+    weekEndDate: string | null;
+    isCurrentWeek: boolean;         // whether today on the campus clock falls in the week
+}
+
+export function describeActiveWeek(settings: AppSettings, now: Date = new Date()): ActiveWeek {
+    const { weekStartDate, weekEndDate } = settings;
+    if (!weekStartDate || !weekEndDate) {
+        return { activeWeek: null, weekStartDate, weekEndDate, isCurrentWeek: false };
+    }
+
+    const today = todayIn(settings.timezone, now);
+    return {
+        activeWeek: `${formatWeekDate(weekStartDate)} - ${formatWeekDate(weekEndDate)}`,
+        weekStartDate,
+        weekEndDate,
+        isCurrentWeek: weekStartDate <= today && today <= weekEndDate
+    };
+}
@@ -0,0 +1,92 @@
+import { isISODate } from '@/lib/academic-calendar';
+import { ALL_DAYS, sortDays } from '@/lib/days';
+import { OPERATING_HOURS } from '@/types';
+import type { DayOfWeek } from '@/types';
+import type { AppSettings, SettingKey } from '@/lib/settings/types';
+
+// What the app did before settings were stored
+export const DEFAULT_SETTINGS: AppSettings = {
+    weekStartDate: null,
+    weekEndDate: null,
+    operatingHours: { ...OPERATING_HOURS },
+    timezone: 'Asia/Kolkata',
+    teachingDays: ['Mon', 'Tue', 'Wed', 'Thur', 'Fri', 'Sat']
+};
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingKey[];
+
+function parseWeekDate(value: unknown, field: string): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+    if (!isISODate(text)) {
+        throw new Error(`${field} must be a date like 2026-08-15`);
+    }
+    return text;
+}
+
+function parseTime(value: unknown, field: string): string {
+    const text = String(value ?? '').trim();
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(text)) {
+        throw new Error(`${field} must be a time like 09:00`);
+    }
+    return text;
+}
+
+function isTimeZone(zone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Validate settings from the admin editor or a store. Missing fields keep their
+// defaults, so settings saved before a field existed still load.
+export function parseSettings(jsonData: unknown): AppSettings {
+    if (!jsonData || typeof jsonData !== 'object') {
+        throw new Error('Settings must be an object');
+    }
+    const input = { ...DEFAULT_SETTINGS, ...jsonData as Partial<Record<SettingKey, unknown>> };
+
+    const weekStartDate = parseWeekDate(input.weekStartDate, 'Week start');
+    const weekEndDate = parseWeekDate(input.weekEndDate, 'Week end');
+    if (!weekStartDate !== !weekEndDate) {
+        throw new Error('Set both ends of the active week, or neither');
+    }
+    if (weekStartDate && weekEndDate && weekEndDate < weekStartDate) {
+        throw new Error('The active week ends before it starts');
+    }
+
+    const hours = (input.operatingHours || {}) as Record<string, unknown>;
+    const operatingHours = { start: parseTime(hours.start, 'Opening time'), end: parseTime(hours.end, 'Closing time') };
+    if (operatingHours.end <= operatingHours.start) {
+        throw new Error('Closing time must be after opening time');
+    }
+
+    const timezone = String(input.timezone ?? '').trim();
+    if (!isTimeZone(timezone)) {
+        throw new Error(`Unknown timezone: ${timezone}`);
+    }
+
+    if (!Array.isArray(input.teachingDays) || input.teachingDays.length === 0) {
+        throw new Error('Pick at least one teaching day');
+    }
+    const unknownDays = input.teachingDays.filter(day => !ALL_DAYS.includes(day as DayOfWeek));
+    if (unknownDays.length > 0) {
+        throw new Error(`Unknown teaching days: ${unknownDays.join(', ')}`);
+    }
+
+    return {
+        weekStartDate,
+        weekEndDate,
+        operatingHours,
+        timezone,
+        teachingDays: sortDays(input.teachingDays as DayOfWeek[])
+    };
+}
+
+// Settings whose values differ between two versions
+export function changedSettingKeys(before: AppSettings, after: AppSettings): SettingKey[] {
+    return SETTING_KEYS.filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
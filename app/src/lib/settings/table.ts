@@ -0,0 +1,50 @@
+import { getStorage, type StorageBackend } from '@/lib/storage';
+import { parseSettings } from '@/lib/settings/parse';
+import type { SettingKey, SettingsChange, SettingsRepository } from '@/lib/settings/types';
+
+const HISTORY_TABLE = 'settings_history';
+
+interface SettingsHistoryRow {
+    id: string;
+    changed_at: string;
+    changed_by: string | null;
+    changed_keys: SettingKey[];
+    settings: unknown;
+}
+
+function fromRow(row: SettingsHistoryRow): SettingsChange {
+    return {
+        id: row.id,
+        changedAt: row.changed_at,
+        changedBy: row.changed_by,
+        changedKeys: row.changed_keys,
+        settings: parseSettings(row.settings)
+    };
+}
+
+// Settings in the storage backend's settings_history table, one row per save
+export function createTableSettingsRepository(storage: StorageBackend = getStorage()): SettingsRepository {
+    const history = () => storage.table<SettingsHistoryRow>(HISTORY_TABLE);
+
+    return {
+        id: storage.id,
+
+        async latest() {
+            return (await this.history(1))[0] ?? null;
+        },
+
+        async append({ changedKeys, settings }) {
+            const row = await history().insertOne({
+                changed_by: await storage.currentUser(),
+                changed_keys: changedKeys,
+                settings
+            });
+            return fromRow(row);
+        },
+
+        async history(limit) {
+            const rows = await history().select({ orderBy: 'changed_at', ascending: false, limit });
+            return rows.map(fromRow);
+        }
+    };
+}
@@ -0,0 +1,29 @@
+import type { DayOfWeek, TimeSlot } from '@/types';
+
+export interface AppSettings {
+    weekStartDate: string | null;   // YYYY-MM-DD, first day of the week shown as active
+    weekEndDate: string | null;     // YYYY-MM-DD, last day of that week
+    operatingHours: TimeSlot;       // HH:mm, when rooms can be booked
+    timezone: string;               // IANA zone the campus clock runs in, e.g. "Asia/Kolkata"
+    teachingDays: DayOfWeek[];      // weekdays the campus runs sessions, in week order
+}
+
+export type SettingKey = keyof AppSettings;
+
+// One save, with the settings it left in place
+export interface SettingsChange {
+    id: string;
+    changedAt: string;
+    changedBy: string | null;       // admin email, when the store knows it
+    changedKeys: SettingKey[];
+    settings: AppSettings;
+}
+
+// Where settings live. Every save appends to the history, and the newest entry
+// is the current settings.
+export interface SettingsRepository {
+    id: string;     // shown to admins, e.g. "supabase"
+    latest(): Promise<SettingsChange | null>;
+    append(change: Pick<SettingsChange, 'changedKeys' | 'settings'>): Promise<SettingsChange>;
+    history(limit: number): Promise<SettingsChange[]>;   // newest first
+}
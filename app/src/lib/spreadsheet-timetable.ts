@@ -0,0 +1,211 @@
+/**
+ * Spreadsheet Timetable Import
+ *
+ * Reads CSV and XLSX exports of the timetable, laid out like the PDFs: a header
+ * row of time slots, then day and batch labels down the left with one row per
+ * batch. A spreadsheet is already a grid, so every cell maps straight to its
+ * header column and the PDF position heuristics are not needed.
+ */
+
+import ExcelJS from 'exceljs';
+import type { BreakWindow, DayOfWeek, OccupiedSlot } from '@/types';
+import type { RoomMention } from '@/lib/room-aliases';
+import { parseDayOfWeek } from '@/lib/days';
+import {
+    cellSlots,
+    createGridDiagnostics,
+    groupSlots,
+    normalizeHeaderTimes,
+    readBreakLabel,
+    readHeaderLabel,
+    type GridDiagnostics,
+    type GridTimetable
+} from '@/lib/timetable-grid';
+
+// The rows of one sheet as plain text, merged cells repeating their value
+export type SheetRows = string[][];
+
+interface SheetColumn {
+    index: number;
+    start: string;
+    end: string;
+}
+
+function minutesToTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+// Split CSV text into rows, honouring quoted fields with commas, quotes and newlines
+export function parseCsv(text: string): SheetRows {
+    const rows: SheetRows = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+// Text of an XLSX cell. Time cells come back as dates on 30 Dec 1899.
+function cellText(cell: ExcelJS.Cell): string {
+    const source = cell.isMerged ? cell.master : cell;
+    if (source.value instanceof Date) {
+        return minutesToTime(source.value.getUTCHours() * 60 + source.value.getUTCMinutes());
+    }
+    return source.text.trim();
+}
+
+// Read every worksheet of an XLSX workbook into rows of text
+export async function parseXlsx(data: ArrayBuffer): Promise<SheetRows[]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data);
+
+    return workbook.worksheets.map(sheet => {
+        const rows: SheetRows = [];
+        for (let r = 1; r <= sheet.rowCount; r++) {
+            const row = sheet.getRow(r);
+            const cells: string[] = [];
+            for (let c = 1; c <= sheet.columnCount; c++) {
+                cells.push(cellText(row.getCell(c)));
+            }
+            rows.push(cells);
+        }
+        return rows;
+    });
+}
+
+// The header is the first row holding time labels, normalized the same way as PDF headers
+function readSheetColumns(rows: SheetRows): { headerRow: number; columns: SheetColumn[] } {
+    const headerRow = rows.findIndex(row =>
+        row.filter(text => readHeaderLabel(text) !== undefined).length >= 4
+    );
+    if (headerRow === -1) return { headerRow, columns: [] };
+
+    const labels = rows[headerRow]
+        .map((text, index) => ({ text, index }))
+        .filter(label => readHeaderLabel(label.text) !== undefined);
+    const times = normalizeHeaderTimes(labels.map(label => label.text));
+
+    const columns = labels.flatMap((label, i) => {
+        const time = times[i];
+        return time ? [{ index: label.index, ...time }] : [];
+    });
+
+    return { headerRow, columns };
+}
+
+function extractSheet(
+    rows: SheetRows,
+    page: number,
+    extractRooms: (text: string) => RoomMention[],
+    diagnostics: GridDiagnostics
+): GridTimetable {
+    const unmatched = (texts: string[], reason: string) => {
+        diagnostics.unmatchedText.push(...texts.filter(Boolean).map(text => ({ text, page, reason })));
+    };
+
+    const { headerRow, columns } = readSheetColumns(rows);
+    if (columns.length === 0) {
+        unmatched(rows.flat(), 'No time header on sheet');
+        return { schedules: [], breaks: [] };
+    }
+
+    const gridLeft = columns[0].index;
+    const slots: { room: string; day: DayOfWeek; slot: OccupiedSlot }[] = [];
+    const breaks: BreakWindow[] = [];
+    let day: DayOfWeek | undefined;
+
+    for (const row of rows.slice(headerRow + 1)) {
+        // Day labels may sit on their own row or next to the first batch of the day
+        const labels = row.slice(0, gridLeft).map(text => text.trim()).filter(Boolean);
+        const dayLabel = labels.map(parseDayOfWeek).find(Boolean);
+        if (dayLabel) day = dayLabel;
+
+        const batch = labels.find(text => !parseDayOfWeek(text))?.replace(/\s*Batch\s*$/i, '').trim();
+        const cells = columns.map(column => (row[column.index] || '').trim());
+        if (cells.every(text => !text)) continue;
+
+        if (!batch) {
+            unmatched(cells, 'No batch label on row');
+            continue;
+        }
+        if (!day) {
+            unmatched(cells, `${batch} row is outside any day section`);
+            continue;
+        }
+
+        // Merged cells repeat their text, so a run of equal cells is one session
+        for (let i = 0; i < cells.length; i++) {
+            const text = cells[i];
+            if (!text) continue;
+
+            let last = i;
+            while (last + 1 < cells.length && cells[last + 1] === text) last++;
+
+            const kind = readBreakLabel(text);
+            if (kind) {
+                breaks.push({ day, batch, kind, start: columns[i].start, end: columns[last].end });
+            } else {
+                slots.push(...cellSlots(
+                    text,
+                    { day, batch, start: columns[i].start, end: columns[last].end },
+                    extractRooms,
+                    diagnostics
+                ));
+            }
+            i = last;
+        }
+    }
+
+    return { schedules: groupSlots(slots), breaks };
+}
+
+// Main entry: extract room schedules and break windows from the sheets of a CSV or XLSX timetable
+export function extractSpreadsheetSchedules(
+    sheets: SheetRows[],
+    extractRooms: (text: string) => RoomMention[],
+    diagnostics: GridDiagnostics = createGridDiagnostics()
+): GridTimetable {
+    const timetable: GridTimetable = { schedules: [], breaks: [] };
+    sheets.forEach((rows, index) => {
+        const sheet = extractSheet(rows, index + 1, extractRooms, diagnostics);
+        timetable.schedules.push(...sheet.schedules);
+        timetable.breaks.push(...sheet.breaks);
+    });
+    return timetable;
+}
@@ -0,0 +1,18 @@
+import { isSupabaseConfigured } from '@/lib/supabase/config';
+import type { StorageBackendId } from '@/lib/storage/types';
+
+// Which backend stores files and tables: STORAGE_BACKEND when set, otherwise
+// Supabase when it is configured and the local disk when it is not
+export function storageBackendId(): StorageBackendId {
+    const id = process.env.STORAGE_BACKEND || (isSupabaseConfigured() ? 'supabase' : 'local');
+    if (id !== 'supabase' && id !== 'local') {
+        throw new Error(`Unknown STORAGE_BACKEND: ${id}`);
+    }
+    return id;
+}
+
+// On the local backend nobody can sign in, so outside production the admin
+// panel is open. A production build never runs the panel without sign-in.
+export function isAdminOpen(): boolean {
+    return storageBackendId() === 'local' && process.env.NODE_ENV !== 'production';
+}
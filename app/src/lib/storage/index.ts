@@ -0,0 +1,41 @@
+/**
+ * Storage
+ *
+ * Everything the app keeps: the timetables bucket (uploaded files and the JSON
+ * documents beside them) and the tables in sql/schema.sql. Modules go through a
+ * StorageBackend instead of calling Supabase, so the same code runs on the
+ * Supabase project in production and on the local disk for offline development
+ * and integration tests.
+ *
+ * STORAGE_BACKEND picks the backend ("supabase" or "local"); without it Supabase
+ * is used when configured. The local backend keeps its data in LOCAL_DATA_DIR,
+ * by default .data in the app directory.
+ */
+
+import path from 'path';
+import { storageBackendId } from '@/lib/storage/config';
+import { createLocalStorage } from '@/lib/storage/local';
+import { supabaseStorage } from '@/lib/storage/supabase';
+import type { StorageBackend } from '@/lib/storage/types';
+
+export type { DataTable, FileStore, RowFilter, RowQuery, StorageBackend, StorageBackendId, StoredFile } from '@/lib/storage/types';
+export { isAdminOpen, storageBackendId } from '@/lib/storage/config';
+export { createLocalStorage } from '@/lib/storage/local';
+
+export function localDataDir(): string {
+    return process.env.LOCAL_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export function getStorage(): StorageBackend {
+    return storageBackendId() === 'local' ? createLocalStorage(localDataDir()) : supabaseStorage;
+}
+
+// A JSON document in the bucket, or null when there is none
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+    const file = await getStorage().files.read(filePath);
+    return file ? JSON.parse(await file.text()) as T : null;
+}
+
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+    await getStorage().files.write(filePath, JSON.stringify(value, null, 2), { upsert: true, contentType: 'application/json' });
+}
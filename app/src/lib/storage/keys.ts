@@ -0,0 +1,8 @@
+// Primary key of each table in sql/schema.sql; the rest are keyed by id
+const TABLE_KEYS: Record<string, string> = {
+    batches: 'name'
+};
+
+export function tableKey(table: string): string {
+    return TABLE_KEYS[table] ?? 'id';
+}
@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { tableKey } from '@/lib/storage/keys';
+import type { DataTable, FileStore, RowFilter, StorageBackend } from '@/lib/storage/types';
+
+type Row = Record<string, unknown>;
+
+// What the local store needs to know of each table in sql/schema.sql
+interface LocalTableSchema {
+    defaults?: () => Row;
+    // Foreign keys pointing at this table, applied when its rows are deleted
+    references?: { table: string; column: string; onDelete: 'cascade' | 'set null' }[];
+    seed?: Row[];       // rows a new store starts with
+}
+
+const now = () => new Date().toISOString();
+
+const LOCAL_TABLES: Record<string, LocalTableSchema> = {
+    pdf_versions: {
+        defaults: () => ({ is_active: false, is_pinned: false, parser: null, uploaded_at: now(), effective_from: null, effective_to: null }),
+        references: [
+            { table: 'room_schedules', column: 'pdf_version_id', onDelete: 'cascade' },
+            { table: 'schedule_breaks', column: 'pdf_version_id', onDelete: 'cascade' }
+        ]
+    },
+    room_schedules: { defaults: () => ({ created_at: now() }) },
+    schedule_breaks: { defaults: () => ({ created_at: now() }) },
+    rooms: {
+        defaults: () => ({ building: null, floor: null, capacity: null, type: 'lecture', amenities: [] }),
+        seed: [4, 5].flatMap(floor => [1, 2, 3, 4, 5].map(n => ({ id: `${floor}0${n}`, name: `Room ${floor}0${n}`, floor })))
+    },
+    batches: {
+        defaults: () => ({ semester: null, year: null, program: null, parent: null }),
+        references: [{ table: 'batches', column: 'parent', onDelete: 'set null' }],
+        seed: [
+            { name: 'Hopper', color: '#a855f7' }, { name: 'Turing', color: '#3b82f6' }, { name: 'Neumann', color: '#10b981' },
+            { name: 'Ramanujan', color: '#f97316' }, { name: 'CP', color: '#ec4899' }, { name: 'TIP', color: '#06b6d4' },
+            { name: 'Compiler', color: '#a855f7', parent: 'Hopper' }, { name: 'Debugger', color: '#a855f7', parent: 'Hopper' },
+            { name: 'Enigma', color: '#3b82f6', parent: 'Turing' }, { name: 'Lambda', color: '#3b82f6', parent: 'Turing' },
+            { name: 'Memory', color: '#10b981', parent: 'Neumann' }, { name: 'Architecture', color: '#10b981', parent: 'Neumann' },
+            { name: 'Infinity', color: '#f97316', parent: 'Ramanujan' }, { name: 'Mock Theta', color: '#f97316', parent: 'Ramanujan' }
+        ]
+    },
+    schedule_snapshots: { defaults: () => ({ created_at: now(), breaks: [] }) },
+    settings_history: { defaults: () => ({ changed_at: now() }) }
+};
+
+// Writes to one file run one at a time, so concurrent requests cannot lose each other's rows
+const queues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(file: string, task: () => Promise<T>): Promise<T> {
+    const run = (queues.get(file) ?? Promise.resolve()).then(task, task);
+    queues.set(file, run.catch(() => undefined));
+    return run;
+}
+
+// Write beside the file, then rename, so a crash never leaves half a file
+async function writeAtomic(file: string, data: string | Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, data);
+    await fs.rename(`${file}.tmp`, file);
+}
+
+function isMissing(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+function matches(row: Row, where: RowFilter<Row> = {}): boolean {
+    return Object.entries(where).every(([column, value]) => {
+        if (value === undefined) return true;
+        const actual = row[column] ?? null;
+        return Array.isArray(value) ? value.includes(actual) : actual === value;
+    });
+}
+
+// Postgres order: nulls after every value when ascending, before when descending
+function compareValues(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+function pickColumns(row: Row, columns: string): Row {
+    if (columns.trim() === '*') return row;
+    return Object.fromEntries(columns.split(',').map(column => column.trim()).map(column => [column, row[column] ?? null]));
+}
+
+function createLocalFiles(root: string): FileStore {
+    function resolve(filePath: string): string {
+        const resolved = path.resolve(root, filePath);
+        if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage path: ${filePath}`);
+        }
+        return resolved;
+    }
+
+    return {
+        async read(filePath) {
+            try {
+                return new Blob([new Uint8Array(await fs.readFile(resolve(filePath)))]);
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+
+        async write(filePath, data, { upsert = false } = {}) {
+            const file = resolve(filePath);
+            const bytes = typeof data === 'string' ? Buffer.from(data)
+                : data instanceof ArrayBuffer ? Buffer.from(data)
+                    : Buffer.from(await data.arrayBuffer());
+
+            await serialized(file, async () => {
+                if (!upsert && await fs.stat(file).then(() => true, () => false)) {
+                    throw new Error(`Storage upload failed: ${filePath} already exists`);
+                }
+                await writeAtomic(file, bytes);
+            });
+        },
+
+        async remove(paths) {
+            for (const filePath of paths) {
+                await fs.rm(resolve(filePath), { force: true });
+            }
+        },
+
+        async list(dir, { limit = 100, order = 'asc' } = {}) {
+            let entries;
+            try {
+                entries = await fs.readdir(resolve(dir), { withFileTypes: true });
+            } catch (error) {
+                if (isMissing(error)) return [];
+                throw error;
+            }
+
+            const names = entries
+                .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+                .map(entry => entry.name)
+                .sort();
+            if (order === 'desc') names.reverse();
+
+            return Promise.all(names.slice(0, limit).map(async name => ({
+                name,
+                createdAt: (await fs.stat(resolve(path.join(dir, name)))).mtime.toISOString()
+            })));
+        },
+
+        async url(filePath) {
+            return `/api/files/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+        }
+    };
+}
+
+// Files under <dir>/files and each table as a JSON array in <dir>/tables, for
+// running the app and its tests without a network. Nobody signs in.
+export function createLocalStorage(dir: string): StorageBackend {
+    const root = path.resolve(dir);
+
+    function table<T>(name: string): DataTable<T> {
+        const schema = LOCAL_TABLES[name] ?? {};
+        const key = tableKey(name);
+        const file = path.join(root, 'tables', `${name}.json`);
+
+        async function readRows(): Promise<Row[]> {
+            try {
+                return JSON.parse(await fs.readFile(file, 'utf-8'));
+            } catch (error) {
+                if (isMissing(error)) return (schema.seed ?? []).map(row => ({ ...schema.defaults?.(), ...row }));
+                throw new Error(`Failed to read ${name}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        // Change the rows under the file's lock, returning what the change reports
+        function mutate<R>(change: (rows: Row[]) => { rows: Row[]; result: R }): Promise<R> {
+            return serialized(file, async () => {
+                const { rows, result } = change(await readRows());
+                await writeAtomic(file, JSON.stringify(rows, null, 2));
+                return result;
+            });
+        }
+
+        function withDefaults(row: Row): Row {
+            const complete: Row = { ...schema.defaults?.(), ...row };
+            if (key === 'id' && complete.id === undefined) complete.id = randomUUID();
+            return complete;
+        }
+
+        function insertRows(rows: Row[], added: Row[]): Row[] {
+            const keys = new Set(rows.map(row => row[key]));
+            for (const row of added) {
+                if (keys.has(row[key])) {
+                    throw new Error(`Failed to write ${name}: duplicate ${key} ${row[key]}`);
+                }
+                keys.add(row[key]);
+            }
+            return [...rows, ...added];
+        }
+
+        return {
+            async select({ where, columns = '*', orderBy, ascending = true, limit, offset = 0 } = {}) {
+                let rows = (await readRows()).filter(row => matches(row, where as RowFilter<Row>));
+                if (orderBy) {
+                    rows = rows.sort((a, b) => compareValues(a[orderBy], b[orderBy]) * (ascending ? 1 : -1));
+                }
+                if (limit !== undefined) rows = rows.slice(offset, offset + limit);
+                return rows.map(row => pickColumns(row, columns)) as T[];
+            },
+
+            async count(where) {
+                return (await readRows()).filter(row => matches(row, where as RowFilter<Row>)).length;
+            },
+
+            async insert(rows) {
+                const added = (rows as Row[]).map(withDefaults);
+                await mutate(current => ({ rows: insertRows(current, added), result: undefined }));
+            },
+
+            async insertOne(row, columns = '*') {
+                const added = withDefaults(row as Row);
+                await mutate(current => ({ rows: insertRows(current, [added]), result: undefined }));
+                return pickColumns(added, columns) as T;
+            },
+
+            async upsert(row) {
+                const saved = withDefaults(row as Row);
+                await mutate(current => ({
+                    rows: [...current.filter(other => other[key] !== saved[key]), saved],
+                    result: undefined
+                }));
+                return saved as T;
+            },
+
+            async update(where, changes) {
+                return mutate(current => {
+                    const updated: Row[] = [];
+                    const rows = current.map(row => {
+                        if (!matches(row, where as RowFilter<Row>)) return row;
+                        const changed = { ...row, ...changes as Row };
+                        updated.push(changed);
+                        return changed;
+                    });
+                    return { rows, result: updated as T[] };
+                });
+            },
+
+            async delete(where) {
+                const removed = await mutate(current => ({
+                    rows: current.filter(row => !matches(row, where as RowFilter<Row>)),
+                    result: current.filter(row => matches(row, where as RowFilter<Row>))
+                }));
+
+                // What the foreign keys would do
+                const keys = removed.map(row => row[key]);
+                for (const { table: child, column, onDelete } of keys.length > 0 ? schema.references ?? [] : []) {
+                    const rows = table<Row>(child);
+                    if (onDelete === 'cascade') {
+                        await rows.delete({ [column]: keys });
+                    } else {
+                        await rows.update({ [column]: keys }, { [column]: null });
+                    }
+                }
+            }
+        };
+    }
+
+    return {
+        id: 'local',
+        files: createLocalFiles(path.join(root, 'files')),
+        table,
+
+        async currentUser() {
+            return null;
+        }
+    };
+}
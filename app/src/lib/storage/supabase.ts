@@ -0,0 +1,154 @@
+import { createClient } from '@/lib/supabase/server';
+import { tableKey } from '@/lib/storage/keys';
+import type { DataTable, FileStore, RowFilter, StorageBackend } from '@/lib/storage/types';
+
+const BUCKET = 'timetables';
+
+// The filter methods every PostgREST query shares
+interface Filterable {
+    eq(column: string, value: unknown): Filterable;
+    in(column: string, values: unknown[]): Filterable;
+    is(column: string, value: null): Filterable;
+}
+
+function applyWhere<Query>(query: Query, where: RowFilter<unknown> = {}): Query {
+    let filtered = query as unknown as Filterable;
+    for (const [column, value] of Object.entries(where)) {
+        if (value === undefined) continue;
+        filtered = Array.isArray(value) ? filtered.in(column, value)
+            : value === null ? filtered.is(column, null)
+                : filtered.eq(column, value);
+    }
+    return filtered as unknown as Query;
+}
+
+const files: FileStore = {
+    async read(path) {
+        const supabase = await createClient();
+        const { data, error } = await supabase.storage.from(BUCKET).download(path);
+        return error || !data ? null : data;
+    },
+
+    async write(path, data, { contentType, upsert = false, metadata } = {}) {
+        const supabase = await createClient();
+        const { error } = await supabase.storage.from(BUCKET).upload(path, data, { contentType, upsert, metadata });
+        if (error) {
+            throw new Error(`Storage upload failed: ${error.message}`);
+        }
+    },
+
+    async remove(paths) {
+        const supabase = await createClient();
+        const { error } = await supabase.storage.from(BUCKET).remove(paths);
+        if (error) {
+            throw new Error(`Storage delete failed: ${error.message}`);
+        }
+    },
+
+    async list(dir, { limit = 100, order = 'asc' } = {}) {
+        const supabase = await createClient();
+        const { data, error } = await supabase.storage.from(BUCKET).list(dir, { limit, sortBy: { column: 'name', order } });
+        if (error || !data) return [];
+        return data.map(file => ({ name: file.name, createdAt: file.created_at || null }));
+    },
+
+    async url(path) {
+        const supabase = await createClient();
+        return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+    }
+};
+
+function table<Row>(name: string): DataTable<Row> {
+    return {
+        async select({ where, columns = '*', orderBy, ascending = true, limit, offset = 0 } = {}) {
+            const supabase = await createClient();
+
+            let query = applyWhere(supabase.from(name).select(columns), where);
+            if (orderBy) query = query.order(orderBy, { ascending });
+            if (limit !== undefined) query = query.range(offset, offset + limit - 1);
+
+            const { data, error } = await query;
+            if (error) {
+                throw new Error(`Failed to read ${name}: ${error.message}`);
+            }
+            return data as Row[];
+        },
+
+        async count(where) {
+            const supabase = await createClient();
+            const { count, error } = await applyWhere(supabase.from(name).select('*', { count: 'exact', head: true }), where);
+            if (error) {
+                throw new Error(`Failed to count ${name}: ${error.message}`);
+            }
+            return count ?? 0;
+        },
+
+        async insert(rows) {
+            const supabase = await createClient();
+            const { error } = await supabase.from(name).insert(rows);
+            if (error) {
+                throw new Error(`Failed to write ${name}: ${error.message}`);
+            }
+        },
+
+        async insertOne(row, columns = '*') {
+            const supabase = await createClient();
+            const { data, error } = await supabase.from(name).insert(row).select(columns).single();
+            if (error) {
+                throw new Error(`Failed to write ${name}: ${error.message}`);
+            }
+            return data as Row;
+        },
+
+        async upsert(row) {
+            const supabase = await createClient();
+            const { data, error } = await supabase.from(name).upsert(row).select().single();
+            if (error) {
+                throw new Error(`Failed to write ${name}: ${error.message}`);
+            }
+            return data as Row;
+        },
+
+        async update(where, changes) {
+            const supabase = await createClient();
+            const { data, error } = await applyWhere(supabase.from(name).update(changes), where).select();
+            if (error) {
+                throw new Error(`Failed to update ${name}: ${error.message}`);
+            }
+            return data as Row[];
+        },
+
+        async delete(where) {
+            const supabase = await createClient();
+
+            // PostgREST refuses an unfiltered delete, so "every row" is spelled out
+            // on the table's primary key
+            let query = supabase.from(name).delete();
+            if (Object.values(where).every(value => value === undefined)) {
+                query = query.not(tableKey(name), 'is', null);
+            }
+
+            const { error } = await applyWhere(query, where);
+            if (error) {
+                throw new Error(`Failed to delete from ${name}: ${error.message}`);
+            }
+        }
+    };
+}
+
+// The Supabase project: the timetables bucket and the tables in sql/schema.sql
+export const supabaseStorage: StorageBackend = {
+    id: 'supabase',
+    files,
+    table,
+
+    async currentUser() {
+        try {
+            const supabase = await createClient();
+            const { data: { user } } = await supabase.auth.getUser();
+            return user?.email ?? user?.id ?? null;
+        } catch {
+            return null;
+        }
+    }
+};
@@ -0,0 +1,52 @@
+export type StorageBackendId = 'supabase' | 'local';
+
+// A file in the timetables bucket
+export interface StoredFile {
+    name: string;
+    createdAt: string | null;
+}
+
+export interface WriteFileOptions {
+    contentType?: string;
+    upsert?: boolean;                      // replace a file already at the path; otherwise that is an error
+    metadata?: Record<string, unknown>;
+}
+
+// The timetables bucket: uploaded timetables and the JSON documents kept beside them
+export interface FileStore {
+    read(path: string): Promise<Blob | null>;      // null when there is no file at the path
+    write(path: string, data: Blob | ArrayBuffer | string, options?: WriteFileOptions): Promise<void>;
+    remove(paths: string[]): Promise<void>;
+    list(dir: string, options?: { limit?: number; order?: 'asc' | 'desc' }): Promise<StoredFile[]>;   // by name
+    url(path: string): Promise<string>;            // where a browser can fetch the file
+}
+
+// Column values rows must have; an array matches any of its values
+export type RowFilter<Row> = { [K in keyof Row]?: Row[K] | Row[K][] };
+
+export interface RowQuery<Row> {
+    where?: RowFilter<Row>;
+    columns?: string;                      // comma-separated, every column by default
+    orderBy?: keyof Row & string;
+    ascending?: boolean;
+    limit?: number;
+    offset?: number;
+}
+
+// One table of sql/schema.sql
+export interface DataTable<Row> {
+    select(query?: RowQuery<Row>): Promise<Row[]>;
+    count(where?: RowFilter<Row>): Promise<number>;
+    insert(rows: Partial<Row>[]): Promise<void>;
+    insertOne(row: Partial<Row>, columns?: string): Promise<Row>;    // returns the row with its defaults
+    upsert(row: Row): Promise<Row>;                                  // add, or replace the row with the same key
+    update(where: RowFilter<Row>, changes: Partial<Row>): Promise<Row[]>;
+    delete(where: RowFilter<Row>): Promise<void>;                    // an empty filter deletes every row
+}
+
+export interface StorageBackend {
+    id: StorageBackendId;
+    files: FileStore;
+    table<Row>(name: string): DataTable<Row>;
+    currentUser(): Promise<string | null>;     // email of the signed-in admin
+}
@@ -0,0 +1,7 @@
+// Whether Supabase credentials are set, rather than missing or left as the
+// placeholder from the setup guide
+export function isSupabaseConfigured(): boolean {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    return Boolean(url && key && url !== 'your_supabase_url');
+}
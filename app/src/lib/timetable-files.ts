@@ -0,0 +1,23 @@
+/**
+ * Timetable Files
+ *
+ * Timetables are uploaded as PDFs, as CSV/XLSX exports of the same grid, or as
+ * schedule JSON.
+ * Used by the upload forms as well as the server, so nothing here may import server code.
+ */
+
+export type TimetableFormat = 'pdf' | 'csv' | 'xlsx' | 'json';
+
+export const TIMETABLE_EXTENSIONS = ['.pdf', '.csv', '.xlsx', '.json'];
+
+// Format of an uploaded timetable, judged by its extension
+export function timetableFormat(fileName: string): TimetableFormat | undefined {
+    const extension = fileName.toLowerCase().split('.').pop();
+    return extension === 'pdf' || extension === 'csv' || extension === 'xlsx' || extension === 'json'
+        ? extension
+        : undefined;
+}
+
+export function isTimetableFile(fileName: string): boolean {
+    return timetableFormat(fileName) !== undefined;
+}
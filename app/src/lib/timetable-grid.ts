@@ -0,0 +1,604 @@
+/**
+ * Timetable Grid Extraction
+ *
+ * Rebuilds the timetable grid from positioned text. The header row gives the
+ * real time columns (9:00-09:30, 10:20-10:30, 11:50-12:00, ...) and every cell
+ * is aligned to those columns using its x/y coordinates, so each room mention
+ * maps to an exact time slot instead of a guess based on its place in a line.
+ */
+
+import type { BreakKind, BreakWindow, DayOfWeek, OccupiedSlot, RoomSchedule, SessionType } from '@/types';
+import type { RoomMention } from '@/lib/room-aliases';
+import { parseDayOfWeek } from '@/lib/days';
+
+// A run of text with its position on the page.
+// Coordinates are in PDF points with the origin at the top-left corner.
+export interface PositionedText {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    page: number;
+}
+
+export interface TimetableColumn {
+    start: string;
+    end: string;
+    left: number;
+    right: number;
+}
+
+// A block of text occupying one (possibly merged) cell of a batch row
+interface GridCell {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+    lines: string[];
+}
+
+// Text the grid could not turn into occupied slots
+export interface GridDiagnostics {
+    unmatchedText: { text: string; page: number; reason: string }[];
+    cellsWithoutRooms: { text: string; day: DayOfWeek; batch: string }[];
+    cellsWithoutTime: { text: string; day: DayOfWeek; batch: string }[];
+}
+
+export function createGridDiagnostics(): GridDiagnostics {
+    return { unmatchedText: [], cellsWithoutRooms: [], cellsWithoutTime: [] };
+}
+
+// What a timetable grid holds: classes per room, and the breaks of each batch
+export interface GridTimetable {
+    schedules: RoomSchedule[];
+    breaks: BreakWindow[];
+}
+
+interface BatchRow {
+    batch: string;
+    y: number;
+    cells: GridCell[];
+}
+
+const HEADER_TIME_REGEX = /^(\d{1,2})[:.](\d{2})/;
+const HEADER_RANGE_REGEX = /^(\d{1,2})[:.](\d{2})(?:[-–](\d{1,2})[:.](\d{2})|[:.](\d{2}))?/;
+const DAY_START = 9 * 60;
+const HEADER_FRAGMENT_REGEX = /^[\d:.\-–]+$/;
+const BREAK_REGEX = /^break$/i;
+const LUNCH_REGEX = /^lunch$/i;
+const CONTEST_REGEX = /^contest$/i;
+const SESSION_TYPE_REGEX = /\b(Lec(?:ture)?|Lab|Tut(?:orial)?)\b\.?/i;
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+function minutesToTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function centerOf(item: { left: number; right: number }): number {
+    return (item.left + item.right) / 2;
+}
+
+// Read a header label into minutes, keeping the typos found in real timetables readable:
+// "9:00-09:30", "17:30-18.00", "12:20:30" (12:20-12:30) and "10:00-10:" (end cut off)
+export function readHeaderLabel(label: string): { start: number; end?: number } | undefined {
+    const match = label.replace(/\s+/g, '').match(HEADER_RANGE_REGEX);
+    if (!match) return undefined;
+
+    const [hour, minute, endHour, endMinute, typoMinute] = match.slice(1).map(part => part === undefined ? NaN : parseInt(part, 10));
+    const start = hour * 60 + minute;
+    if (!isNaN(endHour)) return { start, end: endHour * 60 + endMinute };
+    if (!isNaN(typoMinute)) return { start, end: hour * 60 + typoMinute };
+    return { start };
+}
+
+// Turn the header labels of a grid, in column order, into normalized time columns.
+// Labels before the day starts are on a 12-hour clock ("7:00-7:30" after 18:30) and are
+// moved to the afternoon, labels that still break the time order are dropped (undefined), and a column
+// without a readable end runs until the next column starts.
+export function normalizeHeaderTimes(labels: string[]): ({ start: string; end: string } | undefined)[] {
+    const times: ({ start: number; end?: number } | undefined)[] = [];
+    let previous = -1;
+
+    for (const label of labels) {
+        const time = readHeaderLabel(label);
+        if (time && time.start <= previous && time.start < DAY_START && time.start + 12 * 60 > previous) {
+            time.start += 12 * 60;
+            if (time.end !== undefined && time.end < 13 * 60) time.end += 12 * 60;
+        }
+
+        if (!time || time.start <= previous) {
+            times.push(undefined);
+            continue;
+        }
+        times.push(time);
+        previous = time.start;
+    }
+
+    return times.map((time, i) => {
+        if (!time) return undefined;
+
+        const next = times.slice(i + 1).find(Boolean);
+        let end = time.end !== undefined && time.end > time.start ? time.end : next ? next.start : time.start + 30;
+        if (next && end > next.start) end = next.start;
+
+        return { start: minutesToTime(time.start), end: minutesToTime(end) };
+    });
+}
+
+// Kind of break a cell marks ("Lunch" or "BREAK"), or undefined for a class cell
+export function readBreakLabel(text: string): BreakKind | undefined {
+    if (BREAK_REGEX.test(text.trim())) return 'Break';
+    if (LUNCH_REGEX.test(text.trim())) return 'Lunch';
+    return undefined;
+}
+
+// Split column indexes into runs of neighbouring columns, e.g. [3, 4, 9] -> [[3, 4], [9]]
+function columnRuns(indexes: Iterable<number>): [number, number][] {
+    const runs: [number, number][] = [];
+    for (const i of [...new Set(indexes)].sort((a, b) => a - b)) {
+        const last = runs[runs.length - 1];
+        if (last && i === last[1] + 1) {
+            last[1] = i;
+        } else {
+            runs.push([i, i]);
+        }
+    }
+    return runs;
+}
+
+// Read the subject and Lec/Lab/Tut type from a cell such as
+// "DSA Lec Room No. 501" or "Maths II TUT Compiler- 505 & Debugger- 405".
+// The room mentions are taken out first, so a cell holding only rooms has no subject.
+export function describeCell(text: string, mentions: RoomMention[] = []): { subject?: string; type?: SessionType } {
+    const rest = mentions.reduce((remaining, mention) => mention.text ? remaining.replace(mention.text, ' ') : remaining, text);
+    const match = rest.match(SESSION_TYPE_REGEX);
+    const head = match ? rest.slice(0, match.index) : rest.split(/\(|\bRoom\b/i)[0];
+    const subject = head.replace(/^[\s&,/+]+|[\s&,/+(:=.-]+$/g, '').trim();
+
+    let type: SessionType | undefined;
+    if (match) {
+        const keyword = match[1].toLowerCase();
+        type = keyword.startsWith('lec') ? 'Lec' : keyword.startsWith('lab') ? 'Lab' : 'Tut';
+    }
+
+    return { subject: subject || undefined, type };
+}
+
+// Join words that sit next to each other on the same line into phrases.
+// pdfjs mostly reports phrases, but some PDFs split a cell into single words.
+export function joinWords(words: PositionedText[]): PositionedText[] {
+    const sorted = [...words].sort((a, b) =>
+        a.page - b.page || a.y - b.y || a.x - b.x
+    );
+    const phrases: PositionedText[] = [];
+
+    for (const word of sorted) {
+        const last = phrases[phrases.length - 1];
+        const sameLine = last
+            && last.page === word.page
+            && Math.abs(last.y - word.y) < Math.min(last.height, word.height) * 0.5;
+        const gap = last ? word.x - (last.x + last.width) : Infinity;
+
+        if (sameLine && gap >= -1 && gap <= Math.max(last.height, word.height) * 0.6) {
+            last.text = `${last.text} ${word.text}`;
+            last.width = word.x + word.width - last.x;
+            last.height = Math.max(last.height, word.height);
+        } else {
+            phrases.push({ ...word });
+        }
+    }
+
+    return phrases;
+}
+
+// The header is the topmost band of text holding time labels.
+// Labels wrapped inside their cell ("10:00-10:" above "30") are merged back into one label.
+function findHeaderItems(items: PositionedText[]): PositionedText[] {
+    const timeItems = items.filter(item => HEADER_TIME_REGEX.test(item.text.trim()));
+    if (timeItems.length === 0) return [];
+
+    const topY = Math.min(...timeItems.map(item => item.y));
+    const bandHeight = median(timeItems.map(item => item.height)) * 3;
+    const bandItems = items
+        .filter(item => item.y <= topY + bandHeight && HEADER_FRAGMENT_REGEX.test(item.text.trim()))
+        .sort((a, b) => a.x - b.x);
+
+    // Pieces of one label overlap horizontally, neighbouring labels do not
+    const groups: PositionedText[][] = [];
+    for (const item of bandItems) {
+        const group = groups[groups.length - 1];
+        const right = group && Math.max(...group.map(part => part.x + part.width));
+        if (group && item.x < right) {
+            group.push(item);
+        } else {
+            groups.push([item]);
+        }
+    }
+
+    return groups
+        .filter(group => group.some(part => HEADER_TIME_REGEX.test(part.text.trim())))
+        .map(group => {
+            const parts = [...group].sort((a, b) => a.y - b.y || a.x - b.x);
+            const left = Math.min(...parts.map(part => part.x));
+            const top = Math.min(...parts.map(part => part.y));
+            return {
+                text: parts.map(part => part.text.trim()).join(''),
+                x: left,
+                y: top,
+                width: Math.max(...parts.map(part => part.x + part.width)) - left,
+                height: Math.max(...parts.map(part => part.y + part.height)) - top,
+                page: parts[0].page
+            };
+        });
+}
+
+// Read the header row of a page into time columns with their real start and end times
+export function readTimeColumns(items: PositionedText[]): TimetableColumn[] {
+    const headerItems = findHeaderItems(items)
+        .sort((a, b) => (a.x + a.width / 2) - (b.x + b.width / 2));
+
+    if (headerItems.length < 4) return [];
+
+    const times = normalizeHeaderTimes(headerItems.map(item => item.text));
+    const labels = headerItems
+        .map((item, i) => ({ center: item.x + item.width / 2, time: times[i] }))
+        .filter(label => label.time !== undefined);
+
+    return labels.map((label, i) => {
+        const previous = labels[i - 1];
+        const next = labels[i + 1];
+        const halfBefore = previous ? (label.center - previous.center) / 2 : (next!.center - label.center) / 2;
+        const halfAfter = next ? (next.center - label.center) / 2 : halfBefore;
+
+        return {
+            start: label.time!.start,
+            end: label.time!.end,
+            left: label.center - halfBefore,
+            right: label.center + halfAfter
+        };
+    });
+}
+
+// Index of the column containing an x position, or -1
+function columnAt(columns: TimetableColumn[], x: number): number {
+    return columns.findIndex(column => x >= column.left && x < column.right);
+}
+
+// Columns whose centre lies inside a horizontal range
+function columnsCovering(columns: TimetableColumn[], left: number, right: number): number[] {
+    const covered: number[] = [];
+    columns.forEach((column, i) => {
+        const center = centerOf(column);
+        if (center >= left && center <= right) covered.push(i);
+    });
+    if (covered.length === 0) {
+        const i = columnAt(columns, (left + right) / 2);
+        if (i !== -1) covered.push(i);
+    }
+    return covered;
+}
+
+// Stack vertically adjacent items that overlap horizontally into cells
+function buildCells(items: PositionedText[]): GridCell[] {
+    const lineSpacings: number[] = [];
+    const byY = [...items].sort((a, b) => a.y - b.y);
+    for (let i = 0; i < byY.length; i++) {
+        for (let j = i + 1; j < byY.length; j++) {
+            const a = byY[i];
+            const b = byY[j];
+            const overlaps = a.x < b.x + b.width && b.x < a.x + a.width;
+            if (overlaps && b.y > a.y) {
+                lineSpacings.push(b.y - a.y);
+                break;
+            }
+        }
+    }
+    // Line spacing inside a cell is the smallest spacing that keeps repeating
+    lineSpacings.sort((a, b) => a - b);
+    const lineSpacing = lineSpacings[Math.floor(lineSpacings.length * 0.1)] || 0;
+    const maxGap = lineSpacing * 1.25;
+
+    const cells: GridCell[] = [];
+    for (const item of byY) {
+        const cell = cells.find(c =>
+            item.x < c.right && c.left < item.x + item.width
+            && item.y - c.bottom <= maxGap && item.y >= c.top
+        );
+        if (cell) {
+            cell.left = Math.min(cell.left, item.x);
+            cell.right = Math.max(cell.right, item.x + item.width);
+            cell.bottom = item.y;
+            cell.lines.push(item.text.trim());
+        } else {
+            cells.push({
+                left: item.x,
+                right: item.x + item.width,
+                top: item.y,
+                bottom: item.y,
+                lines: [item.text.trim()]
+            });
+        }
+    }
+    return cells;
+}
+
+// Work out which columns each cell spans.
+// Merged cells centre their text, so a cell takes the longest run of free
+// columns that covers its text and stays centred on it.
+function assignSpans(
+    cells: GridCell[],
+    columns: TimetableColumn[],
+    blocked: Set<number>
+): Map<GridCell, [number, number]> {
+    const spans = new Map<GridCell, [number, number]>();
+    const sorted = [...cells].sort((a, b) => a.left - b.left);
+    const cores = sorted.map(cell => columnsCovering(columns, cell.left, cell.right));
+    const taken = new Set<number>(blocked);
+    cores.forEach(core => core.forEach(i => taken.add(i)));
+
+    const tolerance = median(columns.map(c => c.right - c.left)) * 0.25;
+    let lowerBound = 0;
+
+    sorted.forEach((cell, index) => {
+        const core = cores[index];
+        if (core.length === 0) return;
+
+        const center = centerOf(cell);
+        let best: [number, number] = [core[0], core[core.length - 1]];
+
+        for (let first = core[0]; first >= lowerBound; first--) {
+            if (first < core[0] && taken.has(first)) break;
+            for (let last = core[core.length - 1]; last < columns.length; last++) {
+                if (last > core[core.length - 1] && taken.has(last)) break;
+                const spanCenter = (columns[first].left + columns[last].right) / 2;
+                if (Math.abs(spanCenter - center) > tolerance) continue;
+                if (last - first > best[1] - best[0]) best = [first, last];
+            }
+        }
+
+        spans.set(cell, best);
+        for (let i = best[0]; i <= best[1]; i++) taken.add(i);
+        lowerBound = best[1] + 1;
+    });
+
+    return spans;
+}
+
+// Group the rows under the day labels printed in the first column.
+// A block of rows ends when a batch repeats, and the day label sits
+// somewhere alongside that block.
+function assignDays(rows: BatchRow[], dayLabels: PositionedText[]): Map<BatchRow, DayOfWeek> {
+    const days = new Map<BatchRow, DayOfWeek>();
+    const blocks: BatchRow[][] = [];
+    let current: BatchRow[] = [];
+
+    for (const row of rows) {
+        if (current.some(r => r.batch === row.batch)) {
+            blocks.push(current);
+            current = [];
+        }
+        current.push(row);
+    }
+    if (current.length > 0) blocks.push(current);
+
+    const rowSpacing = median(rows.slice(1).map((row, i) => row.y - rows[i].y));
+
+    for (const block of blocks) {
+        const top = block[0].y - rowSpacing / 2;
+        const bottom = block[block.length - 1].y + rowSpacing / 2;
+        const blockCenter = (top + bottom) / 2;
+
+        const label = dayLabels
+            .filter(l => l.y + l.height / 2 >= top && l.y + l.height / 2 <= bottom)
+            .sort((a, b) => Math.abs(a.y - blockCenter) - Math.abs(b.y - blockCenter))[0];
+
+        if (label) {
+            const day = parseDayOfWeek(label.text)!;
+            block.forEach(row => days.set(row, day));
+        }
+    }
+
+    return days;
+}
+
+// Extract room occupancy from one page of positioned text
+function extractPage(
+    items: PositionedText[],
+    extractRooms: (text: string) => RoomMention[],
+    diagnostics: GridDiagnostics
+): GridTimetable {
+    const page = items[0]?.page ?? 0;
+    const unmatched = (texts: string[], reason: string) => {
+        diagnostics.unmatchedText.push(...texts.map(text => ({ text, page, reason })));
+    };
+
+    const columns = readTimeColumns(items);
+    if (columns.length === 0) {
+        unmatched(items.map(item => item.text), 'No time header on page');
+        return { schedules: [], breaks: [] };
+    }
+
+    const headerBottom = Math.max(...findHeaderItems(items).map(item => item.y + item.height));
+    const gridLeft = columns[0].left;
+
+    const body = items.filter(item => item.y > headerBottom);
+    const labels = body.filter(item => item.x + item.width / 2 < gridLeft);
+    const dayLabels = labels.filter(item => parseDayOfWeek(item.text));
+    const batchLabels = labels
+        .filter(item => !parseDayOfWeek(item.text))
+        .sort((a, b) => a.y - b.y);
+
+    const rows: BatchRow[] = batchLabels.map(label => ({
+        batch: label.text.replace(/\s*Batch\s*$/i, '').trim(),
+        y: label.y,
+        cells: []
+    }));
+    if (rows.length === 0) {
+        unmatched(body.map(item => item.text), 'No batch rows found');
+        return { schedules: [], breaks: [] };
+    }
+
+    // CONTEST fills a whole day section that has no batch rows (Friday, Saturday).
+    // Contest days come from the day coverage settings, so the text is not needed.
+    const gridItems = body.filter(item => item.x + item.width / 2 >= gridLeft && !CONTEST_REGEX.test(item.text.trim()));
+
+    // BREAK cells are merged down the whole table and block their column for every row
+    const breakColumns = new Set<number>();
+    for (const item of gridItems.filter(i => BREAK_REGEX.test(i.text.trim()))) {
+        columnsCovering(columns, item.x, item.x + item.width).forEach(i => breakColumns.add(i));
+    }
+
+    // Attach every cell to the batch row it lines up with.
+    // Rows differ in height, so a row reaches halfway to its neighbour on each side.
+    const cells = buildCells(gridItems.filter(i => !BREAK_REGEX.test(i.text.trim())));
+    const rowSpacing = median(rows.slice(1).map((row, i) => row.y - rows[i].y)) || Infinity;
+    for (const cell of cells) {
+        let nearest = -1;
+        let distance = Infinity;
+        rows.forEach((row, i) => {
+            const d = Math.min(
+                Math.abs(cell.bottom - row.y),
+                Math.abs((cell.top + cell.bottom) / 2 - row.y)
+            );
+            if (d < distance) {
+                nearest = i;
+                distance = d;
+            }
+        });
+
+        const row = rows[nearest];
+        const neighbour = row && ((cell.top + cell.bottom) / 2 < row.y ? rows[nearest - 1] : rows[nearest + 1]);
+        const reach = neighbour ? Math.abs(row.y - neighbour.y) / 2 : rowSpacing / 2;
+
+        if (row && distance <= reach) {
+            row.cells.push(cell);
+        } else {
+            unmatched([cell.lines.join(' ')], 'Outside any batch row');
+        }
+    }
+
+    const days = assignDays(rows, dayLabels);
+    const slots: { room: string; day: DayOfWeek; slot: OccupiedSlot }[] = [];
+    const breaks: BreakWindow[] = [];
+
+    for (const row of rows) {
+        const day = days.get(row);
+        if (!day) {
+            unmatched(row.cells.map(cell => cell.lines.join(' ')), `${row.batch} row is outside any day section`);
+            continue;
+        }
+
+        const lunchColumns = new Set<number>();
+        const lunchCells = row.cells.filter(cell => LUNCH_REGEX.test(cell.lines.join(' ')));
+        for (const cell of lunchCells) {
+            columnsCovering(columns, cell.left, cell.right).forEach(i => lunchColumns.add(i));
+        }
+        const blocked = new Set([...breakColumns, ...lunchColumns]);
+
+        // Breaks are kept per batch and day, since Lunch moves around between rows
+        for (const [kind, indexes] of [['Break', breakColumns], ['Lunch', lunchColumns]] as const) {
+            for (const [first, last] of columnRuns(indexes)) {
+                breaks.push({ day, batch: row.batch, kind, start: columns[first].start, end: columns[last].end });
+            }
+        }
+
+        const classCells = row.cells.filter(cell => !lunchCells.includes(cell));
+        const spans = assignSpans(classCells, columns, blocked);
+
+        for (const cell of classCells) {
+            const text = cell.lines.join(' ');
+            const span = spans.get(cell);
+            if (!span) {
+                diagnostics.cellsWithoutTime.push({ text, day, batch: row.batch });
+                continue;
+            }
+
+            slots.push(...cellSlots(
+                text,
+                { day, batch: row.batch, start: columns[span[0]].start, end: columns[span[1]].end },
+                extractRooms,
+                diagnostics
+            ));
+        }
+    }
+
+    return { schedules: groupSlots(slots), breaks };
+}
+
+// Turn the text of one timetable cell into an occupied slot for every room it mentions
+export function cellSlots(
+    text: string,
+    cell: { day: DayOfWeek; batch: string; start: string; end: string },
+    extractRooms: (text: string) => RoomMention[],
+    diagnostics: GridDiagnostics
+): { room: string; day: DayOfWeek; slot: OccupiedSlot }[] {
+    const mentions = extractRooms(text);
+    const slot: OccupiedSlot = {
+        start: cell.start,
+        end: cell.end,
+        batch: cell.batch,
+        ...describeCell(text, mentions)
+    };
+
+    if (mentions.length === 0) {
+        diagnostics.cellsWithoutRooms.push({ text, day: cell.day, batch: cell.batch });
+    }
+
+    return mentions.map(mention => ({
+        room: mention.room,
+        day: cell.day,
+        slot: { ...slot, batch: cell.batch || mention.parentBatch, subBatch: mention.subBatch }
+    }));
+}
+
+// Collect room mentions into one RoomSchedule per room and day
+export function groupSlots(mentions: { room: string; day: DayOfWeek; slot: OccupiedSlot }[]): RoomSchedule[] {
+    const map = new Map<string, RoomSchedule>();
+    for (const { room, day, slot } of mentions) {
+        const key = `${room}-${day}`;
+        if (!map.has(key)) {
+            map.set(key, { room, day, occupied: [] });
+        }
+        map.get(key)!.occupied.push({ ...slot });
+    }
+
+    for (const schedule of map.values()) {
+        schedule.occupied.sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+    }
+
+    return Array.from(map.values());
+}
+
+// Main entry: extract room schedules and break windows from positioned text of every page
+export function extractGridSchedules(
+    items: PositionedText[],
+    extractRooms: (text: string) => RoomMention[],
+    diagnostics: GridDiagnostics = createGridDiagnostics()
+): GridTimetable {
+    const pages = new Map<number, PositionedText[]>();
+    for (const item of joinWords(items)) {
+        if (!pages.has(item.page)) pages.set(item.page, []);
+        pages.get(item.page)!.push(item);
+    }
+
+    const timetable: GridTimetable = { schedules: [], breaks: [] };
+    for (const pageItems of pages.values()) {
+        const page = extractPage(pageItems, extractRooms, diagnostics);
+        timetable.schedules.push(...page.schedules);
+        timetable.breaks.push(...page.breaks);
+    }
+    return timetable;
+}
@@ -0,0 +1,69 @@
+/**
+ * Version Schedules
+ *
+ * The schedule parsed from each uploaded timetable, stored against its version id
+ * so every upload keeps its own data, whichever version is live.
+ */
+
+import { getStorage, readJsonFile, writeJsonFile } from '@/lib/storage';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+
+export interface VersionSchedule {
+    versionId: string;  // pdf_versions id
+    semester: number;
+    fileName: string;   // stored file name, semesterN/<fileName>
+    parsedAt: string;
+    parser?: string;
+    slotCount: number;
+    schedules: ParsedScheduleEntry[];
+    breaks: ParsedBreak[];
+}
+
+const VERSIONS_DIR = 'parsed';
+
+// Schedules live under parsed/semesterN/<stored file name>.json, next to the diagnostics
+function versionSchedulePath(semester: number, fileName: string): string {
+    return `${VERSIONS_DIR}/semester${semester}/${fileName}.json`;
+}
+
+export function createVersionSchedule(
+    versionId: string,
+    semester: number,
+    fileName: string,
+    schedules: ParsedScheduleEntry[],
+    breaks: ParsedBreak[],
+    parser?: string
+): VersionSchedule {
+    return {
+        versionId,
+        semester,
+        fileName,
+        parsedAt: new Date().toISOString(),
+        parser,
+        slotCount: schedules.reduce((count, entry) => count + entry.occupied.length, 0),
+        schedules,
+        breaks
+    };
+}
+
+export async function saveVersionSchedule(version: VersionSchedule): Promise<void> {
+    await writeJsonFile(versionSchedulePath(version.semester, version.fileName), version);
+}
+
+// Load the schedule parsed from a version, if it has been parsed
+export async function loadVersionSchedule(semester: number, fileName: string): Promise<VersionSchedule | null> {
+    try {
+        return await readJsonFile<VersionSchedule>(versionSchedulePath(semester, fileName));
+    } catch {
+        return null;
+    }
+}
+
+// Remove the parsed schedule when its version is deleted
+export async function deleteVersionSchedule(semester: number, fileName: string): Promise<void> {
+    try {
+        await getStorage().files.remove([versionSchedulePath(semester, fileName)]);
+    } catch {
+        // Ignore error
+    }
+}
@@ -1,13 +1,17 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase/config';
+import { isAdminOpen } from '@/lib/storage/config';
 
 export async function middleware(request: NextRequest) {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    // Offline development on the local backend has nobody to sign in
+    if (isAdminOpen()) {
+        return NextResponse.next();
+    }
 
     // If Supabase is not configured, skip middleware for login page
     // but still protect other admin routes
-    if (!supabaseUrl || !supabaseKey || supabaseUrl === 'your_supabase_url') {
+    if (!isSupabaseConfigured()) {
         // Allow login page to show demo/setup message
         if (request.nextUrl.pathname === '/admin/login') {
             return NextResponse.next();
@@ -24,8 +28,8 @@ export async function middleware(request: NextRequest) {
     });
 
     const supabase = createServerClient(
-        supabaseUrl,
-        supabaseKey,
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
         {
             cookies: {
                 getAll() {
@@ -1,20 +1,107 @@
+export type DayOfWeek = 'Mon' | 'Tue' | 'Wed' | 'Thur' | 'Fri' | 'Sat' | 'Sun';
+
 export interface TimeSlot {
   start: string; // HH:mm format
   end: string;   // HH:mm format
 }
 
+export type SessionType = 'Lec' | 'Lab' | 'Tut';
+
+// An occupied slot with what is happening in the room, when known
+export interface OccupiedSlot extends TimeSlot {
+  batch?: string;
+  subBatch?: string;
+  subject?: string;
+  type?: SessionType;
+}
+
+export type BreakKind = 'Lunch' | 'Break';
+
+// A Lunch or BREAK cell from the timetable: one batch is on a break on that day
+export interface BreakWindow extends TimeSlot {
+  day: DayOfWeek;
+  batch: string;
+  kind: BreakKind;
+}
+
 export interface RoomSchedule {
   room: string;
-  day: string;
-  occupied: TimeSlot[];
+  day: DayOfWeek;
+  occupied: OccupiedSlot[];
+}
+
+// A batch in the registry. Sub-batches (Enigma, Lambda) name their parent (Turing).
+export interface Batch {
+  name: string;
+  color: string;            // hex, e.g. "#a855f7"
+  semester: number | null;
+  year: number | null;
+  program: string | null;
+  parent: string | null;    // parent batch of a sub-batch
+}
+
+export type RoomType = 'lecture' | 'lab' | 'seminar';
+
+export type RoomAmenity = 'projector' | 'whiteboard' | 'ac' | 'power_outlets';
+
+export const ROOM_TYPES: RoomType[] = ['lecture', 'lab', 'seminar'];
+
+export const ROOM_AMENITIES: RoomAmenity[] = ['projector', 'whiteboard', 'ac', 'power_outlets'];
+
+export const AMENITY_LABELS: Record<RoomAmenity, string> = {
+  projector: 'Projector',
+  whiteboard: 'Whiteboard',
+  ac: 'AC',
+  power_outlets: 'Power outlets',
+};
+
+// A room in the registry: the rooms that exist and what they offer
+export interface Room {
+  id: string;               // room number as printed in timetables, e.g. "501"
+  name: string;             // display name
+  building: string | null;
+  floor: number | null;
+  capacity: number | null;  // seats
+  type: RoomType;
+  amenities: RoomAmenity[];
+}
+
+// Attributes a free room must have; rooms outside the registry match only an empty filter
+export interface RoomFilters {
+  minCapacity?: number;
+  type?: RoomType;
+  floor?: number;
+  amenities?: RoomAmenity[];
 }
 
+// How free rooms are ordered: longest window, free soonest, closest to a preferred
+// floor, or the smallest room that still seats the group
+export type RoomRanking = 'longest' | 'soonest' | 'nearest-floor' | 'best-fit';
+
+export const ROOM_RANKINGS: { value: RoomRanking; label: string }[] = [
+  { value: 'longest', label: 'Longest free' },
+  { value: 'soonest', label: 'Free soonest' },
+  { value: 'nearest-floor', label: 'Nearest floor' },
+  { value: 'best-fit', label: 'Best size fit' },
+];
+
 export interface FreeRoom {
   room: string;
-  day: string;
+  day: DayOfWeek;
   freeFrom: string;
   freeTill: string;
   duration: number; // in minutes
+  nextSession?: OccupiedSlot; // class that ends the free window
+  breaks?: BreakWindow[];     // breaks of this room's batches inside the free window
+  details?: Room;             // registry entry, when the room is registered
+}
+
+// What parsing an uploaded version produced
+export interface PDFVersionParse {
+  parsed_at: string;
+  parser?: string;
+  slot_count: number;
+  errors: string[];
 }
 
 export interface PDFVersion {
@@ -22,12 +109,14 @@ export interface PDFVersion {
   name: string;
   file_path: string;
   semester: number; // 1 or 2
-  is_active: boolean;
+  is_active: boolean;   // parsed and searched for its semester over its effective dates
+  is_pinned: boolean;   // stays active when newer versions are uploaded
   uploaded_at: string;
+  effective_from: string | null; // YYYY-MM-DD, first date the version applies; null for no start
+  effective_to: string | null;   // YYYY-MM-DD, last date the version applies; null for no end
+  parse: PDFVersionParse | null; // null until the version has been parsed
 }
 
-export type DayOfWeek = 'Mon' | 'Tue' | 'Wed' | 'Thur' | 'Fri' | 'Sat' | 'Sun';
-
 export const TIME_SLOTS = [
   '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
   '12:00', '12:30', '13:00', '13:30', '14:00', '14:30',
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+    dateInWeek,
+    parseAcademicCalendar,
+    resolveCalendarDay,
+    runsOn,
+    type AcademicCalendar
+} from '@/lib/academic-calendar';
+
+const calendar: AcademicCalendar = parseAcademicCalendar({
+    terms: [
+        { name: 'Spring 2026', semester: 2, start: '2026-01-05', end: '2026-05-15', teachingWeeks: 16 },
+        { name: 'Spring 2026 (4th)', semester: 4, start: '2026-01-05', end: '2026-05-15', teachingWeeks: '' },
+    ],
+    events: [
+        { kind: 'holiday', name: 'Republic Day', start: '2026-01-26' },
+        { kind: 'exam', name: 'Mid-terms', start: '2026-03-02', end: '2026-03-06', semester: 2 },
+        { kind: 'closure', name: 'Power maintenance', start: '2026-04-10' },
+    ]
+});
+
+describe('resolveCalendarDay', () => {
+    it('runs every semester in a teaching week and counts the week', () => {
+        expect(resolveCalendarDay(calendar, '2026-01-14')).toEqual({
+            date: '2026-01-14', status: 'teaching', label: 'Spring 2026', week: 2, semesters: [2, 4]
+        });
+    });
+
+    it('stops one semester for its exams and everyone for holidays and closures', () => {
+        expect(resolveCalendarDay(calendar, '2026-03-04').semesters).toEqual([4]);
+        expect(resolveCalendarDay(calendar, '2026-01-26')).toMatchObject({ status: 'holiday', label: 'Republic Day', semesters: [] });
+        expect(resolveCalendarDay(calendar, '2026-04-10')).toMatchObject({ status: 'closure', semesters: [] });
+    });
+
+    it('ends a term after its teaching weeks and has no classes between terms', () => {
+        expect(resolveCalendarDay(calendar, '2026-05-01').semesters).toEqual([4]);
+        expect(resolveCalendarDay(calendar, '2026-06-01')).toEqual({ date: '2026-06-01', status: 'break', semesters: [] });
+    });
+
+    it('runs the timetable every week when no terms are configured', () => {
+        const day = resolveCalendarDay({ terms: [], events: [] }, '2026-06-01');
+
+        expect(day).toEqual({ date: '2026-06-01', status: 'teaching' });
+        expect(runsOn(day, 2)).toBe(true);
+    });
+});
+
+describe('academic calendar helpers', () => {
+    it('keeps only the slots of teaching semesters', () => {
+        const examWeek = resolveCalendarDay(calendar, '2026-03-04');
+
+        expect(runsOn(examWeek, 2)).toBe(false);
+        expect(runsOn(examWeek, 4)).toBe(true);
+        expect(runsOn(examWeek, undefined)).toBe(true);
+        expect(runsOn(resolveCalendarDay(calendar, '2026-06-01'), undefined)).toBe(false);
+    });
+
+    it('finds the date of a weekday in the active week', () => {
+        expect(dateInWeek('2026-02-02', 'Thur')).toBe('2026-02-05');
+        expect(dateInWeek(null, 'Mon', new Date(2026, 1, 4))).toBe('2026-02-02');
+    });
+
+    it('rejects overlapping terms and events for unknown semesters', () => {
+        expect(() => parseAcademicCalendar({
+            terms: [
+                { name: 'A', semester: 1, start: '2026-01-01', end: '2026-03-01' },
+                { name: 'B', semester: 1, start: '2026-02-01', end: '2026-05-01' },
+            ],
+            events: []
+        })).toThrow('A and B overlap for semester 1');
+        expect(() => parseAcademicCalendar({
+            terms: [],
+            events: [{ kind: 'exam', name: 'Finals', start: '2026-05-01', semester: 3 }]
+        })).toThrow('no term runs semester 3');
+        expect(() => parseAcademicCalendar({
+            terms: [],
+            events: [{ kind: 'holiday', name: 'Diwali', start: '2026-11-08', end: '2026-11-01' }]
+        })).toThrow('Diwali ends before it starts');
+    });
+});
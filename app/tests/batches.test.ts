@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { assignParentBatches, findUnknownBatches, parseBatch } from '@/lib/batches';
+import { batchColor, UNKNOWN_BATCH_COLOR } from '@/lib/batch-colors';
+import type { ParsedScheduleEntry } from '@/lib/pdf-parser';
+import type { Batch } from '@/types';
+
+const turing: Batch = { name: 'Turing', color: '#3b82f6', semester: 2, year: 1, program: null, parent: null };
+const enigma: Batch = { name: 'Enigma', color: '#1d4ed8', semester: 2, year: 1, program: null, parent: 'Turing' };
+const registry = [turing, enigma];
+
+const schedules: ParsedScheduleEntry[] = [{
+    room: '401',
+    day: 'Mon',
+    occupied: [
+        { start: '09:00', end: '10:00', batch: 'Turing', subBatch: 'Enigma' },
+        { start: '10:00', end: '11:00', subBatch: 'Enigma' },
+        { start: '11:00', end: '12:00', batch: 'Turnig' },
+    ]
+}];
+
+describe('parseBatch', () => {
+    it('fills in defaults and reads numbers typed into the editor', () => {
+        expect(parseBatch({ name: ' Hopper ', semester: '4', year: '2' }, registry)).toEqual({
+            name: 'Hopper', color: '#6366f1', semester: 4, year: 2, program: null, parent: null
+        });
+    });
+
+    it('accepts a registered top-level batch as parent', () => {
+        expect(parseBatch({ name: 'Lambda', color: '#3B82F6', parent: 'Turing' }, registry)).toMatchObject({
+            color: '#3b82f6', parent: 'Turing'
+        });
+    });
+
+    it('rejects bad colors, numbers and parents', () => {
+        expect(() => parseBatch({}, registry)).toThrow('Batch name is required');
+        expect(() => parseBatch({ name: 'Lambda', color: 'blue' }, registry)).toThrow('Color must be a hex color');
+        expect(() => parseBatch({ name: 'Lambda', semester: '0' }, registry)).toThrow('semester must be a positive whole number');
+        expect(() => parseBatch({ name: 'Lambda', parent: 'Hopper' }, registry)).toThrow('Unknown parent batch: Hopper');
+        expect(() => parseBatch({ name: 'Lambda', parent: 'Enigma' }, registry)).toThrow('Enigma is itself a sub-batch of Turing');
+        expect(() => parseBatch({ name: 'Turing', parent: 'Turing' }, registry)).toThrow('A batch cannot be its own parent');
+    });
+});
+
+describe('batch registry checks', () => {
+    it('fills in the parent of a registered sub-batch', () => {
+        const [entry] = assignParentBatches(schedules, registry);
+
+        expect(entry.occupied.map(slot => slot.batch)).toEqual(['Turing', 'Turing', 'Turnig']);
+    });
+
+    it('flags batch names the registry does not know', () => {
+        const breaks = [{ day: 'Mon' as const, start: '12:30', end: '13:30', batch: 'CP', kind: 'Lunch' as const }];
+
+        expect(findUnknownBatches(schedules, breaks, registry)).toEqual(['CP', 'Turnig']);
+        expect(findUnknownBatches(schedules, breaks, [])).toEqual([]);
+    });
+
+    it('colors a slot by its sub-batch, then its batch', () => {
+        expect(batchColor(registry, 'Turing', 'Enigma')).toBe('#1d4ed8');
+        expect(batchColor(registry, 'Turing', 'Lambda')).toBe('#3b82f6');
+        expect(batchColor(registry, 'Turnig')).toBe(UNKNOWN_BATCH_COLOR);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Upload → parse → search through the API routes, on the local storage backend,
+ * with no Supabase project and no network.
+ */
+
+import { promises as fs, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as upload } from '@/app/api/upload/route';
+import { GET as listPdfs } from '@/app/api/pdfs/route';
+import { DELETE as deletePdf } from '@/app/api/pdfs/delete/route';
+import { GET as readFile } from '@/app/api/files/[...path]/route';
+import { GET as searchRooms, POST as refreshRooms } from '@/app/api/rooms/route';
+import { listSnapshots } from '@/lib/schedule-snapshots';
+import type { PDFVersion } from '@/types';
+
+const FIXTURE = path.resolve(__dirname, '..', 'public', 'timetables', 'semester1', '1770005761590_Untitled spreadsheet - Table 1.pdf');
+
+const request = (url: string, init?: ConstructorParameters<typeof NextRequest>[1]) =>
+    new NextRequest(new URL(url, 'http://localhost'), init);
+
+async function freeRoomsAt(date: string, time: string) {
+    const body = await (await searchRooms(request(`/api/rooms?date=${date}&time=${time}`))).json();
+    return { meta: body.meta, rooms: (body.data as { room: string }[]).map(free => free.room) };
+}
+
+describe('local backend', () => {
+    let dir: string;
+    const env = { ...process.env };
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-backend-'));
+        process.env.STORAGE_BACKEND = 'local';
+        process.env.LOCAL_DATA_DIR = dir;
+        delete process.env.SETTINGS_STORE;
+        delete process.env.SETTINGS_FILE;
+    });
+
+    afterAll(async () => {
+        process.env = env;
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    let version: PDFVersion;
+
+    it('uploads and parses a timetable, which goes live', async () => {
+        const form = new FormData();
+        form.append('file', new File([readFileSync(FIXTURE)], 'semester1.pdf', { type: 'application/pdf' }));
+        form.append('semester', '1');
+
+        const response = await upload(request('/api/upload', { method: 'POST', body: form }));
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body).toMatchObject({ success: true, live: true, parser: 'pdf-semester1' });
+        expect(body.slotCount).toBeGreaterThan(0);
+
+        const pdfs: PDFVersion[] = await (await listPdfs()).json();
+        expect(pdfs).toHaveLength(1);
+        version = pdfs[0];
+        expect(version).toMatchObject({ name: 'semester1.pdf', semester: 1, is_active: true });
+        expect(version.parse?.slot_count).toBe(body.slotCount);
+    }, 60_000);
+
+    it('serves the stored file', async () => {
+        expect(version.file_path).toMatch(/^\/api\/files\/semester1\/\d+_semester1\.pdf$/);
+        const segments = version.file_path.replace('/api/files/', '').split('/');
+
+        const response = await readFile(request(version.file_path), { params: Promise.resolve({ path: segments }) });
+        expect(response.headers.get('Content-Type')).toBe('application/pdf');
+        expect(Buffer.from(await response.arrayBuffer()).equals(readFileSync(FIXTURE))).toBe(true);
+    });
+
+    it('searches the parsed timetable', async () => {
+        // Monday 10:00: 402, 405, 501, 502 and 505 have classes, 503 and 504 do not
+        const { meta, rooms } = await freeRoomsAt('2026-02-02', '10:00');
+
+        expect(meta).toMatchObject({ hasData: true, day: 'Mon', versions: [{ id: version.id, semester: 1 }] });
+        expect(rooms).toEqual(expect.arrayContaining(['503', '504']));
+        for (const busy of ['402', '405', '501', '502', '505']) {
+            expect(rooms).not.toContain(busy);
+        }
+    });
+
+    it('refreshes the live schedule from the active version', async () => {
+        const snapshots = (await listSnapshots()).length;
+        const response = await refreshRooms();
+        expect(response.status).toBe(200);
+        // Both semesters are published under one snapshot
+        expect(await listSnapshots()).toHaveLength(snapshots + 1);
+
+        const { meta, rooms } = await freeRoomsAt('2026-02-02', '10:00');
+        expect(meta).toMatchObject({ hasData: true, versions: [{ id: version.id, semester: 1 }] });
+        expect(rooms).not.toContain('402');
+    });
+
+    it('deletes the version along with its live slots', async () => {
+        const response = await deletePdf(request(`/api/pdfs/delete?id=${version.id}`, { method: 'DELETE' }));
+        expect(response.status).toBe(200);
+        expect((await response.json()).message).toContain('Semester 1 has no active timetable');
+
+        expect(await (await listPdfs()).json()).toEqual([]);
+        expect((await freeRoomsAt('2026-02-02', '10:00')).meta.hasData).toBe(false);
+        expect(await fs.readdir(path.join(dir, 'files', 'semester1'))).toEqual([]);
+    });
+});
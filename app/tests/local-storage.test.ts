@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalStorage, type StorageBackend } from '@/lib/storage';
+import type { Batch, Room } from '@/types';
+
+interface VersionRow {
+    id: string;
+    name: string;
+    semester: number;
+    is_active: boolean;
+    uploaded_at: string;
+}
+
+describe('local storage backend', () => {
+    let dir: string;
+    let storage: StorageBackend;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-'));
+        storage = createLocalStorage(dir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    describe('files', () => {
+        it('reads back what was written and lists a folder by name', async () => {
+            await storage.files.write('semester1/2_b.pdf', new Blob(['second']));
+            await storage.files.write('semester1/1_a.pdf', 'first');
+
+            expect(await (await storage.files.read('semester1/1_a.pdf'))!.text()).toBe('first');
+            expect((await storage.files.list('semester1')).map(file => file.name)).toEqual(['1_a.pdf', '2_b.pdf']);
+            expect((await storage.files.list('semester1', { limit: 1, order: 'desc' })).map(file => file.name)).toEqual(['2_b.pdf']);
+            expect(await storage.files.list('semester2')).toEqual([]);
+        });
+
+        it('replaces a file only when asked to', async () => {
+            await storage.files.write('config/aliases.json', '{}');
+            await expect(storage.files.write('config/aliases.json', '[]')).rejects.toThrow('already exists');
+
+            await storage.files.write('config/aliases.json', '[]', { upsert: true });
+            expect(await (await storage.files.read('config/aliases.json'))!.text()).toBe('[]');
+        });
+
+        it('treats removed and missing files alike', async () => {
+            await storage.files.write('semester1/a.pdf', 'a');
+            await storage.files.remove(['semester1/a.pdf', 'semester1/never.pdf']);
+            expect(await storage.files.read('semester1/a.pdf')).toBeNull();
+        });
+
+        it('refuses paths outside its folder', async () => {
+            await expect(storage.files.read('../outside.json')).rejects.toThrow('Invalid storage path');
+        });
+    });
+
+    describe('tables', () => {
+        it('fills in defaults and filters, orders and pages rows', async () => {
+            const versions = storage.table<VersionRow>('pdf_versions');
+            const first = await versions.insertOne({ name: 'a.pdf', semester: 1, uploaded_at: '2026-01-01T00:00:00Z' });
+            await versions.insert([
+                { name: 'b.pdf', semester: 1, uploaded_at: '2026-01-03T00:00:00Z' },
+                { name: 'c.pdf', semester: 2, uploaded_at: '2026-01-02T00:00:00Z' }
+            ]);
+
+            expect(first).toMatchObject({ name: 'a.pdf', is_active: false });
+            expect(first.id).toMatch(/^[0-9a-f-]{36}$/);
+
+            const newestFirst = await versions.select({ orderBy: 'uploaded_at', ascending: false });
+            expect(newestFirst.map(row => row.name)).toEqual(['b.pdf', 'c.pdf', 'a.pdf']);
+            expect((await versions.select({ where: { semester: 1 }, orderBy: 'name', limit: 1, offset: 1 })).map(row => row.name)).toEqual(['b.pdf']);
+            expect(await versions.select({ where: { name: ['a.pdf', 'c.pdf'] }, columns: 'name' })).toEqual([{ name: 'a.pdf' }, { name: 'c.pdf' }]);
+            expect(await versions.count({ semester: 2 })).toBe(1);
+        });
+
+        it('updates matching rows and returns them', async () => {
+            const versions = storage.table<VersionRow>('pdf_versions');
+            const { id } = await versions.insertOne({ name: 'a.pdf', semester: 1 });
+
+            expect(await versions.update({ id }, { is_active: true })).toMatchObject([{ id, is_active: true }]);
+            expect(await versions.update({ id: 'missing' }, { is_active: true })).toEqual([]);
+        });
+
+        it('starts the registries from the rows the schema inserts', async () => {
+            const rooms = await storage.table<Room>('rooms').select({ orderBy: 'id' });
+            expect(rooms.map(room => room.id)).toEqual(['401', '402', '403', '404', '405', '501', '502', '503', '504', '505']);
+            expect(rooms[0]).toMatchObject({ name: 'Room 401', floor: 4, type: 'lecture', amenities: [] });
+
+            const lambda = await storage.table<Batch>('batches').select({ where: { name: 'Lambda' } });
+            expect(lambda).toMatchObject([{ parent: 'Turing', semester: null }]);
+        });
+
+        it('upserts by the primary key and rejects duplicate inserts', async () => {
+            const rooms = storage.table<Room>('rooms');
+            await rooms.upsert({ id: '401', name: 'Seminar Hall', building: null, floor: 4, capacity: 80, type: 'seminar', amenities: ['ac'] });
+
+            expect(await rooms.count()).toBe(10);
+            expect((await rooms.select({ where: { id: '401' } }))[0]).toMatchObject({ name: 'Seminar Hall', capacity: 80 });
+            await expect(rooms.insert([{ id: '402', name: 'Again' }])).rejects.toThrow('duplicate id 402');
+        });
+
+        it('applies the foreign keys when rows are deleted', async () => {
+            const version = await storage.table<VersionRow>('pdf_versions').insertOne({ name: 'a.pdf', semester: 1 });
+            const slots = storage.table<{ room: string; pdf_version_id: string | null }>('room_schedules');
+            await slots.insert([{ room: '401', pdf_version_id: version.id }, { room: '402', pdf_version_id: null }]);
+
+            await storage.table('pdf_versions').delete({ id: version.id });
+            expect((await slots.select()).map(slot => slot.room)).toEqual(['402']);
+
+            const batches = storage.table<Batch>('batches');
+            await batches.delete({ name: 'Turing' });
+            expect((await batches.select({ where: { name: ['Enigma', 'Lambda'] } })).map(batch => batch.parent)).toEqual([null, null]);
+        });
+
+        it('keeps every row when concurrent writes overlap', async () => {
+            const slots = storage.table<{ room: string }>('room_schedules');
+            await Promise.all(Array.from({ length: 20 }, (_, i) => slots.insert([{ room: String(400 + i) }])));
+            expect(await slots.count()).toBe(20);
+        });
+    });
+});
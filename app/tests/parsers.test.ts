@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { detectParser, parseTimetable, type TimetableFile } from '@/lib/parsers';
+import { createDiagnostics } from '@/lib/parse-diagnostics';
+import { createRoomMatcher, DEFAULT_ROOM_ALIASES } from '@/lib/room-aliases';
+
+const ROOT = path.resolve(__dirname, '..');
+
+function textFile(name: string, text: string): TimetableFile {
+    return { name, data: new TextEncoder().encode(text).buffer as ArrayBuffer };
+}
+
+// The sample timetables the app ships in public/timetables
+const SAMPLES: Record<string, string> = {
+    'semester1.pdf': 'public/timetables/semester1/1770005761590_Untitled spreadsheet - Table 1.pdf',
+    'semester2.pdf': 'public/timetables/semester2/1769931874800_Sem 4 Time Table (19th Jan - 23rd Jan).pdf',
+};
+
+function fixture(name: string): TimetableFile {
+    const data = readFileSync(path.join(ROOT, SAMPLES[name]));
+    return { name, data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer };
+}
+
+describe('timetable parser registry', () => {
+    it.each([
+        ['semester1.pdf', 'pdf-semester1'],
+        ['semester2.pdf', 'pdf-semester2'],
+    ])('detects the layout of %s', async (name, parser) => {
+        expect((await detectParser(fixture(name)))?.parser.id).toBe(parser);
+    });
+
+    it('rejects PDFs in no known layout', async () => {
+        expect(await detectParser(textFile('scan.pdf', '%PDF-1.4\nnot a timetable'))).toBeUndefined();
+    });
+
+    it('detects schedule JSON whatever the file is called', async () => {
+        const file = textFile('export.txt', JSON.stringify([{ room: '402', day: 'Mon', slots: [] }]));
+        expect((await detectParser(file))?.parser.id).toBe('json');
+    });
+
+    it('picks the spreadsheet parser for CSV', async () => {
+        expect((await detectParser(textFile('grid.csv', 'Day,Batch,08:00 - 09:00\n')))?.parser.id).toBe('spreadsheet');
+    });
+
+    it('rejects files no parser recognises', async () => {
+        const file = textFile('notes.pdf', 'not really a pdf');
+        expect(await detectParser(file)).toBeUndefined();
+        await expect(parseTimetable(file, {
+            extractRooms: createRoomMatcher(DEFAULT_ROOM_ALIASES),
+            report: createDiagnostics(1, file.name)
+        })).rejects.toThrow('No timetable parser recognises notes.pdf');
+    });
+
+    it('parses schedule JSON and records the parser', async () => {
+        const report = createDiagnostics(1, 'schedule.json');
+        const file = textFile('schedule.json', JSON.stringify({
+            schedules: [{ room: '402', day: 'Tue', occupied: [{ start: '08:00', end: '09:30', batch: 'Turing' }] }],
+            breaks: []
+        }));
+        const parsed = await parseTimetable(file, { extractRooms: createRoomMatcher(DEFAULT_ROOM_ALIASES), report });
+
+        expect(report.parser).toBe('json');
+        expect(parsed.schedules).toHaveLength(1);
+        expect(parsed.schedules[0].occupied[0].batch).toBe('Turing');
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { coversRange, effectiveVersions, parseEffectiveRange, type PdfVersionRow } from '@/lib/pdf-versions';
+
+function version(id: string, overrides: Partial<PdfVersionRow> = {}): PdfVersionRow {
+    return {
+        id, name: `${id}.pdf`, file_path: `semester1/${id}.pdf`, semester: 1,
+        is_active: true, is_pinned: false, parser: null, uploaded_at: '2026-01-01T00:00:00Z',
+        effective_from: null, effective_to: null, ...overrides
+    };
+}
+
+describe('effectiveVersions', () => {
+    const current = version('current');
+    const nextWeek = version('next-week', { effective_from: '2026-02-09' });
+    const examWeek = version('exam-week', { effective_from: '2026-03-02', effective_to: '2026-03-06' });
+    const versions = [current, nextWeek, examWeek, version('sem2', { semester: 2 })];
+
+    it('keeps the current timetable until a newer one starts', () => {
+        expect(effectiveVersions(versions, '2026-02-06').map(v => v.id)).toEqual(['current', 'sem2']);
+        expect(effectiveVersions(versions, '2026-02-09').map(v => v.id)).toEqual(['next-week', 'sem2']);
+    });
+
+    it('lets a dated version cover a few days, then falls back', () => {
+        expect(effectiveVersions(versions, '2026-03-04')[0].id).toBe('exam-week');
+        expect(effectiveVersions(versions, '2026-03-09')[0].id).toBe('next-week');
+    });
+
+    it('ignores inactive versions and prefers the newest upload on a tie', () => {
+        const newer = version('newer', { uploaded_at: '2026-01-05T00:00:00Z' });
+
+        expect(effectiveVersions([current, newer], '2026-01-10')[0].id).toBe('newer');
+        expect(effectiveVersions([{ ...newer, is_active: false }, current], '2026-01-10')[0].id).toBe('current');
+    });
+});
+
+describe('effective ranges', () => {
+    it('reads dates from a form, leaving empty ends open', () => {
+        expect(parseEffectiveRange('2026-02-09', '')).toEqual({ from: '2026-02-09', to: null });
+        expect(parseEffectiveRange(null, undefined)).toEqual({ from: null, to: null });
+        expect(() => parseEffectiveRange('next week', '')).toThrow('Effective from must be a date');
+        expect(() => parseEffectiveRange('2026-02-09', '2026-02-01')).toThrow('ends before it starts');
+    });
+
+    it('replaces only the versions whose dates it covers', () => {
+        expect(coversRange({ from: null, to: null }, { from: '2026-02-09', to: null })).toBe(true);
+        expect(coversRange({ from: '2026-02-09', to: null }, { from: null, to: null })).toBe(false);
+        expect(coversRange({ from: '2026-02-09', to: null }, { from: '2026-03-02', to: '2026-03-06' })).toBe(true);
+        expect(coversRange({ from: '2026-03-02', to: '2026-03-06' }, { from: '2026-03-02', to: null })).toBe(false);
+    });
+});
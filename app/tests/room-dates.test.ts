@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseAcademicCalendar } from '@/lib/academic-calendar';
+import { DEFAULT_DAY_COVERAGE } from '@/lib/day-coverage';
+import { resolveRoomDate, runsOnDate } from '@/lib/room-dates';
+import type { PdfVersionRow } from '@/lib/pdf-versions';
+
+const calendar = parseAcademicCalendar({
+    terms: [
+        { name: 'Spring 2026', semester: 2, start: '2026-01-05', end: '2026-05-15' },
+        { name: 'Spring 2026 (4th)', semester: 4, start: '2026-01-05', end: '2026-05-15' },
+    ],
+    events: [
+        { kind: 'holiday', name: 'Republic Day', start: '2026-01-26' },
+        { kind: 'exam', name: 'Mid-terms', start: '2026-03-02', end: '2026-03-06', semester: 2 },
+    ]
+});
+
+function version(id: string, semester: number, effectiveFrom: string | null = null): PdfVersionRow {
+    return {
+        id, name: `sem${semester}.pdf`, file_path: `semester${semester}/${id}.pdf`, semester,
+        is_active: true, is_pinned: false, parser: null, uploaded_at: '2026-01-01T00:00:00Z',
+        effective_from: effectiveFrom, effective_to: null
+    };
+}
+
+const context = { calendar, coverage: DEFAULT_DAY_COVERAGE, versions: [version('v2', 2)] };
+
+describe('resolveRoomDate', () => {
+    it('finds the weekday and the versions running on a teaching date', () => {
+        expect(resolveRoomDate('2026-01-14', context)).toMatchObject({
+            day: 'Wed',
+            calendar: { status: 'teaching', week: 2 },
+            versions: [{ id: 'v2', name: 'sem2.pdf', semester: 2 }],
+            reason: null,
+            message: null
+        });
+    });
+
+    it('explains holidays, days without sessions and dates outside term', () => {
+        expect(resolveRoomDate('2026-01-26', context)).toMatchObject({
+            reason: 'holiday', message: 'Republic Day: there are no classes, so every room is free.'
+        });
+        expect(resolveRoomDate('2026-01-17', context)).toMatchObject({
+            day: 'Sat', versions: [], reason: 'closed-day', message: 'There are no sessions on Saturdays.'
+        });
+        expect(resolveRoomDate('2026-06-01', context).reason).toBe('outside-term');
+    });
+
+    it('reports a missing timetable when only unpublished semesters teach', () => {
+        const resolved = resolveRoomDate('2026-03-04', context);
+
+        expect(resolved.calendar.semesters).toEqual([4]);
+        expect(resolved.reason).toBe('no-timetable');
+        expect(resolveRoomDate('2026-03-04', { ...context, versions: [] }).reason).toBeNull();
+    });
+
+    it('uses the version effective on the date', () => {
+        const versions = [version('v2', 2), version('v2-next', 2, '2026-01-19')];
+
+        expect(resolveRoomDate('2026-01-14', { ...context, versions }).versions.map(v => v.id)).toEqual(['v2']);
+        expect(resolveRoomDate('2026-01-21', { ...context, versions }).versions.map(v => v.id)).toEqual(['v2-next']);
+        expect(resolveRoomDate('2026-01-14', { ...context, versions: [version('v2-next', 2, '2026-01-19')] }).reason).toBe('no-timetable');
+    });
+
+    it('keeps only the slots of running versions', () => {
+        const resolved = resolveRoomDate('2026-01-14', context);
+
+        expect(runsOnDate(resolved, { semester: 2, version: 'v2' })).toBe(true);
+        expect(runsOnDate(resolved, { semester: 2, version: 'v1' })).toBe(false);
+        expect(runsOnDate(resolved, {})).toBe(true);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Room finder checks against the golden timetables: a room is reported free at a
+ * time exactly when none of its classes covers that time.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { findFreeRooms } from '@/lib/room-finder';
+import type { DayOfWeek, Room, RoomSchedule } from '@/types';
+
+const ROOMS = ['401', '402', '403', '404', '405', '501', '502', '503', '504', '505'];
+
+const TEST_CASES: { day: DayOfWeek; time: string; description: string }[] = [
+    { day: 'Mon', time: '10:00', description: 'Monday 10:00 AM' },
+    { day: 'Mon', time: '12:00', description: 'Monday 12:00 PM (lunch)' },
+    { day: 'Mon', time: '15:00', description: 'Monday 3:00 PM' },
+    { day: 'Tue', time: '09:00', description: 'Tuesday 9:00 AM' },
+    { day: 'Tue', time: '14:00', description: 'Tuesday 2:00 PM' },
+    { day: 'Wed', time: '10:00', description: 'Wednesday 10:00 AM' },
+    { day: 'Thur', time: '09:30', description: 'Thursday 9:30 AM' },
+];
+
+function timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+// Both semesters share the rooms, so the finder sees them together
+function loadGoldenSchedules(): RoomSchedule[] {
+    return ['semester1', 'semester2'].flatMap(name => {
+        const golden = JSON.parse(readFileSync(path.join(__dirname, 'golden', `${name}.json`), 'utf-8'));
+        return golden.schedules as RoomSchedule[];
+    });
+}
+
+const schedules = loadGoldenSchedules();
+
+// Every room gets an entry for the day, like /api/rooms does, so empty rooms are searched too
+function withAllRooms(day: DayOfWeek): RoomSchedule[] {
+    return [...schedules, ...ROOMS.map(room => ({ room, day, occupied: [] }))];
+}
+
+function isOccupied(room: string, day: DayOfWeek, time: string): boolean {
+    const target = timeToMinutes(time);
+    return schedules
+        .filter(entry => entry.room === room && entry.day === day)
+        .some(entry => entry.occupied.some(slot => timeToMinutes(slot.start) <= target && target < timeToMinutes(slot.end)));
+}
+
+describe('findFreeRooms', () => {
+    it.each(TEST_CASES)('reports exactly the unoccupied rooms on $description', ({ day, time }) => {
+        const free = findFreeRooms(withAllRooms(day), day, time);
+
+        for (const room of ROOMS) {
+            expect(free.some(r => r.room === room), `room ${room}`).toBe(!isOccupied(room, day, time));
+        }
+        for (const window of free) {
+            expect(timeToMinutes(window.freeFrom)).toBeLessThanOrEqual(timeToMinutes(time));
+            expect(timeToMinutes(window.freeTill)).toBeGreaterThan(timeToMinutes(time));
+        }
+    });
+
+    it('ends each free window at the next class in the room', () => {
+        for (const window of findFreeRooms(withAllRooms('Mon'), 'Mon')) {
+            if (window.nextSession) {
+                expect(window.nextSession.start).toBe(window.freeTill);
+            }
+        }
+    });
+
+    it('drops windows shorter than the minimum duration', () => {
+        const free = findFreeRooms(withAllRooms('Tue'), 'Tue', undefined, 90);
+
+        expect(free.length).toBeGreaterThan(0);
+        expect(free.every(window => window.duration >= 90)).toBe(true);
+    });
+
+    it('attaches registry details to registered rooms', () => {
+        const room501: Room = {
+            id: '501', name: 'Room 501', building: null, floor: 5, capacity: 60, type: 'lecture', amenities: ['projector']
+        };
+        const free = findFreeRooms(withAllRooms('Mon'), 'Mon', undefined, undefined, [], { rooms: [room501] });
+
+        expect(free.filter(window => window.room === '501').every(window => window.details === room501)).toBe(true);
+        expect(free.filter(window => window.room !== '501').every(window => window.details === undefined)).toBe(true);
+    });
+});
+
+describe('findFreeRooms filters and ranking', () => {
+    const registry: Room[] = ROOMS.map(id => ({
+        id,
+        name: `Room ${id}`,
+        building: null,
+        floor: Number(id[0]),
+        capacity: Number(id[2]) * 15,   // 15 seats in x01 up to 75 in x05
+        type: id.endsWith('5') ? 'lab' : 'lecture',
+        amenities: Number(id[2]) % 2 === 1 ? ['projector'] : []
+    }));
+    const search = (options: Parameters<typeof findFreeRooms>[5]) =>
+        findFreeRooms(withAllRooms('Wed'), 'Wed', undefined, undefined, [], { rooms: registry, ...options });
+
+    it('keeps only rooms with every requested attribute', () => {
+        const free = search({ filters: { minCapacity: 30, amenities: ['projector'] } });
+
+        expect(free.length).toBeGreaterThan(0);
+        expect(free.every(window => window.details!.capacity! >= 30 && window.details!.amenities.includes('projector'))).toBe(true);
+    });
+
+    it('leaves out unregistered rooms once an attribute is asked for', () => {
+        const free = findFreeRooms(withAllRooms('Wed'), 'Wed', undefined, undefined, [], { rooms: [], filters: { type: 'lab' } });
+        expect(free).toEqual([]);
+    });
+
+    it('puts the preferred floor first', () => {
+        const free = search({ rankBy: 'nearest-floor', preferredFloor: 5 });
+        const firstOther = free.findIndex(window => window.details!.floor !== 5);
+
+        expect(firstOther).toBeGreaterThan(0);
+        expect(free.slice(firstOther).every(window => window.details!.floor !== 5)).toBe(true);
+    });
+
+    it('ranks the smallest room that still fits first', () => {
+        const capacities = search({ rankBy: 'best-fit', filters: { minCapacity: 40 } }).map(window => window.details!.capacity!);
+
+        expect(capacities.every(capacity => capacity >= 40)).toBe(true);
+        expect(capacities).toEqual([...capacities].sort((a, b) => a - b));
+    });
+
+    it('orders windows by when they open', () => {
+        const starts = search({ rankBy: 'soonest' }).map(window => timeToMinutes(window.freeFrom));
+        expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    });
+});
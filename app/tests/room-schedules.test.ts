@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { fromBreakRows, fromSlotRows, toBreakRows, toSlotRows } from '@/lib/room-schedules';
+import type { ParsedBreak, ParsedScheduleEntry } from '@/lib/pdf-parser';
+
+const golden: { schedules: ParsedScheduleEntry[]; breaks: ParsedBreak[] } = JSON.parse(
+    readFileSync(path.resolve(__dirname, 'golden', 'semester1.json'), 'utf-8')
+);
+
+const byRoomDay = (a: ParsedScheduleEntry, b: ParsedScheduleEntry) =>
+    a.room.localeCompare(b.room) || a.day.localeCompare(b.day);
+
+describe('room_schedules rows', () => {
+    it('stores one row per occupied slot', () => {
+        const slotCount = golden.schedules.reduce((count, entry) => count + entry.occupied.length, 0);
+        expect(toSlotRows(golden.schedules)).toHaveLength(slotCount);
+    });
+
+    it('round-trips schedules through rows', () => {
+        const tagged = golden.schedules.map(entry => ({
+            ...entry,
+            occupied: entry.occupied.map(slot => ({ ...slot, semester: 1, version: '7f0c2a4e-3b1d-4c8e-9a6f-2d5e8b1c4f70' }))
+        }));
+        const restored = fromSlotRows(toSlotRows(tagged));
+
+        expect(restored.sort(byRoomDay)).toEqual(
+            tagged
+                .filter(entry => entry.occupied.length > 0)
+                .map(entry => ({ ...entry, occupied: [...entry.occupied].sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end)) }))
+                .sort(byRoomDay)
+        );
+    });
+
+    it('round-trips break windows through rows', () => {
+        expect(fromBreakRows(toBreakRows(golden.breaks))).toEqual(golden.breaks);
+    });
+
+    it('skips rows with an unknown day', () => {
+        const [row] = toSlotRows([{ room: '402', day: 'Mon', occupied: [{ start: '08:00', end: '09:00' }] }]);
+        expect(fromSlotRows([{ ...row, day: 'Someday' }])).toEqual([]);
+    });
+});
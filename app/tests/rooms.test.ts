@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoom } from '@/lib/rooms';
+
+describe('parseRoom', () => {
+    it('fills in defaults for a bare room id', () => {
+        expect(parseRoom({ id: ' 601 ' })).toEqual({
+            id: '601', name: 'Room 601', building: null, floor: null, capacity: null, type: 'lecture', amenities: []
+        });
+    });
+
+    it('reads numbers typed into the editor', () => {
+        const room = parseRoom({ id: '502', floor: '5', capacity: '40', type: 'lab', amenities: ['ac', 'projector', 'ac'] });
+
+        expect(room.floor).toBe(5);
+        expect(room.capacity).toBe(40);
+        expect(room.amenities).toEqual(['projector', 'ac']);
+    });
+
+    it('rejects unknown types, amenities and bad numbers', () => {
+        expect(() => parseRoom({})).toThrow('Room id is required');
+        expect(() => parseRoom({ id: '501', type: 'auditorium' })).toThrow('Unknown room type');
+        expect(() => parseRoom({ id: '501', amenities: ['sofa'] })).toThrow('Unknown amenities: sofa');
+        expect(() => parseRoom({ id: '501', capacity: '-3' })).toThrow('capacity must be a whole number');
+    });
+});
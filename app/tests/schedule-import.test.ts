@@ -0,0 +1,111 @@
+/**
+ * Committing a parse preview through /api/schedules (and JSON imports through /api/upload):
+ * each slot keeps its version, so a dated version only blocks rooms on its dates.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as importSchedules } from '@/app/api/schedules/route';
+import { POST as uploadJson, PUT as reimport } from '@/app/api/upload/route';
+import { GET as searchRooms } from '@/app/api/rooms/route';
+import { applyVersionAction, registerVersion } from '@/lib/pdf-versions';
+import { loadCachedBreaks, loadCachedSchedules } from '@/lib/pdf-parser';
+
+const request = (url: string, init?: ConstructorParameters<typeof NextRequest>[1]) =>
+    new NextRequest(new URL(url, 'http://localhost'), init);
+
+async function freeRoomsAt(date: string, time: string): Promise<string[]> {
+    const body = await (await searchRooms(request(`/api/rooms?date=${date}&time=${time}`))).json();
+    return (body.data as { room: string }[]).map(free => free.room);
+}
+
+describe('committing a parse preview', () => {
+    let dir: string;
+    const env = { ...process.env };
+
+    let thisWeek: string;
+    let nextWeek: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schedule-import-'));
+        process.env.STORAGE_BACKEND = 'local';
+        process.env.LOCAL_DATA_DIR = dir;
+        delete process.env.SETTINGS_STORE;
+        delete process.env.SETTINGS_FILE;
+
+        thisWeek = (await registerVersion({
+            semester: 1, name: 'week1.pdf', filePath: 'semester1/1_week1.pdf', range: { from: '2026-02-02', to: '2026-02-08' }
+        })).id;
+        nextWeek = (await registerVersion({
+            semester: 1, name: 'week2.pdf', filePath: 'semester1/2_week2.pdf', range: { from: '2026-02-09', to: '2026-02-15' }
+        })).id;
+        await applyVersionAction(thisWeek, 'activate');
+        await applyVersionAction(nextWeek, 'activate');
+
+        // What a dry run of both versions hands the admin page
+        const response = await importSchedules(request('/api/schedules', {
+            method: 'POST',
+            body: JSON.stringify({
+                schedules: [
+                    { room: '401', day: 'Mon', occupied: [{ start: '09:30', end: '10:50', batch: 'Turing', semester: 1, version: thisWeek }] },
+                    { room: '402', day: 'Mon', occupied: [{ start: '09:30', end: '10:50', batch: 'Turing', semester: 1, version: nextWeek }] },
+                    { room: '403', day: 'Mon', occupied: [{ start: '09:30', end: '10:50', batch: 'Hopper', semester: 1, version: 'deleted-version' }] }
+                ],
+                breaks: [{ day: 'Mon', batch: 'Turing', kind: 'Lunch', start: '13:00', end: '14:00', semester: 1, version: nextWeek }],
+                merge: false,
+                source: 'parse'
+            })
+        }));
+        expect(response.status).toBe(200);
+    });
+
+    afterAll(async () => {
+        process.env = env;
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('stores each slot against its version', async () => {
+        const versions = (await loadCachedSchedules({ day: 'Mon' }))!
+            .map(entry => [entry.room, entry.occupied[0].version]);
+        expect(Object.fromEntries(versions)).toEqual({ '401': thisWeek, '402': nextWeek, '403': undefined });
+    });
+
+    it('blocks a room only on the dates of the version its class belongs to', async () => {
+        const first = await freeRoomsAt('2026-02-02', '10:00');
+        expect(first).not.toContain('401');
+        expect(first).toContain('402');
+
+        const second = await freeRoomsAt('2026-02-09', '10:00');
+        expect(second).toContain('401');
+        expect(second).not.toContain('402');
+    });
+
+    it('keeps slots of unknown versions, untagged, on every date', async () => {
+        expect(await freeRoomsAt('2026-02-02', '10:00')).not.toContain('403');
+        expect(await freeRoomsAt('2026-02-09', '10:00')).not.toContain('403');
+    });
+
+    it('keeps versions and breaks when importing through /api/upload', async () => {
+        const schedules = [{ room: '404', day: 'Tue', occupied: [{ start: '09:30', end: '10:50', batch: 'Turing', semester: 1, version: nextWeek }] }];
+        const breaks = [{ day: 'Tue', batch: 'Turing', kind: 'Lunch', start: '13:00', end: '14:00', semester: 1, version: nextWeek }];
+
+        for (const send of [
+            () => uploadJson(request('/api/upload', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ type: 'schedule-import', schedules, breaks })
+            })),
+            () => reimport(request('/api/upload', {
+                method: 'PUT',
+                body: JSON.stringify({ action: 'import', schedules, breaks, merge: false })
+            }))
+        ]) {
+            expect((await send()).status).toBe(200);
+            expect(await loadCachedSchedules({ day: 'Tue' })).toEqual(schedules);
+            expect(await loadCachedBreaks()).toEqual(breaks);
+        }
+    });
+});
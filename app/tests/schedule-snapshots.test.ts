@@ -0,0 +1,108 @@
+/**
+ * Snapshot diff and restore through the API routes, on the local storage backend.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as diffSnapshots } from '@/app/api/snapshots/diff/route';
+import { POST as restoreSnapshot } from '@/app/api/snapshots/[id]/restore/route';
+import { deleteVersion, registerVersion } from '@/lib/pdf-versions';
+import { loadCachedBreaks, loadCachedSchedules, saveParsedSchedules, type ParsedBreak, type ParsedScheduleEntry } from '@/lib/pdf-parser';
+import { listSnapshots, type SnapshotSummary } from '@/lib/schedule-snapshots';
+
+const request = (url: string, init?: ConstructorParameters<typeof NextRequest>[1]) =>
+    new NextRequest(new URL(url, 'http://localhost'), init);
+
+async function snapshotNamed(note: string): Promise<SnapshotSummary> {
+    const snapshot = (await listSnapshots()).find(summary => summary.note === note);
+    if (!snapshot) throw new Error(`No snapshot "${note}"`);
+    return snapshot;
+}
+
+async function restore(snapshot: SnapshotSummary) {
+    return restoreSnapshot(request(`/api/snapshots/${snapshot.id}/restore`, { method: 'POST' }), {
+        params: Promise.resolve({ id: snapshot.id })
+    });
+}
+
+describe('schedule snapshots', () => {
+    let dir: string;
+    const env = { ...process.env };
+
+    let first: string;
+    let second: string;
+    let original: ParsedScheduleEntry[];
+    let originalBreaks: ParsedBreak[];
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schedule-snapshots-'));
+        process.env.STORAGE_BACKEND = 'local';
+        process.env.LOCAL_DATA_DIR = dir;
+
+        first = (await registerVersion({ semester: 1, name: 'week1.pdf', filePath: 'semester1/1_week1.pdf' })).id;
+        second = (await registerVersion({ semester: 2, name: 'week1.pdf', filePath: 'semester2/1_week1.pdf' })).id;
+
+        original = [
+            { room: '401', day: 'Mon', occupied: [{ start: '09:00', end: '10:20', batch: 'Turing', subject: 'DSA', type: 'Lec', semester: 1, version: first }] },
+            { room: '502', day: 'Tue', occupied: [{ start: '11:00', end: '12:20', batch: 'Hopper', subject: 'OS', type: 'Lab', semester: 2, version: second }] }
+        ];
+        originalBreaks = [{ day: 'Mon', batch: 'Turing', kind: 'Lunch', start: '13:00', end: '14:00', semester: 1, version: first }];
+
+        await saveParsedSchedules(original, originalBreaks, { source: 'parse', note: 'original' });
+        await saveParsedSchedules([
+            { room: '401', day: 'Mon', occupied: [{ start: '09:00', end: '10:20', batch: 'Turing', subject: 'Maths', type: 'Lec', semester: 1 }] },
+            { room: '503', day: 'Wed', occupied: [{ start: '14:00', end: '15:20', batch: 'Neumann', semester: 1 }] }
+        ], [], { source: 'editor', note: 'edited' });
+    });
+
+    afterAll(async () => {
+        process.env = env;
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('records a snapshot of every write', async () => {
+        expect(await snapshotNamed('original')).toMatchObject({ source: 'parse', entry_count: 2, slot_count: 2 });
+        expect(await snapshotNamed('edited')).toMatchObject({ source: 'editor', entry_count: 2, slot_count: 2 });
+    });
+
+    it('compares a snapshot with the live schedule', async () => {
+        const from = await snapshotNamed('original');
+        const body = await (await diffSnapshots(request(`/api/snapshots/diff?from=${from.id}&to=live`))).json();
+
+        expect(body.diff.summary).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 0 });
+        expect(body.diff.entries.map((entry: { room: string; day: string }) => `${entry.day} ${entry.room}`).sort())
+            .toEqual(['Mon 401', 'Tue 502', 'Wed 503']);
+    });
+
+    it('refuses a diff against a snapshot that does not exist', async () => {
+        expect((await diffSnapshots(request('/api/snapshots/diff?from=missing&to=live'))).status).toBe(404);
+        expect((await diffSnapshots(request('/api/snapshots/diff?from=live'))).status).toBe(400);
+    });
+
+    it('restores the rows and their version tags', async () => {
+        const response = await restore(await snapshotNamed('original'));
+        expect(response.status).toBe(200);
+
+        expect(await loadCachedSchedules()).toEqual(expect.arrayContaining(original));
+        expect(await loadCachedSchedules()).toHaveLength(original.length);
+        expect(await loadCachedBreaks()).toEqual(originalBreaks);
+        expect((await listSnapshots()).filter(summary => summary.source === 'restore')).toMatchObject([{ slot_count: 2 }]);
+    });
+
+    it('drops the tags of versions deleted since the snapshot', async () => {
+        await deleteVersion(second);
+        const response = await restore(await snapshotNamed('original'));
+        expect(response.status).toBe(200);
+
+        const tuesday = (await loadCachedSchedules({ room: '502' }))![0];
+        expect(tuesday.occupied).toEqual([{ start: '11:00', end: '12:20', batch: 'Hopper', subject: 'OS', type: 'Lab', semester: 2 }]);
+        expect((await loadCachedSchedules({ room: '401' }))![0].occupied[0].version).toBe(first);
+    });
+
+    it('answers 404 for an unknown snapshot', async () => {
+        expect((await restore({ id: 'missing' } as SnapshotSummary)).status).toBe(404);
+    });
+});
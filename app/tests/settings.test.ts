@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalStorage } from '@/lib/storage';
+import {
+    changedSettingKeys, createFileSettingsRepository, createTableSettingsRepository, DEFAULT_SETTINGS, describeActiveWeek,
+    loadSettings, parseSettings, saveSettings, todayIn, type SettingsRepository
+} from '@/lib/settings';
+
+describe('parseSettings', () => {
+    it('fills in defaults for fields that were never saved', () => {
+        expect(parseSettings({ weekStartDate: '2026-02-02', weekEndDate: '2026-02-06' })).toEqual({
+            ...DEFAULT_SETTINGS, weekStartDate: '2026-02-02', weekEndDate: '2026-02-06'
+        });
+    });
+
+    it('sorts teaching days into week order', () => {
+        expect(parseSettings({ teachingDays: ['Fri', 'Mon', 'Wed'] }).teachingDays).toEqual(['Mon', 'Wed', 'Fri']);
+    });
+
+    it.each([
+        [{ weekStartDate: '2026-02-02' }, 'both ends'],
+        [{ weekStartDate: '2026-02-06', weekEndDate: '2026-02-02' }, 'ends before it starts'],
+        [{ weekStartDate: '02/02/2026', weekEndDate: '2026-02-06' }, 'Week start must be a date'],
+        [{ operatingHours: { start: '9am', end: '19:30' } }, 'Opening time must be a time'],
+        [{ operatingHours: { start: '18:00', end: '09:00' } }, 'Closing time must be after'],
+        [{ timezone: 'Mars/Olympus' }, 'Unknown timezone'],
+        [{ teachingDays: [] }, 'at least one teaching day'],
+        [{ teachingDays: ['Mon', 'Funday'] }, 'Unknown teaching days: Funday'],
+    ])('rejects %j', (input, message) => {
+        expect(() => parseSettings(input)).toThrow(message);
+    });
+});
+
+describe('changedSettingKeys', () => {
+    it('lists only the settings whose values differ', () => {
+        const after = { ...DEFAULT_SETTINGS, timezone: 'Europe/London', operatingHours: { start: '08:00', end: '19:30' } };
+        expect(changedSettingKeys(DEFAULT_SETTINGS, after)).toEqual(['operatingHours', 'timezone']);
+        expect(changedSettingKeys(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS })).toEqual([]);
+    });
+});
+
+describe('file settings repository', () => {
+    let dir: string;
+    let repository: SettingsRepository;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'settings-'));
+        repository = createFileSettingsRepository(path.join(dir, 'nested', 'settings.json'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('uses the defaults before anything is saved', async () => {
+        expect(await loadSettings(repository)).toEqual(DEFAULT_SETTINGS);
+        expect(await repository.history(10)).toEqual([]);
+    });
+
+    it('keeps every change, newest first, and skips saves that change nothing', async () => {
+        const week = parseSettings({ weekStartDate: '2026-02-02', weekEndDate: '2026-02-06' });
+        const first = await saveSettings(week, repository);
+        expect(first?.changedKeys).toEqual(['weekStartDate', 'weekEndDate']);
+
+        expect(await saveSettings(week, repository)).toBeNull();
+
+        const saturdayOff = { ...week, teachingDays: week.teachingDays.filter(day => day !== 'Sat') };
+        await saveSettings(saturdayOff, repository);
+
+        expect(await loadSettings(repository)).toEqual(saturdayOff);
+        const history = await repository.history(10);
+        expect(history.map(change => change.changedKeys)).toEqual([['teachingDays'], ['weekStartDate', 'weekEndDate']]);
+        expect(await repository.history(1)).toHaveLength(1);
+    });
+});
+
+describe('table settings repository', () => {
+    let dir: string;
+    let repository: SettingsRepository;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'settings-table-'));
+        repository = createTableSettingsRepository(createLocalStorage(dir));
+        // Saves are ordered by when they were made, so each gets its own moment
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps every change in settings_history, newest first', async () => {
+        expect(await loadSettings(repository)).toEqual(DEFAULT_SETTINGS);
+
+        vi.setSystemTime(new Date('2026-02-01T09:00:00Z'));
+        const week = parseSettings({ weekStartDate: '2026-02-02', weekEndDate: '2026-02-06' });
+        await saveSettings(week, repository);
+
+        vi.setSystemTime(new Date('2026-02-01T10:00:00Z'));
+        const london = { ...week, timezone: 'Europe/London' };
+        await saveSettings(london, repository);
+
+        expect(repository.id).toBe('local');
+        expect(await loadSettings(repository)).toEqual(london);
+        expect((await repository.history(10)).map(change => [change.changedAt, change.changedKeys])).toEqual([
+            ['2026-02-01T10:00:00.000Z', ['timezone']],
+            ['2026-02-01T09:00:00.000Z', ['weekStartDate', 'weekEndDate']]
+        ]);
+    });
+});
+
+describe('describeActiveWeek', () => {
+    const settings = parseSettings({ weekStartDate: '2026-02-02', weekEndDate: '2026-02-06' });
+
+    it('formats the week and checks it against the campus clock', () => {
+        // 19:00 UTC on the 6th is already the 7th in India
+        const lateFriday = new Date('2026-02-06T19:00:00Z');
+        expect(describeActiveWeek(settings, lateFriday)).toMatchObject({ activeWeek: '2nd Feb - 6th Feb', isCurrentWeek: false });
+        expect(describeActiveWeek({ ...settings, timezone: 'UTC' }, lateFriday).isCurrentWeek).toBe(true);
+    });
+
+    it('reports no week when none is set', () => {
+        expect(describeActiveWeek(DEFAULT_SETTINGS).activeWeek).toBeNull();
+    });
+
+    it('gives today in the settings timezone', () => {
+        expect(todayIn('Asia/Kolkata', new Date('2026-02-06T19:00:00Z'))).toBe('2026-02-07');
+        expect(todayIn('America/New_York', new Date('2026-02-07T02:00:00Z'))).toBe('2026-02-06');
+    });
+});
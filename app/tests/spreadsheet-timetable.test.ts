@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractSpreadsheetSchedules, parseCsv, parseXlsx, type SheetRows } from '@/lib/spreadsheet-timetable';
+import { createGridDiagnostics } from '@/lib/timetable-grid';
+import { createRoomMatcher, DEFAULT_ROOM_ALIASES } from '@/lib/room-aliases';
+
+const FIXTURES = path.resolve(__dirname, 'fixtures');
+
+// The same timetable, as tests/fixtures/timetable.csv and as timetable.xlsx with
+// merged cells and one sheet per day
+const EXPECTED = {
+    schedules: [
+        { room: '501', day: 'Mon', occupied: [{ start: '09:00', end: '10:40', batch: 'Turing', subject: 'DSA', type: 'Lec' }] },
+        { room: '504', day: 'Mon', occupied: [{ start: '11:30', end: '13:10', batch: 'Turing', subBatch: 'Enigma' }] },
+        { room: '503', day: 'Mon', occupied: [{ start: '11:30', end: '13:10', batch: 'Turing', subBatch: 'Lambda' }] },
+        { room: '505', day: 'Mon', occupied: [{ start: '09:00', end: '09:50', batch: 'Hopper', subBatch: 'Compiler', subject: 'Maths II', type: 'Tut' }] },
+        { room: '405', day: 'Mon', occupied: [{ start: '09:00', end: '09:50', batch: 'Hopper', subBatch: 'Debugger', subject: 'Maths II', type: 'Tut' }] },
+        { room: '402', day: 'Mon', occupied: [{ start: '11:30', end: '12:20', batch: 'Hopper', subject: 'OS', type: 'Lab' }] },
+        { room: '401', day: 'Tue', occupied: [{ start: '09:50', end: '10:40', batch: 'Turing', subject: 'Web Dev', type: 'Lec' }] }
+    ],
+    breaks: [
+        { day: 'Mon', batch: 'Turing', kind: 'Break', start: '10:40', end: '11:30' },
+        { day: 'Mon', batch: 'Turing', kind: 'Lunch', start: '13:10', end: '14:00' },
+        { day: 'Mon', batch: 'Hopper', kind: 'Lunch', start: '13:10', end: '14:00' },
+        { day: 'Tue', batch: 'Turing', kind: 'Lunch', start: '13:10', end: '14:00' }
+    ]
+};
+
+function extract(sheets: SheetRows[]) {
+    const diagnostics = createGridDiagnostics();
+    return { timetable: extractSpreadsheetSchedules(sheets, createRoomMatcher(DEFAULT_ROOM_ALIASES), diagnostics), diagnostics };
+}
+
+describe('spreadsheet timetables', () => {
+    it('splits CSV rows, keeping quoted commas', () => {
+        expect(parseCsv('a,"b, c"\r\n"say ""hi""",\n')).toEqual([['a', 'b, c'], ['say "hi"', '']]);
+    });
+
+    it('parses a CSV export', () => {
+        const { timetable, diagnostics } = extract([parseCsv(readFileSync(path.join(FIXTURES, 'timetable.csv'), 'utf-8'))]);
+
+        expect(timetable).toEqual(EXPECTED);
+        expect(diagnostics.cellsWithoutRooms).toEqual([{ text: 'Physics Lec Room 999', day: 'Tue', batch: 'Neumann' }]);
+    });
+
+    it('parses an XLSX export, reading merged cells as one session', async () => {
+        const data = readFileSync(path.join(FIXTURES, 'timetable.xlsx'));
+        const sheets = await parseXlsx(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+        expect(sheets).toHaveLength(2);
+
+        const { timetable, diagnostics } = extract(sheets);
+        expect(timetable).toEqual(EXPECTED);
+        expect(diagnostics.cellsWithoutRooms).toEqual([{ text: 'Physics Lec Room 999', day: 'Tue', batch: 'Neumann' }]);
+    });
+
+    it('leaves the subject empty for a cell holding only rooms', () => {
+        const { timetable } = extract([parseCsv('Day,Batch,09:00 - 09:50,09:50 - 10:40,10:40 - 11:30,11:30 - 12:20\nMon,Turing,Enigma- 504 & Lambda- 503,,,\n')]);
+        expect(timetable.schedules.flatMap(entry => entry.occupied.map(slot => slot.subject))).toEqual([undefined, undefined]);
+    });
+});
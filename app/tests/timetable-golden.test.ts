@@ -0,0 +1,122 @@
+/**
+ * Golden-file regression suite for the timetable extractor.
+ *
+ * Each sample timetable in public/timetables is parsed the way /api/parse parses
+ * an uploaded file, by the parser the registry picks for it, and compared room by
+ * room and day by day with a reviewed golden file in tests/golden.
+ * A failure lists the slots that were added, removed or moved. After reviewing
+ * an intended change, rewrite the golden files with `UPDATE_GOLDEN=1 npm test`.
+ *
+ * The pdftotext dumps in scripts/ have no coordinates, so the grid extractor reads
+ * the PDFs they were taken from, and the dumps check that no room goes missing.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseTimetable } from '@/lib/parsers';
+import { createDiagnostics, type ParseDiagnostics } from '@/lib/parse-diagnostics';
+import { createRoomMatcher, DEFAULT_ROOM_ALIASES } from '@/lib/room-aliases';
+import { diffSchedules } from '@/lib/schedule-diff';
+import { ALL_DAYS } from '@/lib/days';
+import type { ParsedScheduleEntry, ParsedSlot } from '@/lib/pdf-parser';
+import type { BreakWindow } from '@/types';
+
+const ROOT = path.resolve(__dirname, '..');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const FIXTURES = [
+    { name: 'semester1', file: 'public/timetables/semester1/1770005761590_Untitled spreadsheet - Table 1.pdf', rawText: 'scripts/semester1_raw.txt', parser: 'pdf-semester1' },
+    { name: 'semester2', file: 'public/timetables/semester2/1769931874800_Sem 4 Time Table (19th Jan - 23rd Jan).pdf', rawText: 'scripts/semester2_raw.txt', parser: 'pdf-semester2' },
+];
+
+interface GoldenTimetable {
+    schedules: ParsedScheduleEntry[];
+    breaks: BreakWindow[];
+}
+
+// Golden files are kept in week order, then room order, so reviews read like the timetable
+function normalize(timetable: GoldenTimetable): GoldenTimetable {
+    const dayIndex = (day: string) => ALL_DAYS.indexOf(day as BreakWindow['day']);
+    const slotOrder = (a: ParsedSlot, b: ParsedSlot) =>
+        a.start.localeCompare(b.start) || a.end.localeCompare(b.end) || describeSlot(a).localeCompare(describeSlot(b));
+
+    return {
+        schedules: timetable.schedules
+            .map(entry => ({ ...entry, occupied: [...entry.occupied].sort(slotOrder) }))
+            .sort((a, b) => dayIndex(a.day) - dayIndex(b.day) || a.room.localeCompare(b.room)),
+        breaks: [...timetable.breaks]
+            .sort((a, b) => dayIndex(a.day) - dayIndex(b.day) || a.batch.localeCompare(b.batch) || a.start.localeCompare(b.start))
+    };
+}
+
+function describeSlot(slot: ParsedSlot): string {
+    const batch = slot.subBatch ? `${slot.batch}/${slot.subBatch}` : slot.batch;
+    return [`${slot.start}-${slot.end}`, batch, slot.subject, slot.type].filter(Boolean).join(' ');
+}
+
+function describeBreak(window: BreakWindow): string {
+    return `${window.day} ${window.batch} ${window.kind} ${window.start}-${window.end}`;
+}
+
+// One line per difference, e.g. "Mon 504: ~ 09:30-10:50 Turing/Enigma DSA Lab -> 09:00-10:50 ..."
+function describeChanges(golden: GoldenTimetable, parsed: GoldenTimetable): string[] {
+    const lines: string[] = [];
+
+    for (const entry of diffSchedules(golden.schedules, parsed.schedules).entries) {
+        const where = `${entry.day} ${entry.room}:`;
+        entry.added.forEach(slot => lines.push(`${where} + ${describeSlot(slot)}`));
+        entry.removed.forEach(slot => lines.push(`${where} - ${describeSlot(slot)}`));
+        entry.changed.forEach(({ before, after }) => lines.push(`${where} ~ ${describeSlot(before)} -> ${describeSlot(after)}`));
+    }
+
+    const before = new Set(golden.breaks.map(describeBreak));
+    const after = new Set(parsed.breaks.map(describeBreak));
+    after.forEach(line => !before.has(line) && lines.push(`break + ${line}`));
+    before.forEach(line => !after.has(line) && lines.push(`break - ${line}`));
+
+    return lines;
+}
+
+describe.each(FIXTURES)('$name timetable', fixture => {
+    const goldenPath = path.join(ROOT, 'tests', 'golden', `${fixture.name}.json`);
+    const matchRooms = createRoomMatcher(DEFAULT_ROOM_ALIASES);
+    let parsed: GoldenTimetable;
+    let report: ParseDiagnostics;
+
+    beforeAll(async () => {
+        const data = readFileSync(path.join(ROOT, fixture.file));
+        report = createDiagnostics(0, path.basename(fixture.file));
+        const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+        parsed = normalize(await parseTimetable({ name: fixture.file, data: buffer }, { extractRooms: matchRooms, report }));
+
+        if (UPDATE_GOLDEN) {
+            writeFileSync(goldenPath, JSON.stringify(parsed, null, 2) + '\n');
+        }
+    });
+
+    it('parses without errors', () => {
+        expect(report.parser).toBe(fixture.parser);
+        expect(report.errors).toEqual([]);
+        expect(parsed.schedules.length).toBeGreaterThan(0);
+    });
+
+    it('matches the golden file', () => {
+        expect(existsSync(goldenPath), `Missing ${goldenPath}, run UPDATE_GOLDEN=1 npm test`).toBe(true);
+        const golden: GoldenTimetable = JSON.parse(readFileSync(goldenPath, 'utf-8'));
+
+        expect(describeChanges(golden, parsed)).toEqual([]);
+    });
+
+    it('finds every room mentioned in the raw text dump', () => {
+        const rawRooms = new Set(
+            readFileSync(path.join(ROOT, fixture.rawText), 'utf-8')
+                .split('\n')
+                .flatMap(line => line.split('\t'))
+                .flatMap(cell => matchRooms(cell).map(mention => mention.room))
+        );
+        const parsedRooms = new Set(parsed.schedules.map(entry => entry.room));
+
+        expect([...rawRooms].filter(room => !parsedRooms.has(room)).sort()).toEqual([]);
+    });
+});